@@ -0,0 +1,192 @@
+/**
+ * Benchmark: whole-piece planning vs the old overlapping 32-note chunks
+ *
+ * Builds synthetic two-hand pieces of growing length (scales, arpeggios,
+ * five-finger figures, Alberti bass, block chords), plans them both ways and
+ * scores both results with the planner's own cost model. Each chunk has its
+ * own patterns recognized, so segment indices match the chunk's notes.
+ *
+ * Usage: npm run benchmark
+ */
+import type { Note, Hand, Finger } from '../src/types/music';
+import { FingeringPlanner } from '../src/core/FingeringPlanner';
+import { PatternRecognizer } from '../src/core/PatternRecognizer';
+
+const SIZES = [256, 1024, 4096];
+// Timings are the median of this many runs, after one warm-up run
+const RUNS = 9;
+
+// Old behaviour: 32-note chunks with a 4-note overlap, solved one by one
+const CHUNK_SIZE = 32;
+const OVERLAP = 4;
+
+const planner = new FingeringPlanner();
+const recognizer = new PatternRecognizer();
+
+function main() {
+  console.log('notes | chunked cost | global cost | chunked ms | global ms | changed notes');
+  console.log('----- | ------------ | ----------- | ---------- | --------- | -------------');
+
+  for (const size of SIZES) {
+    const notes = buildPiece(size);
+    const patterns = recognizer.recognizePatterns(notes);
+    
+    // Both sides are timed with their pattern recognition
+    const chunked = time(() => planChunked(notes));
+    const global = time(() => planner.planFingering(notes, recognizer.recognizePatterns(notes)));
+    const { fingering, substitutions } = global.result;
+    
+    const chunkedCost = planner.evaluateFingering(notes, patterns, chunked.result);
+    const globalCost = planner.evaluateFingering(notes, patterns, fingering, substitutions);
+    const changed = notes.filter((_, i) => chunked.result[i] !== fingering[i]).length;
+    
+    console.log([
+      notes.length,
+      chunkedCost.toFixed(0),
+      globalCost.toFixed(0),
+      chunked.ms.toFixed(1),
+      global.ms.toFixed(1),
+      changed
+    ].join(' | '));
+    
+    if (globalCost > chunkedCost) {
+      console.warn(`  Global plan costs more than chunking for ${notes.length} notes`);
+      process.exitCode = 1;
+    }
+    // Speed is reported, not enforced: on long pieces the two are close and timings vary from run to run
+    if (global.ms > chunked.ms) {
+      console.warn(`  Global plan took longer than chunking for ${notes.length} notes`);
+    }
+  }
+}
+
+function planChunked(notes: Note[]): Finger[] {
+  const fingering: Finger[] = new Array(notes.length);
+
+  for (const hand of ['RH', 'LH'] as Hand[]) {
+    const indices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+    
+    for (let start = 0; start < indices.length; start += CHUNK_SIZE - OVERLAP) {
+      const chunk = indices.slice(start, start + CHUNK_SIZE);
+      const chunkNotes = chunk.map(i => notes[i]);
+      const solution = planner.planFingering(chunkNotes, recognizer.recognizePatterns(chunkNotes));
+      
+      // Later chunks overwrite the overlap, as the chunked solver did
+      chunk.forEach((noteIndex, k) => {
+        if (start === 0 || k >= OVERLAP) fingering[noteIndex] = solution.fingering[k];
+      });
+      
+      if (start + CHUNK_SIZE >= indices.length) break;
+    }
+  }
+
+  return fingering;
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  let result = run();
+  const timings: number[] = [];
+
+  for (let r = 0; r < RUNS; r++) {
+    const start = performance.now();
+    result = run();
+    timings.push(performance.now() - start);
+  }
+
+  timings.sort((a, b) => a - b);
+  return { result, ms: timings[Math.floor(RUNS / 2)] };
+}
+
+/**
+ * A piece of about `size` notes in 4/4 with sixteenth notes in the right
+ * hand and eighth-note accompaniment in the left, one figure per measure
+ */
+function buildPiece(size: number): Note[] {
+  const notes: Note[] = [];
+  const random = seededRandom(size);
+  const major = [0, 2, 4, 5, 7, 9, 11];
+
+  const degree = (root: number, step: number) =>
+    root + Math.floor(step / 7) * 12 + major[((step % 7) + 7) % 7];
+
+  for (let measure = 1; notes.length < size; measure++) {
+    const root = 60 + [0, 2, 5, 7, -3][Math.floor(random() * 5)];
+    const figure = Math.floor(random() * 4);
+    
+    // Right hand: sixteen sixteenths
+    for (let k = 0; k < 16; k++) {
+      let pitch: number;
+      if (figure === 0) pitch = degree(root, k < 8 ? k : 15 - k);           // scale up and down
+      else if (figure === 1) pitch = degree(root, [0, 2, 4, 7][k % 4] + 7 * Math.floor(k / 8)); // arpeggio
+      else if (figure === 2) pitch = degree(root, [0, 1, 2, 3, 4, 3, 2, 1][k % 8]); // five-finger
+      else pitch = degree(root, [0, 4, 2, 5, 1, 4, 0, 3][k % 8] + (random() < 0.2 ? 7 : 0)); // broken figure with leaps
+      notes.push(makeNote(pitch, 'RH', measure, k / 4, false));
+    }
+    
+    // Left hand: Alberti bass or block chords
+    const bass = root - 24;
+    if (random() < 0.5) {
+      for (let k = 0; k < 8; k++) {
+        notes.push(makeNote(degree(bass, [0, 4, 2, 4][k % 4]), 'LH', measure, k / 2, false));
+      }
+    } else {
+      for (let k = 0; k < 4; k++) {
+        [0, 2, 4].forEach((step, c) => {
+          notes.push(makeNote(degree(bass, step), 'LH', measure, k, c > 0));
+        });
+      }
+    }
+  }
+
+  // Parsed scores keep notes in time order within each measure
+  return notes.sort((a, b) => a.measureNumber - b.measureNumber || a.beat - b.beat);
+}
+
+let nextId = 0;
+
+function makeNote(pitch: number, hand: Hand, measureNumber: number, beat: number, isChord: boolean): Note {
+  const names = ['C', 'C', 'D', 'D', 'E', 'F', 'F', 'G', 'G', 'A', 'A', 'B'];
+  const alter = [0, 1, 0, 1, 0, 0, 1, 0, 1, 0, 1, 0][pitch % 12];
+
+  return {
+    id: `note-${nextId++}`,
+    pitch,
+    step: names[pitch % 12],
+    octave: Math.floor(pitch / 12) - 1,
+    alter,
+    duration: hand === 'RH' ? 1 : 2,
+    type: hand === 'RH' ? '16th' : 'eighth',
+    voice: hand === 'RH' ? 1 : 5,
+    staff: hand === 'RH' ? 1 : 2,
+    hand,
+    partId: 'P1',
+    measureNumber,
+    beat,
+    isChord,
+    isGrace: false,
+    isRest: false,
+    hasSlur: false,
+    slurStart: false,
+    slurStop: false,
+    hasTie: false,
+    tieStart: false,
+    tieStop: false,
+    hasAccent: false,
+    hasStaccato: false,
+    hasTrill: false,
+    hasMordent: false,
+    hasTurn: false,
+    xmlIndex: 0
+  };
+}
+
+// Deterministic pieces so runs can be compared
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+main();
@@ -0,0 +1,440 @@
+/**
+ * Accuracy of the planner against reference fingerings
+ *
+ * Takes scores that already carry fingerings, hides them, plans the score
+ * again and compares the result with the reference: exact matches per hand,
+ * matches within the alternatives the score accepts (<fingering alternate="yes">),
+ * a confusion matrix and a breakdown by pattern type. Writes
+ * evaluation-report.json and evaluation-report.html; with --baseline the
+ * run fails when accuracy drops against an earlier report.
+ *
+ * Usage: npm run evaluate -- [options] <file|directory>...
+ */
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { Note, Hand, Finger, PatternType, CostProfile } from '../src/types/music';
+import { musicXMLParser } from '../src/core/MusicXMLParser';
+import { handAssigner } from '../src/core/HandAssigner';
+import { patternRecognizer } from '../src/core/PatternRecognizer';
+import { fingeringPlanner } from '../src/core/FingeringPlanner';
+import { CostModel } from '../src/core/CostModel';
+import { cwd, collectFiles, readScore, display } from './score-files';
+
+type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+interface CliOptions {
+  inputs: string[];
+  level: DifficultyLevel;
+  costProfile: CostProfile | null;
+  outDir: string;
+  baseline: string | null;
+  recursive: boolean;
+}
+
+// Matches out of the notes that have a reference fingering
+interface Score {
+  notes: number;
+  exact: number;
+  acceptable: number;
+  exactRate: number;
+  acceptableRate: number;
+}
+
+interface Tally {
+  RH: Score;
+  LH: Score;
+  all: Score;
+  // Rows: reference finger 1-5, columns: planned finger 1-5
+  confusion: Record<Hand | 'all', number[][]>;
+  byPattern: Partial<Record<PatternType, Score>>;
+}
+
+interface FileResult {
+  input: string;
+  title?: string;
+  error?: string;
+  RH?: Score;
+  LH?: Score;
+  all?: Score;
+  notesWithAlternatives?: number;
+}
+
+interface Report {
+  generatedAt: string;
+  options: { level: DifficultyLevel; costProfile: string | null };
+  summary: { files: number; evaluated: number; failed: number; RH: Score; LH: Score; all: Score };
+  confusion: Tally['confusion'];
+  byPattern: Tally['byPattern'];
+  baseline?: { file: string; exactDelta: number; acceptableDelta: number; regressed: boolean };
+  files: FileResult[];
+}
+
+const USAGE = `Usage: npm run evaluate -- [options] <file|directory>...
+
+Re-plans scores that already carry fingerings and compares the result with them.
+
+Options:
+  -l, --level <level>     beginner | intermediate | advanced (default: intermediate)
+      --cost-profile <file>
+                          JSON cost profile to evaluate instead of the built-in rules
+  -o, --out-dir <dir>     where evaluation-report.json and .html go (default: .)
+  -b, --baseline <file>   earlier evaluation-report.json; exit with 1 when the exact
+                          or acceptable rate is lower than there
+  -R, --recursive         include sub-directories of directory inputs
+  -h, --help              show this help`;
+
+const HANDS: Hand[] = ['RH', 'LH'];
+
+async function main() {
+  const options = await parseArgs(process.argv.slice(2));
+
+  const files = await collectFiles(options.inputs, options.recursive)
+    .catch(err => fail(err instanceof Error ? err.message : String(err)));
+  if (files.length === 0) {
+    fail('No .musicxml, .xml, .mxl or .mid files found');
+  }
+
+  fingeringPlanner.setDifficultyLevel(options.level);
+  fingeringPlanner.setCostProfile(options.costProfile);
+
+  const total = emptyTally();
+  const results: FileResult[] = [];
+
+  for (const file of files) {
+    const result = await evaluateFile(file, total);
+    results.push(result);
+    
+    if (result.error) {
+      console.error(`✗ ${display(file)}: ${result.error}`);
+    } else if (result.all!.notes === 0) {
+      console.log(`– ${display(file)}: no reference fingerings`);
+    } else {
+      console.log(`✓ ${display(file)}: ${percent(result.all!.exactRate)} exact, ${percent(result.all!.acceptableRate)} acceptable (${result.all!.notes} notes)`);
+    }
+  }
+
+  const failed = results.filter(r => r.error).length;
+  const report: Report = {
+    generatedAt: new Date().toISOString(),
+    options: { level: options.level, costProfile: options.costProfile?.name ?? null },
+    summary: {
+      files: results.length,
+      evaluated: results.filter(r => r.all && r.all.notes > 0).length,
+      failed,
+      RH: total.RH,
+      LH: total.LH,
+      all: total.all
+    },
+    confusion: total.confusion,
+    byPattern: total.byPattern,
+    files: results
+  };
+
+  if (options.baseline) {
+    const previous = await readFile(options.baseline, 'utf8')
+      .then(json => JSON.parse(json) as Report)
+      .catch(() => fail(`Cannot read baseline report ${display(options.baseline!)}`));
+    const exactDelta = total.all.exactRate - previous.summary.all.exactRate;
+    const acceptableDelta = total.all.acceptableRate - previous.summary.all.acceptableRate;
+    report.baseline = {
+      file: display(options.baseline),
+      exactDelta,
+      acceptableDelta,
+      // Rates are rounded to 0.1%, so smaller changes are noise
+      regressed: exactDelta < -0.0005 || acceptableDelta < -0.0005
+    };
+  }
+
+  await mkdir(options.outDir, { recursive: true });
+  const jsonPath = path.join(options.outDir, 'evaluation-report.json');
+  const htmlPath = path.join(options.outDir, 'evaluation-report.html');
+  await writeFile(jsonPath, JSON.stringify(report, null, 2));
+  await writeFile(htmlPath, renderHtml(report));
+
+  console.log(`\nExact: ${percent(total.all.exactRate)} (RH ${percent(total.RH.exactRate)}, LH ${percent(total.LH.exactRate)}); ` +
+    `acceptable: ${percent(total.all.acceptableRate)} over ${total.all.notes} notes`);
+  if (report.baseline) {
+    console.log(`Against ${report.baseline.file}: exact ${signedPercent(report.baseline.exactDelta)}, ` +
+      `acceptable ${signedPercent(report.baseline.acceptableDelta)}`);
+  }
+  console.log(`Reports: ${display(jsonPath)}, ${display(htmlPath)}`);
+
+  if (failed > 0 || report.baseline?.regressed) process.exitCode = 1;
+}
+
+async function evaluateFile(input: string, total: Tally): Promise<FileResult> {
+  try {
+    const { xml } = await readScore(input);
+    const score = musicXMLParser.parseXML(xml);
+    handAssigner.assignHands(score.notes);
+    
+    // Hide the reference and plan from scratch
+    const reference = score.notes.map(n => n.fingering);
+    const accepted = score.notes.map(n => [n.fingering, ...(n.alternateFingerings ?? [])]);
+    score.notes.forEach(n => {
+      n.fingering = undefined;
+      n.ornamentFingering = undefined;
+      n.substitution = undefined;
+    });
+    
+    const patterns = patternRecognizer.recognizePatterns(score.notes);
+    const solution = fingeringPlanner.planFingering(score.notes, patterns, { timing: score });
+    const patternOf = notePatterns(score.notes);
+    
+    const file = emptyTally();
+    score.notes.forEach((note, i) => {
+      const expected = reference[i];
+      if (expected === undefined) return;
+      
+      const planned = solution.fingering[i];
+      const isAcceptable = accepted[i].includes(planned);
+      for (const tally of [file, total]) {
+        count(tally, note.hand, patternOf[i], expected, planned, isAcceptable);
+      }
+    });
+    
+    return {
+      input,
+      title: score.title,
+      RH: finish(file.RH),
+      LH: finish(file.LH),
+      all: finish(file.all),
+      notesWithAlternatives: score.notes.filter(n => n.alternateFingerings?.length).length
+    };
+  } catch (err) {
+    return { input, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Pattern type of every note, recognized one hand at a time so segment
+ * indices refer to that hand's notes
+ */
+function notePatterns(notes: Note[]): PatternType[] {
+  const result: PatternType[] = new Array(notes.length).fill('UNKNOWN');
+
+  for (const hand of HANDS) {
+    const indices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+    const segments = patternRecognizer.recognizePatterns(indices.map(i => notes[i]));
+    
+    // Later, more specific segments win over earlier overlapping ones
+    segments.forEach(segment => {
+      for (let k = segment.startIndex; k <= segment.endIndex && k < indices.length; k++) {
+        result[indices[k]] = segment.patternType;
+      }
+    });
+  }
+
+  return result;
+}
+
+function emptyScore(): Score {
+  return { notes: 0, exact: 0, acceptable: 0, exactRate: 0, acceptableRate: 0 };
+}
+
+function emptyTally(): Tally {
+  const matrix = () => Array.from({ length: 5 }, () => new Array(5).fill(0));
+  return {
+    RH: emptyScore(),
+    LH: emptyScore(),
+    all: emptyScore(),
+    confusion: { RH: matrix(), LH: matrix(), all: matrix() },
+    byPattern: {}
+  };
+}
+
+function count(tally: Tally, hand: Hand, pattern: PatternType, expected: Finger, planned: Finger, isAcceptable: boolean) {
+  const byPattern = tally.byPattern[pattern] ?? emptyScore();
+  tally.byPattern[pattern] = byPattern;
+
+  for (const score of [tally[hand], tally.all, byPattern]) {
+    score.notes++;
+    if (planned === expected) score.exact++;
+    if (isAcceptable) score.acceptable++;
+    finish(score);
+  }
+
+  tally.confusion[hand][expected - 1][planned - 1]++;
+  tally.confusion.all[expected - 1][planned - 1]++;
+}
+
+function finish(score: Score): Score {
+  score.exactRate = score.notes > 0 ? round(score.exact / score.notes) : 0;
+  score.acceptableRate = score.notes > 0 ? round(score.acceptable / score.notes) : 0;
+  return score;
+}
+
+function round(rate: number): number {
+  return Math.round(rate * 1000) / 1000;
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function signedPercent(delta: number): string {
+  return `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)} pts`;
+}
+
+function renderHtml(report: Report): string {
+  const scoreRow = (label: string, score: Score) => `
+      <tr><th>${escapeHtml(label)}</th><td>${score.notes}</td><td>${percent(score.exactRate)}</td><td>${percent(score.acceptableRate)}</td></tr>`;
+
+  const confusion = (hand: Hand | 'all') => {
+    const matrix = report.confusion[hand];
+    const max = Math.max(1, ...matrix.flat());
+    const rows = matrix.map((row, r) => `
+        <tr><th>${r + 1}</th>${row.map((n, c) => {
+          const shade = Math.round((n / max) * 60);
+          const color = r === c ? `hsl(140 55% ${95 - shade}%)` : `hsl(0 65% ${97 - shade / 2}%)`;
+          return `<td style="background:${color}">${n}</td>`;
+        }).join('')}</tr>`).join('');
+    return `
+    <div>
+      <h3>${hand === 'all' ? 'Both hands' : hand}</h3>
+      <table class="matrix">
+        <tr><th>ref ↓ / plan →</th>${[1, 2, 3, 4, 5].map(f => `<th>${f}</th>`).join('')}</tr>${rows}
+      </table>
+    </div>`;
+  };
+
+  const patterns = (Object.entries(report.byPattern) as [PatternType, Score][])
+    .sort(([, a], [, b]) => b.notes - a.notes)
+    .map(([type, score]) => scoreRow(type, score))
+    .join('');
+
+  const files = report.files.map(f => f.error
+    ? `
+      <tr><th>${escapeHtml(display(f.input))}</th><td colspan="3" class="error">${escapeHtml(f.error)}</td></tr>`
+    : scoreRow(`${f.title ?? ''} (${display(f.input)})`, f.all!)
+  ).join('');
+
+  const baseline = report.baseline ? `
+  <p class="${report.baseline.regressed ? 'error' : 'ok'}">
+    Against ${escapeHtml(report.baseline.file)}: exact ${signedPercent(report.baseline.exactDelta)},
+    acceptable ${signedPercent(report.baseline.acceptableDelta)}${report.baseline.regressed ? ' — regression' : ''}
+  </p>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Fingering Evaluation</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; margin-bottom: 1.5rem; }
+    th, td { border: 1px solid #ccc; padding: 0.3rem 0.7rem; text-align: right; }
+    th:first-child { text-align: left; }
+    .matrices { display: flex; gap: 2rem; flex-wrap: wrap; }
+    .matrix td { min-width: 2.5rem; }
+    .error { color: #c62828; text-align: left; }
+    .ok { color: #2e7d32; }
+  </style>
+</head>
+<body>
+  <h1>Fingering Evaluation</h1>
+  <p>${report.generatedAt} · level ${report.options.level} · cost profile ${escapeHtml(report.options.costProfile ?? 'built-in')} ·
+    ${report.summary.evaluated} of ${report.summary.files} files evaluated</p>${baseline}
+
+  <h2>Accuracy</h2>
+  <table>
+    <tr><th>Hand</th><th>Notes</th><th>Exact</th><th>Acceptable</th></tr>${scoreRow('RH', report.summary.RH)}${scoreRow('LH', report.summary.LH)}${scoreRow('Both', report.summary.all)}
+  </table>
+
+  <h2>Confusion Matrix</h2>
+  <div class="matrices">${confusion('RH')}${confusion('LH')}${confusion('all')}
+  </div>
+
+  <h2>By Pattern Type</h2>
+  <table>
+    <tr><th>Pattern</th><th>Notes</th><th>Exact</th><th>Acceptable</th></tr>${patterns}
+  </table>
+
+  <h2>Files</h2>
+  <table>
+    <tr><th>File</th><th>Notes</th><th>Exact</th><th>Acceptable</th></tr>${files}
+  </table>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+}
+
+async function parseArgs(args: string[]): Promise<CliOptions> {
+  const options: CliOptions = {
+    inputs: [],
+    level: 'intermediate',
+    costProfile: null,
+    outDir: cwd,
+    baseline: null,
+    recursive: false
+  };
+
+  const value = (i: number, flag: string) => {
+    if (i >= args.length || args[i].startsWith('-')) fail(`${flag} needs a value`);
+    return args[i];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    
+    switch (arg) {
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+      case '-l':
+      case '--level': {
+        const level = value(++i, arg);
+        if (!['beginner', 'intermediate', 'advanced'].includes(level)) {
+          fail(`Unknown level "${level}"`);
+        }
+        options.level = level as DifficultyLevel;
+        break;
+      }
+      case '--cost-profile': {
+        const file = path.resolve(cwd, value(++i, arg));
+        const json = await readFile(file, 'utf8').catch(() => fail(`Cannot read ${display(file)}`));
+        try {
+          options.costProfile = CostModel.parseProfile(json);
+        } catch (err) {
+          fail(`${display(file)}: ${err instanceof Error ? err.message : err}`);
+        }
+        break;
+      }
+      case '-o':
+      case '--out-dir':
+        options.outDir = path.resolve(cwd, value(++i, arg));
+        break;
+      case '-b':
+      case '--baseline':
+        options.baseline = path.resolve(cwd, value(++i, arg));
+        break;
+      case '-R':
+      case '--recursive':
+        options.recursive = true;
+        break;
+      default:
+        if (arg.startsWith('-')) fail(`Unknown option ${arg}`);
+        options.inputs.push(path.resolve(cwd, arg));
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main();
@@ -0,0 +1,329 @@
+/**
+ * Batch fingering from the command line
+ *
+ * Runs the same pipeline as the web app (parsing, hand assignment, pattern
+ * recognition, planning) on MusicXML and MIDI files and writes <name>_fingered.musicxml
+ * next to each input, or into --out-dir, plus a JSON report of the run.
+ *
+ * Usage: npm run finger -- [options] <file|directory>...
+ */
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { Finger, Hand, PatternSegment, HandProfile, CostProfile } from '../src/types/music';
+import { musicXMLParser } from '../src/core/MusicXMLParser';
+import { handAssigner } from '../src/core/HandAssigner';
+import { patternRecognizer } from '../src/core/PatternRecognizer';
+import { CostModel } from '../src/core/CostModel';
+import { difficultyAnalyzer } from '../src/core/DifficultyAnalyzer';
+import { SCORE_FILE, cwd, collectFiles, readScore, display } from './score-files';
+import { fingeringPlanner, HAND_PROFILES, MIN_HAND_SPAN, MAX_HAND_SPAN } from '../src/core/FingeringPlanner';
+
+type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+interface CliOptions {
+  inputs: string[];
+  level: DifficultyLevel;
+  hand: HandProfile;
+  costProfile: CostProfile | null;
+  outDir: string | null;
+  report: string | null;
+  recursive: boolean;
+  keepExisting: boolean;
+  format: 'musicxml' | 'mxl' | 'same';
+}
+
+interface FileReport {
+  input: string;
+  output?: string;
+  error?: string;
+  title?: string;
+  composer?: string;
+  parts?: string[];
+  measures?: number;
+  notes?: { total: number; RH: number; LH: number };
+  keptFingerings?: number;
+  reassignedNotes?: number;
+  patterns?: Record<string, number>;
+  totalCost?: number;
+  difficulty?: { grade: string; level: number; hands: Record<Hand, number> };
+  durationMs: number;
+}
+
+const USAGE = `Usage: npm run finger -- [options] <file|directory>...
+
+Writes <name>_fingered.musicxml (or .mxl) for every .musicxml, .xml or .mxl input,
+and for every .mid or .midi input converted to MusicXML. Directories are scanned
+without the _fingered outputs of earlier runs.
+
+Options:
+  -l, --level <level>     beginner | intermediate | advanced (default: intermediate)
+      --hand <size>       child | small | average | large (default: average)
+      --span <rh>[,<lh>]  measured widest 1-5 stretch of each hand in semitones
+                          (${MIN_HAND_SPAN}-${MAX_HAND_SPAN}); overrides --hand
+      --cost-profile <file>
+                          JSON cost profile: rule switches, weights, parameters
+      --print-cost-profile
+                          print every cost rule with its default settings as a
+                          profile to start from, and exit
+  -f, --format <format>   musicxml | mxl | same (default: musicxml); mxl keeps
+                          every other file of an .mxl input, same follows the input
+  -o, --out-dir <dir>     write fingered files here instead of next to each input
+  -r, --report <file>     JSON report path (default: fingering-report.json in the
+                          output directory, or the current directory)
+  -R, --recursive         include sub-directories of directory inputs
+      --replace-existing  re-plan notes that already carry a fingering
+                          (by default they are kept fixed, as in the app)
+  -h, --help              show this help`;
+
+async function main() {
+  const options = await parseArgs(process.argv.slice(2));
+
+  // Outputs of earlier runs in a scanned directory are not fingered again
+  const files = await collectFiles(options.inputs, options.recursive, true)
+    .catch(err => fail(err instanceof Error ? err.message : String(err)));
+  if (files.length === 0) {
+    fail('No .musicxml, .xml, .mxl or .mid files found');
+  }
+
+  if (options.outDir) {
+    await mkdir(options.outDir, { recursive: true });
+  }
+
+  fingeringPlanner.setDifficultyLevel(options.level);
+  fingeringPlanner.setHandProfile(options.hand);
+  fingeringPlanner.setCostProfile(options.costProfile);
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    const report = await fingerFile(file, options);
+    reports.push(report);
+    
+    if (report.error) {
+      console.error(`✗ ${display(file)}: ${report.error}`);
+    } else {
+      console.log(`✓ ${display(file)} → ${display(report.output!)} (${report.notes!.total} notes, ${report.durationMs} ms)`);
+    }
+  }
+
+  const failed = reports.filter(r => r.error).length;
+  const reportPath = options.report ?? path.join(options.outDir ?? cwd, 'fingering-report.json');
+  const summary = {
+    generatedAt: new Date().toISOString(),
+    options: {
+      level: options.level,
+      hand: options.hand,
+      costProfile: options.costProfile?.name ?? null,
+      keepExisting: options.keepExisting,
+      format: options.format,
+      outDir: options.outDir
+    },
+    summary: {
+      files: reports.length,
+      succeeded: reports.length - failed,
+      failed,
+      notes: reports.reduce((sum, r) => sum + (r.notes?.total ?? 0), 0)
+    },
+    files: reports
+  };
+
+  await writeFile(reportPath, JSON.stringify(summary, null, 2));
+  console.log(`\n${reports.length - failed}/${reports.length} files fingered, report: ${display(reportPath)}`);
+
+  if (failed > 0) process.exitCode = 1;
+}
+
+async function fingerFile(input: string, options: CliOptions): Promise<FileReport> {
+  const start = performance.now();
+
+  try {
+    const { xml, archive } = await readScore(input);
+    
+    const score = musicXMLParser.parseXML(xml);
+    const reassigned = handAssigner.assignHands(score.notes);
+    
+    // Fingerings written in the score are kept as fixed constraints
+    const locked = new Map<string, Finger>();
+    if (options.keepExisting) {
+      score.notes.forEach(n => {
+        if (n.fingering !== undefined) locked.set(n.id, n.fingering);
+      });
+    } else {
+      // Ornament fingerings from the score would otherwise be kept
+      score.notes.forEach(n => {
+        n.ornamentFingering = undefined;
+      });
+    }
+    
+    const patterns = patternRecognizer.recognizePatterns(score.notes);
+    const solution = fingeringPlanner.planFingering(score.notes, patterns, { lockedFingerings: locked, timing: score });
+    
+    score.notes.forEach((note, i) => {
+      note.fingering = solution.fingering[i];
+      note.ornamentFingering = solution.ornamentFingerings?.[i];
+      note.substitution = solution.substitutions?.[i];
+    });
+    
+    const steps = fingeringPlanner.scoreSteps(score.notes, patterns, solution.fingering, solution.substitutions, score);
+    const { grade, level, hands } = difficultyAnalyzer.analyze(score.notes, steps, score);
+    
+    const annotatedXml = musicXMLParser.writeFingeringToXML(xml, score.notes);
+    const baseName = path.basename(input).replace(SCORE_FILE, '');
+    const compressed = options.format === 'mxl' || (options.format === 'same' && archive !== null);
+    const output = path.join(
+      options.outDir ?? path.dirname(input),
+      `${baseName}_fingered.${compressed ? 'mxl' : 'musicxml'}`
+    );
+    
+    if (compressed) {
+      const packed = await musicXMLParser.writeMXL(annotatedXml, archive, `${baseName}.musicxml`);
+      await writeFile(output, Buffer.from(packed));
+    } else {
+      await writeFile(output, annotatedXml);
+    }
+    
+    return {
+      input,
+      output,
+      title: score.title,
+      composer: score.composer,
+      parts: score.parts.filter(p => p.fingered).map(p => p.name),
+      measures: score.measures.length,
+      notes: {
+        total: score.notes.length,
+        RH: score.notes.filter(n => n.hand === 'RH').length,
+        LH: score.notes.filter(n => n.hand === 'LH').length
+      },
+      keptFingerings: locked.size,
+      reassignedNotes: reassigned.length,
+      patterns: summarizePatterns(patterns),
+      totalCost: Math.round(solution.totalCost),
+      difficulty: { grade, level, hands },
+      durationMs: Math.round(performance.now() - start)
+    };
+  } catch (err) {
+    return {
+      input,
+      error: err instanceof Error ? err.message : String(err),
+      durationMs: Math.round(performance.now() - start)
+    };
+  }
+}
+
+function summarizePatterns(patterns: PatternSegment[]): Record<string, number> {
+  const summary: Record<string, number> = {};
+  patterns.forEach(p => {
+    summary[p.patternType] = (summary[p.patternType] || 0) + 1;
+  });
+  return summary;
+}
+
+async function parseArgs(args: string[]): Promise<CliOptions> {
+  const options: CliOptions = {
+    inputs: [],
+    level: 'intermediate',
+    hand: HAND_PROFILES.average,
+    costProfile: null,
+    outDir: null,
+    report: null,
+    recursive: false,
+    keepExisting: true,
+    format: 'musicxml'
+  };
+
+  const value = (i: number, flag: string) => {
+    if (i >= args.length || args[i].startsWith('-')) fail(`${flag} needs a value`);
+    return args[i];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    
+    switch (arg) {
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+      case '-l':
+      case '--level': {
+        const level = value(++i, arg);
+        if (!['beginner', 'intermediate', 'advanced'].includes(level)) {
+          fail(`Unknown level "${level}"`);
+        }
+        options.level = level as DifficultyLevel;
+        break;
+      }
+      case '--hand': {
+        const size = value(++i, arg);
+        if (!Object.keys(HAND_PROFILES).includes(size)) {
+          fail(`Unknown hand size "${size}"`);
+        }
+        options.hand = HAND_PROFILES[size as keyof typeof HAND_PROFILES];
+        break;
+      }
+      case '--span': {
+        const spans = value(++i, arg).split(',').map(Number);
+        const [rh, lh = rh] = spans;
+        if (spans.length > 2 || ![rh, lh].every(s => Number.isInteger(s) && s >= MIN_HAND_SPAN && s <= MAX_HAND_SPAN)) {
+          fail(`--span needs one or two whole numbers of semitones between ${MIN_HAND_SPAN} and ${MAX_HAND_SPAN}`);
+        }
+        options.hand = { size: 'custom', maxSpan: { RH: rh, LH: lh } };
+        break;
+      }
+      case '--cost-profile': {
+        const file = path.resolve(cwd, value(++i, arg));
+        const json = await readFile(file, 'utf8').catch(() => fail(`Cannot read ${display(file)}`));
+        try {
+          options.costProfile = CostModel.parseProfile(json);
+        } catch (err) {
+          fail(`${display(file)}: ${err instanceof Error ? err.message : err}`);
+        }
+        break;
+      }
+      case '--print-cost-profile':
+        console.log(JSON.stringify(new CostModel().toProfile(), null, 2));
+        process.exit(0);
+      case '-f':
+      case '--format': {
+        const format = value(++i, arg);
+        if (!['musicxml', 'mxl', 'same'].includes(format)) {
+          fail(`Unknown format "${format}"`);
+        }
+        options.format = format as CliOptions['format'];
+        break;
+      }
+      case '-o':
+      case '--out-dir':
+        options.outDir = path.resolve(cwd, value(++i, arg));
+        break;
+      case '-r':
+      case '--report':
+        options.report = path.resolve(cwd, value(++i, arg));
+        break;
+      case '-R':
+      case '--recursive':
+        options.recursive = true;
+        break;
+      case '--replace-existing':
+        options.keepExisting = false;
+        break;
+      default:
+        if (arg.startsWith('-')) fail(`Unknown option ${arg}`);
+        options.inputs.push(path.resolve(cwd, arg));
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main();
@@ -0,0 +1,72 @@
+/**
+ * Score file helpers shared by the command-line scripts
+ */
+import { readFile, readdir, stat } from 'fs/promises';
+import path from 'path';
+import { musicXMLParser } from '../src/core/MusicXMLParser';
+import { midiImporter } from '../src/core/MidiImporter';
+
+export const SCORE_FILE = /\.(mxl|musicxml|xml|mid|midi)$/i;
+export const FINGERED_FILE = /_fingered\.(musicxml|mxl)$/i;
+
+// npm run changes into scripts/; paths are relative to where it was started
+export const cwd = process.env.INIT_CWD || process.cwd();
+
+/**
+ * Files given on the command line; directories are scanned for score files,
+ * leaving out the outputs of earlier finger runs when skipFingered is set
+ */
+export async function collectFiles(inputs: string[], recursive: boolean, skipFingered = false): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      throw new Error(`Not found: ${display(input)}`);
+    }
+    
+    if (info.isDirectory()) {
+      files.push(...await scanDirectory(input, recursive, skipFingered));
+    } else {
+      files.push(input);
+    }
+  }
+
+  return [...new Set(files)];
+}
+
+async function scanDirectory(dir: string, recursive: boolean, skipFingered: boolean): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...await scanDirectory(full, recursive, skipFingered));
+    } else if (SCORE_FILE.test(entry.name) && !(skipFingered && FINGERED_FILE.test(entry.name))) {
+      files.push(full);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * MusicXML text of a score file, and the archive when it is an .mxl;
+ * MIDI files are converted
+ */
+export async function readScore(file: string): Promise<{ xml: string; archive: Buffer | null }> {
+  const extension = SCORE_FILE.exec(file)?.[1].toLowerCase();
+  if (extension === 'mid' || extension === 'midi') {
+    const xml = midiImporter.toMusicXML(await readFile(file), path.basename(file).replace(SCORE_FILE, ''));
+    return { xml, archive: null };
+  }
+  
+  const archive = extension === 'mxl' ? await readFile(file) : null;
+  const xml = archive ? await musicXMLParser.readMXL(archive) : await readFile(file, 'utf8');
+  return { xml, archive };
+}
+
+export function display(file: string): string {
+  return path.relative(cwd, file) || '.';
+}
@@ -0,0 +1,296 @@
+/**
+ * Learn planner weights from fingered editions
+ *
+ * Reads MusicXML files that already carry fingerings and counts, per hand,
+ * finger transitions, finger pairs per melodic interval and fingers on
+ * black and white keys. Writes them as a cost profile the planner loads
+ * with --cost-profile or "Cost Profile" in the app.
+ *
+ * Usage: npm run train -- [options] <file|directory>...
+ */
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Note, Hand, KeyColor, CostProfile } from '../src/types/music';
+import { musicXMLParser } from '../src/core/MusicXMLParser';
+import { handAssigner } from '../src/core/HandAssigner';
+import { CostModel, DEFAULT_TRANSITION_WEIGHTS, intervalKey, isBlackKey } from '../src/core/CostModel';
+import { cwd, collectFiles, readScore, display } from './score-files';
+
+interface CliOptions {
+  inputs: string[];
+  out: string;
+  name: string | null;
+  base: CostProfile | null;
+  recursive: boolean;
+  minSamples: number;
+}
+
+// Counts of one hand
+interface HandCounts {
+  transitions: Map<string, number>;
+  intervals: Map<string, Map<string, number>>;
+  keyColors: Record<KeyColor, Map<string, number>>;
+  fingerings: number;
+}
+
+const USAGE = `Usage: npm run train -- [options] <file|directory>...
+
+Learns finger statistics from scores that already carry fingerings and writes
+them as a cost profile for --cost-profile or "Cost Profile" in the app.
+
+Options:
+  -o, --out <file>        profile path (default: trained-profile.json)
+  -n, --name <name>       profile name (default: "Trained on <first input>")
+      --base <file>       start from this cost profile's rule settings
+      --min-samples <n>   leave out intervals seen fewer than n times (default: 5)
+  -R, --recursive         include sub-directories of directory inputs
+  -h, --help              show this help`;
+
+const HANDS: Hand[] = ['RH', 'LH'];
+
+async function main() {
+  const options = await parseArgs(process.argv.slice(2));
+
+  const files = await collectFiles(options.inputs, options.recursive)
+    .catch(err => fail(err instanceof Error ? err.message : String(err)));
+  if (files.length === 0) {
+    fail('No .musicxml, .xml, .mxl or .mid files found');
+  }
+
+  const counts = { RH: emptyCounts(), LH: emptyCounts() };
+  let pieces = 0;
+
+  for (const file of files) {
+    try {
+      const { xml } = await readScore(file);
+      const score = musicXMLParser.parseXML(xml);
+      handAssigner.assignHands(score.notes);
+      
+      const before = counts.RH.fingerings + counts.LH.fingerings;
+      HANDS.forEach(hand => countHand(score.notes.filter(n => n.hand === hand), counts[hand]));
+      const found = counts.RH.fingerings + counts.LH.fingerings - before;
+      
+      if (found > 0) pieces++;
+      console.log(`${found > 0 ? '✓' : '–'} ${display(file)}: ${found} fingerings`);
+    } catch (err) {
+      console.error(`✗ ${display(file)}: ${err instanceof Error ? err.message : err}`);
+      process.exitCode = 1;
+    }
+  }
+
+  const total = counts.RH.fingerings + counts.LH.fingerings;
+  if (total === 0) {
+    fail('None of the scores carry fingerings');
+  }
+
+  const profile: CostProfile = {
+    ...options.base,
+    name: options.name ?? `Trained on ${path.basename(options.inputs[0])}`,
+    description: `Learned from ${pieces} pieces, ${total} fingerings (${new Date().toISOString().slice(0, 10)})`,
+    transitionWeights: transitionWeights(counts),
+    intervalStats: {
+      RH: intervalShares(counts.RH, options.minSamples),
+      LH: intervalShares(counts.LH, options.minSamples)
+    },
+    keyColorStats: {
+      RH: keyColorShares(counts.RH),
+      LH: keyColorShares(counts.LH)
+    }
+  };
+
+  // Make sure the planner accepts what was written
+  new CostModel(profile);
+
+  await writeFile(options.out, JSON.stringify(profile, null, 2));
+  console.log(`\n${pieces}/${files.length} scores with fingerings, ${total} fingerings (RH ${counts.RH.fingerings}, LH ${counts.LH.fingerings})`);
+  console.log(`Profile: ${display(options.out)}`);
+}
+
+function emptyCounts(): HandCounts {
+  return {
+    transitions: new Map(),
+    intervals: new Map(),
+    keyColors: { black: new Map(), white: new Map() },
+    fingerings: 0
+  };
+}
+
+/**
+ * Count one hand's notes in score order. Only melodic steps between single
+ * notes that both carry a fingering are counted as transitions; tied
+ * continuations are not played again and are skipped.
+ */
+function countHand(notes: Note[], counts: HandCounts) {
+  const onsets = groupOnsets(notes.filter(n => !n.tieStop));
+  let previous: Note | null = null;
+
+  for (const onset of onsets) {
+    onset.forEach(note => {
+      if (note.fingering === undefined) return;
+      counts.fingerings++;
+      increment(counts.keyColors[isBlackKey(note.pitch) ? 'black' : 'white'], `${note.fingering}`);
+    });
+    
+    const note = onset.length === 1 && onset[0].fingering !== undefined ? onset[0] : null;
+    if (note && previous) {
+      const pair = `${previous.fingering}->${note.fingering}`;
+      increment(counts.transitions, pair);
+      
+      const key = intervalKey(note.pitch - previous.pitch);
+      const pairs = counts.intervals.get(key) ?? new Map<string, number>();
+      increment(pairs, pair);
+      counts.intervals.set(key, pairs);
+    }
+    previous = note;
+  }
+}
+
+// Notes struck together; the parser keeps notes in time order within each measure
+function groupOnsets(notes: Note[]): Note[][] {
+  const onsets: Note[][] = [];
+  let key = '';
+
+  notes.forEach(note => {
+    const noteKey = `${note.measureNumber}:${note.beat}:${note.isGrace}`;
+    if (noteKey === key && !note.isGrace) {
+      onsets[onsets.length - 1].push(note);
+    } else {
+      onsets.push([note]);
+      key = noteKey;
+    }
+  });
+
+  return onsets;
+}
+
+/**
+ * Both hands' transition counts, scaled to the size of the built-in table
+ * so the planner's frequency thresholds keep their meaning
+ */
+function transitionWeights(counts: Record<Hand, HandCounts>): Record<string, number> {
+  const pooled = new Map<string, number>();
+  HANDS.forEach(hand => counts[hand].transitions.forEach((n, pair) => increment(pooled, pair, n)));
+
+  const builtIn = Object.values(DEFAULT_TRANSITION_WEIGHTS).reduce((sum, n) => sum + n, 0);
+  const learned = [...pooled.values()].reduce((sum, n) => sum + n, 0);
+  const scale = learned > 0 ? builtIn / learned : 0;
+
+  const weights: Record<string, number> = {};
+  for (let a = 1; a <= 5; a++) {
+    for (let b = 1; b <= 5; b++) {
+      weights[`${a}->${b}`] = Math.round((pooled.get(`${a}->${b}`) ?? 0) * scale);
+    }
+  }
+  return weights;
+}
+
+function intervalShares(counts: HandCounts, minSamples: number): Record<string, Record<string, number>> {
+  const stats: Record<string, Record<string, number>> = {};
+  const keys = [...counts.intervals.keys()].sort((a, b) => Number(a) - Number(b));
+
+  for (const key of keys) {
+    const pairs = counts.intervals.get(key)!;
+    const total = [...pairs.values()].reduce((sum, n) => sum + n, 0);
+    if (total < minSamples) continue;
+    
+    stats[key] = shares(pairs, total);
+  }
+  return stats;
+}
+
+function keyColorShares(counts: HandCounts): Record<KeyColor, Record<string, number>> {
+  const result = {} as Record<KeyColor, Record<string, number>>;
+  (['black', 'white'] as KeyColor[]).forEach(color => {
+    const fingers = counts.keyColors[color];
+    const total = [...fingers.values()].reduce((sum, n) => sum + n, 0);
+    result[color] = total > 0 ? shares(fingers, total) : {};
+  });
+  return result;
+}
+
+function shares(values: Map<string, number>, total: number): Record<string, number> {
+  const result: Record<string, number> = {};
+  [...values.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([key, n]) => {
+      result[key] = Math.round((n / total) * 1000) / 1000;
+    });
+  return result;
+}
+
+function increment(map: Map<string, number>, key: string, by = 1) {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+async function parseArgs(args: string[]): Promise<CliOptions> {
+  const options: CliOptions = {
+    inputs: [],
+    out: path.resolve(cwd, 'trained-profile.json'),
+    name: null,
+    base: null,
+    recursive: false,
+    minSamples: 5
+  };
+
+  const value = (i: number, flag: string) => {
+    if (i >= args.length || args[i].startsWith('-')) fail(`${flag} needs a value`);
+    return args[i];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    
+    switch (arg) {
+      case '-h':
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+      case '-o':
+      case '--out':
+        options.out = path.resolve(cwd, value(++i, arg));
+        break;
+      case '-n':
+      case '--name':
+        options.name = value(++i, arg);
+        break;
+      case '--base': {
+        const file = path.resolve(cwd, value(++i, arg));
+        const json = await readFile(file, 'utf8').catch(() => fail(`Cannot read ${display(file)}`));
+        try {
+          options.base = CostModel.parseProfile(json);
+        } catch (err) {
+          fail(`${display(file)}: ${err instanceof Error ? err.message : err}`);
+        }
+        break;
+      }
+      case '--min-samples': {
+        const n = Number(value(++i, arg));
+        if (!Number.isInteger(n) || n < 1) fail('--min-samples needs a whole number of at least 1');
+        options.minSamples = n;
+        break;
+      }
+      case '-R':
+      case '--recursive':
+        options.recursive = true;
+        break;
+      default:
+        if (arg.startsWith('-')) fail(`Unknown option ${arg}`);
+        options.inputs.push(path.resolve(cwd, arg));
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main();
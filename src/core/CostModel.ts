@@ -0,0 +1,1058 @@
+import type {
+  Finger, Hand, KeyColor, CostResult, CostProfile, CostRuleSettings, RuleContribution, OrnamentType
+} from '@/types';
+
+/**
+ * Cost model of the fingering planner
+ *
+ * Every cost term is a named rule with a weight and numeric parameters.
+ * A JSON profile can switch rules off, re-weight them, change their
+ * parameters and replace the finger transition table. Contributions are
+ * raw rule cost times weight; positive costs penalize, negative reward.
+ */
+
+// Validated transition frequencies from real music (27 pieces, 9186 fingerings)
+export const DEFAULT_TRANSITION_WEIGHTS: Readonly<Record<string, number>> = {
+  '1->2': 900, '2->1': 936, '2->3': 405, '3->2': 528,
+  '3->4': 420, '4->3': 409, '4->5': 590, '5->4': 561,
+  '1->3': 451, '3->1': 489, '1->4': 301, '4->1': 286,
+  '1->5': 356, '5->1': 286, '2->4': 150, '4->2': 149,
+  '2->5': 334, '5->2': 248, '3->5': 271, '5->3': 448
+};
+
+// First sonority of a hand
+export interface InitialRuleContext {
+  hand: Hand;
+  finger: Finger;
+  pitch: number;
+  expectedFinger: Finger;
+}
+
+// Any melodic step, in position or in a scale run
+export interface StepRuleContext {
+  hand: Hand;
+  prevFinger: Finger;
+  currFinger: Finger;
+  currPitch: number;
+  interval: number;
+}
+
+// Fingers a conventional scale or arpeggio fingering gives a step
+export interface KeyFingeringStep {
+  name: string;
+  kind: 'scale' | 'arpeggio';
+  from: Finger;
+  to: Finger;
+}
+
+// Melodic step in five-finger position mode
+export interface TransitionRuleContext {
+  hand: Hand;
+  prevFinger: Finger;
+  currFinger: Finger;
+  currPitch: number;
+  interval: number;
+  expectedFinger: Finger;
+  inPosition: boolean;
+  inScale: boolean;
+  naturalSpan: number;
+  handScale: number;
+  // Speed of the step: 1 at the reference tempo, more when the notes go faster
+  pace: number;
+  // Inside a recognized arpeggio of known chord
+  keyStep?: KeyFingeringStep;
+}
+
+// Melodic step inside a scale run
+export interface ScaleRuleContext {
+  hand: Hand;
+  prevFinger: Finger;
+  currFinger: Finger;
+  ascending: boolean;
+  absInterval: number;
+  naturalSpan: number;
+  handScale: number;
+  pace: number;
+  // The line stops or turns back after the current note
+  runEnd: boolean;
+  // Inside a recognized scale of known key
+  keyStep?: KeyFingeringStep;
+}
+
+// Shape of one chord, tones ordered by pitch
+export interface ChordShapeRuleContext {
+  hand: Hand;
+  pitches: number[];
+  fingers: Finger[];
+  naturalSpan: (finger1: Finger, finger2: Finger) => number;
+  handScale: number;
+}
+
+// Movement between sonorities when at least one is a chord
+export interface ChordTransitionRuleContext {
+  prevPitches: number[];
+  prevFingers: Finger[];
+  currPitches: number[];
+  currFingers: Finger[];
+  thumbShift: number;
+  pace: number;
+}
+
+// Fingers of an ornament's written figure, in playing order
+export interface OrnamentRuleContext {
+  hand: Hand;
+  type: OrnamentType;
+  pitches: number[];
+  fingers: Finger[];
+}
+
+// How the score joins two sonorities, and what the fingers do between them
+export interface ArticulationRuleContext {
+  hand: Hand;
+  articulation: 'legato' | 'detached' | 'plain';
+  // What detaches them: a staccato, or a slur ending or starting
+  detachedBy?: 'staccato' | 'phraseBreak';
+  // Fingers that play two notes in a row
+  sameFingerMoves: number;
+  // Semitones the hand moves beyond what its fingers reach
+  shift: number;
+  handScale: number;
+}
+
+// A held single note passed silently from one finger to another
+export interface SubstitutionRuleContext {
+  hand: Hand;
+  finger: Finger;
+  substitution: Finger;
+  pitch: number;
+  // Under a slur, where the note must stay down into the next one
+  legato: boolean;
+}
+
+interface StageContexts {
+  initial: InitialRuleContext;
+  step: StepRuleContext;
+  transition: TransitionRuleContext;
+  scale: ScaleRuleContext;
+  chordShape: ChordShapeRuleContext;
+  chordTransition: ChordTransitionRuleContext;
+  ornament: OrnamentRuleContext;
+  substitution: SubstitutionRuleContext;
+  articulation: ArticulationRuleContext;
+}
+
+export type CostStage = keyof StageContexts;
+
+// Tables shared by the rules
+interface CostTables {
+  transitionWeights: Record<string, number>;
+  intervalStats: NonNullable<CostProfile['intervalStats']>;
+  keyColorStats: NonNullable<CostProfile['keyColorStats']>;
+}
+
+// Learned interval statistics group everything beyond an octave
+export const MAX_STAT_INTERVAL = 12;
+
+export function intervalKey(interval: number): string {
+  const clamped = Math.max(-MAX_STAT_INTERVAL, Math.min(MAX_STAT_INTERVAL, interval));
+  return clamped > 0 ? `+${clamped}` : `${clamped}`;
+}
+
+interface CostRule<S extends CostStage = CostStage> {
+  name: string;
+  stage: S;
+  description: string;
+  params: Record<string, number>;
+  // Raw cost of the rule; reasons are pushed for the explanation
+  evaluate(ctx: StageContexts[S], params: Record<string, number>, tables: CostTables, reasons: string[]): number;
+}
+
+// A rule of any stage, still paired with that stage's context
+type AnyCostRule = { [S in CostStage]: CostRule<S> }[CostStage];
+
+interface ActiveRule<S extends CostStage = CostStage> {
+  rule: CostRule<S>;
+  weight: number;
+  params: Record<string, number>;
+}
+
+type ActiveRules = { [S in CostStage]: ActiveRule<S>[] };
+
+function noActiveRules(): ActiveRules {
+  return {
+    initial: [], step: [], transition: [], scale: [], chordShape: [],
+    chordTransition: [], ornament: [], substitution: [], articulation: []
+  };
+}
+
+// A full description of one rule and its current settings
+export interface CostRuleInfo {
+  name: string;
+  stage: CostStage;
+  description: string;
+  enabled: boolean;
+  weight: number;
+  params: Record<string, number>;
+}
+
+export const isBlackKey = (pitch: number) => [1, 3, 6, 8, 10].includes(pitch % 12);
+
+// Finger order follows pitch: RH ascending, LH descending
+export function isNaturalDirection(hand: Hand, interval: number, fingerDiff: number): boolean {
+  const direction = hand === 'RH' ? fingerDiff : -fingerDiff;
+  return (interval > 0 && direction > 0) || (interval < 0 && direction < 0);
+}
+
+// RH up / LH down: 1-2-3-1-2-3-4-5; RH down / LH up: 5-4-3-2-1-3-2-1
+function isStandardScaleStep(ctx: ScaleRuleContext): boolean {
+  if (ctx.keyStep) return followsKeyFingering(ctx.hand, ctx.ascending, ctx.prevFinger, ctx.currFinger, ctx.keyStep);
+  
+  const thumbFirst = (ctx.hand === 'RH') === ctx.ascending;
+  const steps = thumbFirst
+    ? [[1, 2], [2, 3], [3, 1], [3, 4], [4, 5]]
+    : [[5, 4], [4, 3], [3, 2], [2, 1], [1, 3], [1, 2]];
+  return steps.some(([from, to]) => from === ctx.prevFinger && to === ctx.currFinger);
+}
+
+// The table's fingers, or a longer finger instead of the thumb where the run
+// ends on the outside of the hand (the top for RH, the bottom for LH)
+function followsKeyFingering(hand: Hand, up: boolean, prevFinger: Finger, currFinger: Finger, step: KeyFingeringStep): boolean {
+  if (prevFinger === step.from && currFinger === step.to) return true;
+  
+  const outerIsCurr = (hand === 'RH') === up;
+  const [outer, inner] = outerIsCurr ? [currFinger, prevFinger] : [prevFinger, currFinger];
+  const [outerTable, innerTable] = outerIsCurr ? [step.to, step.from] : [step.from, step.to];
+  return outerTable === 1 && inner === innerTable && outer > inner;
+}
+
+const ORNAMENT_NAMES: Record<OrnamentType, string> = {
+  'trill': 'Trill',
+  'mordent': 'Mordent',
+  'inverted-mordent': 'Mordent',
+  'turn': 'Turn',
+  'inverted-turn': 'Turn'
+};
+
+// Each pitch of an ornament figure with its finger, lowest first
+function ornamentKeys(ctx: OrnamentRuleContext): { pitch: number; finger: Finger }[] {
+  const keys = new Map<number, Finger>();
+  ctx.pitches.forEach((pitch, k) => {
+    if (!keys.has(pitch)) keys.set(pitch, ctx.fingers[k]);
+  });
+  return [...keys.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([pitch, finger]) => ({ pitch, finger }));
+}
+
+function rule<S extends CostStage>(definition: CostRule<S>): CostRule<S> {
+  return definition;
+}
+
+// Adds a rule to its stage with the profile's settings, unless disabled
+function activate<S extends CostStage>(active: ActiveRules, r: CostRule<S>, settings: CostRuleSettings): void {
+  if (settings.enabled === false) return;
+  
+  active[r.stage].push({
+    rule: r,
+    weight: settings.weight ?? 1,
+    params: { ...r.params, ...settings.params }
+  });
+}
+
+const RULES: AnyCostRule[] = [
+  // First sonority
+  rule({
+    name: 'initial.handPosition',
+    stage: 'initial',
+    description: 'First note: finger that matches its place in the five-finger position',
+    params: { reward: 30, perFinger: 15 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.finger === ctx.expectedFinger) {
+        reasons.push('Matches hand position');
+        return -p.reward;
+      }
+      const diff = Math.abs(ctx.finger - ctx.expectedFinger);
+      reasons.push(`${diff} fingers from expected`);
+      return diff * p.perFinger;
+    }
+  }),
+  rule({
+    name: 'initial.blackKey',
+    stage: 'initial',
+    description: 'First note: long fingers on black keys, thumb and pinky on white',
+    params: { shortFinger: 20, longFinger: 5 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!isBlackKey(ctx.pitch)) return 0;
+      if (ctx.finger === 1 || ctx.finger === 5) {
+        reasons.push('Short finger on black key');
+        return p.shortFinger;
+      }
+      reasons.push('Long finger on black key');
+      return -p.longFinger;
+    }
+  }),
+
+  // Statistics learned from fingered editions; no effect without a trained profile
+  rule({
+    name: 'learned.intervalPair',
+    stage: 'step',
+    description: 'Finger pairs that editions use most for this interval and hand',
+    params: { reward: 30 },
+    evaluate(ctx, p, tables, reasons) {
+      const shares = tables.intervalStats[ctx.hand]?.[intervalKey(ctx.interval)];
+      const share = shares?.[`${ctx.prevFinger}->${ctx.currFinger}`];
+      if (!share) return 0;
+      if (share >= 0.5) reasons.push('Usual fingering for this interval');
+      return -share * p.reward;
+    }
+  }),
+  rule({
+    name: 'learned.keyColor',
+    stage: 'step',
+    description: 'Fingers that editions use most on black or white keys for this hand',
+    params: { reward: 10 },
+    evaluate(ctx, p, tables) {
+      const color: KeyColor = isBlackKey(ctx.currPitch) ? 'black' : 'white';
+      const share = tables.keyColorStats[ctx.hand]?.[color]?.[ctx.currFinger];
+      return share ? -share * p.reward : 0;
+    }
+  }),
+
+  // Melodic steps in position
+  rule({
+    name: 'position.expectedFinger',
+    stage: 'transition',
+    description: 'Inside a hand position, each pitch has its own finger',
+    params: { reward: 40, perFinger: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!ctx.inPosition) return 0;
+      if (ctx.currFinger === ctx.expectedFinger) {
+        reasons.push('Correct finger for position');
+        return -p.reward;
+      }
+      reasons.push('Wrong finger for position');
+      return Math.abs(ctx.currFinger - ctx.expectedFinger) * p.perFinger;
+    }
+  }),
+  rule({
+    name: 'direction.natural',
+    stage: 'transition',
+    description: 'Fingers follow the melodic direction',
+    params: { reward: 15 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!isNaturalDirection(ctx.hand, ctx.interval, ctx.currFinger - ctx.prevFinger)) return 0;
+      reasons.push(`Natural ${ctx.hand} ${ctx.interval > 0 ? 'ascending' : 'descending'}`);
+      return -p.reward;
+    }
+  }),
+  rule({
+    name: 'direction.crossing',
+    stage: 'transition',
+    description: 'Fingers crossing against the melody without the thumb',
+    params: { penalty: 50 },
+    evaluate(ctx, p, _t, reasons) {
+      const fingerDiff = ctx.currFinger - ctx.prevFinger;
+      if (ctx.interval === 0 || fingerDiff === 0) return 0;
+      if (isNaturalDirection(ctx.hand, ctx.interval, fingerDiff)) return 0;
+      if (ctx.prevFinger === 1 || ctx.currFinger === 1) return 0;
+      reasons.push('Unnatural finger crossing');
+      return p.penalty * ctx.pace;
+    }
+  }),
+  rule({
+    name: 'span.overStretch',
+    stage: 'transition',
+    description: 'Interval wider than the natural span of the finger pair',
+    params: { limit: 4, perSemitone: 12, softLimit: 2, softPerSemitone: 6 },
+    evaluate(ctx, p, _t, reasons) {
+      const overStretch = Math.abs(ctx.interval) - ctx.naturalSpan;
+      if (overStretch > p.limit * ctx.handScale) {
+        reasons.push('Over-stretch');
+        return overStretch * p.perSemitone * ctx.pace;
+      }
+      if (overStretch > p.softLimit * ctx.handScale) {
+        return overStretch * p.softPerSemitone * ctx.pace;
+      }
+      return 0;
+    }
+  }),
+  rule({
+    name: 'sameFinger.leap',
+    stage: 'transition',
+    description: 'Same finger moving to another pitch',
+    params: { perSemitone: 8 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.currFinger !== ctx.prevFinger || ctx.interval === 0) return 0;
+      reasons.push('Same finger leap');
+      return Math.abs(ctx.interval) * p.perSemitone * ctx.pace;
+    }
+  }),
+  rule({
+    name: 'repeatedNote',
+    stage: 'transition',
+    description: 'Change fingers on a repeated note',
+    params: { sameFinger: 30, fingerChange: 10 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.interval !== 0) return 0;
+      if (ctx.currFinger === ctx.prevFinger) {
+        reasons.push('Same finger on repeated note');
+        return p.sameFinger * ctx.pace;
+      }
+      reasons.push('Good finger change on repeat');
+      return -p.fingerChange;
+    }
+  }),
+  rule({
+    name: 'transition.frequency',
+    stage: 'transition',
+    description: 'Finger pairs that are common in fingered editions',
+    params: { common: 500, commonBonus: 10, frequent: 300, frequentBonus: 6, occasional: 100, occasionalBonus: 3 },
+    evaluate(ctx, p, tables) {
+      const weight = tables.transitionWeights[`${ctx.prevFinger}->${ctx.currFinger}`];
+      if (!weight) return 0;
+      if (weight > p.common) return -p.commonBonus;
+      if (weight > p.frequent) return -p.frequentBonus;
+      if (weight > p.occasional) return -p.occasionalBonus;
+      return 0;
+    }
+  }),
+  rule({
+    name: 'blackKey',
+    stage: 'transition',
+    description: 'Long fingers on black keys, thumb and pinky on white',
+    params: { shortFinger: 25, longFinger: 5 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!isBlackKey(ctx.currPitch)) return 0;
+      if (ctx.currFinger === 1 || ctx.currFinger === 5) {
+        reasons.push('Short finger on black key');
+        return p.shortFinger;
+      }
+      return -p.longFinger;
+    }
+  }),
+  rule({
+    name: 'scale.thumbCrossing',
+    stage: 'transition',
+    description: 'Thumb under after 3 and 3 over the thumb in scale passages',
+    params: { reward: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!ctx.inScale) return 0;
+      const thumbUnder = (ctx.hand === 'RH') === (ctx.interval > 0);
+      if (thumbUnder && ctx.prevFinger === 3 && ctx.currFinger === 1) {
+        reasons.push('Good thumb under (3->1)');
+        return -p.reward;
+      }
+      if (!thumbUnder && ctx.prevFinger === 1 && ctx.currFinger === 3) {
+        reasons.push('Good finger over (1->3)');
+        return -p.reward;
+      }
+      return 0;
+    }
+  }),
+
+  rule({
+    name: 'arpeggio.standardFingering',
+    stage: 'transition',
+    description: 'Conventional fingering of the arpeggio\'s chord and inversion',
+    params: { reward: 30 },
+    evaluate(ctx, p, _t, reasons) {
+      const step = ctx.keyStep;
+      if (!step || !followsKeyFingering(ctx.hand, ctx.interval > 0, ctx.prevFinger, ctx.currFinger, step)) return 0;
+      reasons.push(`Standard ${step.name} fingering`);
+      return -p.reward;
+    }
+  }),
+
+  // Melodic steps in scale runs
+  rule({
+    name: 'scale.standardFingering',
+    stage: 'scale',
+    description: 'Conventional fingering of the scale\'s key, or 1-2-3-1-2-3-4-5 when the key is unknown',
+    params: { reward: 30 },
+    evaluate(ctx, p, _t, reasons) {
+      if (!isStandardScaleStep(ctx)) return 0;
+      reasons.push(ctx.keyStep ? `Standard ${ctx.keyStep.name} fingering` : 'Standard scale fingering');
+      return -p.reward;
+    }
+  }),
+  rule({
+    name: 'scale.crossing',
+    stage: 'scale',
+    description: 'Other thumb crossings in scales of unknown key; any other step is non-standard',
+    params: { thumbUnder3: 20, thumbUnder4: 15, fingerOver3: 20, fingerOver4: 10, nonStandard: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      if (isStandardScaleStep(ctx)) return 0;
+      if (ctx.keyStep) {
+        reasons.push(`Not the ${ctx.keyStep.name} fingering`);
+        return p.nonStandard;
+      }
+      const { prevFinger, currFinger } = ctx;
+      if (prevFinger === 3 && currFinger === 1) {
+        reasons.push('Thumb under (3->1)');
+        return -p.thumbUnder3;
+      }
+      if (prevFinger === 4 && currFinger === 1) {
+        reasons.push('Thumb under (4->1)');
+        return -p.thumbUnder4;
+      }
+      if (prevFinger === 1 && currFinger === 3) {
+        reasons.push('Finger over (1->3)');
+        return -p.fingerOver3;
+      }
+      if (prevFinger === 1 && currFinger === 4) {
+        reasons.push('Finger over (1->4)');
+        return -p.fingerOver4;
+      }
+      reasons.push('Non-standard scale transition');
+      return p.nonStandard;
+    }
+  }),
+  rule({
+    name: 'scale.runEnd',
+    stage: 'scale',
+    description: 'Thumb crossing onto the last note of a run going up in RH or down in LH, where 5 needs none',
+    params: { penalty: 15 },
+    evaluate(ctx, p, _t, reasons) {
+      const outward = (ctx.hand === 'RH') === ctx.ascending;
+      if (!outward || !ctx.runEnd || ctx.currFinger !== 1 || ctx.prevFinger === 1) return 0;
+      reasons.push('Thumb crossing on the last note of the run');
+      return p.penalty;
+    }
+  }),
+  rule({
+    name: 'scale.sameFinger',
+    stage: 'scale',
+    description: 'Same finger twice in a row in a scale',
+    params: { penalty: 40 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.currFinger !== ctx.prevFinger) return 0;
+      reasons.push('Same finger in scale');
+      return p.penalty * ctx.pace;
+    }
+  }),
+  rule({
+    name: 'scale.overStretch',
+    stage: 'scale',
+    description: 'Scale step wider than the natural span of the finger pair',
+    params: { limit: 2, perSemitone: 10 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.absInterval <= ctx.naturalSpan + p.limit * ctx.handScale) return 0;
+      reasons.push('Over-stretch in scale');
+      return (ctx.absInterval - ctx.naturalSpan) * p.perSemitone * ctx.pace;
+    }
+  }),
+
+  // Chord shapes
+  rule({
+    name: 'chord.intervalFit',
+    stage: 'chordShape',
+    description: 'Fingers whose natural spacing fits each chord interval',
+    params: { perSemitone: 1 },
+    evaluate(ctx, p) {
+      let cost = 0;
+      for (let k = 1; k < ctx.pitches.length; k++) {
+        const interval = ctx.pitches[k] - ctx.pitches[k - 1];
+        cost += Math.abs(interval - ctx.naturalSpan(ctx.fingers[k - 1], ctx.fingers[k])) * p.perSemitone;
+      }
+      return cost;
+    }
+  }),
+  rule({
+    name: 'chord.stretch',
+    stage: 'chordShape',
+    description: 'Adjacent chord tones wider than the finger pair opens; the thumb opens wider',
+    params: { thumbAllowance: 4, allowance: 2, perSemitone: 12 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      for (let k = 1; k < ctx.pitches.length; k++) {
+        const [f1, f2] = [ctx.fingers[k - 1], ctx.fingers[k]];
+        const allowance = (f1 === 1 || f2 === 1 ? p.thumbAllowance : p.allowance) * ctx.handScale;
+        const excess = ctx.pitches[k] - ctx.pitches[k - 1] - ctx.naturalSpan(f1, f2) - allowance;
+        if (excess > 0) {
+          cost += excess * p.perSemitone;
+          reasons.push(`Chord stretch ${f1}-${f2}`);
+        }
+      }
+      return cost;
+    }
+  }),
+  rule({
+    name: 'chord.cramped',
+    stage: 'chordShape',
+    description: 'Adjacent chord tones much closer than the finger pair sits',
+    params: { allowance: 2, perSemitone: 4 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      for (let k = 1; k < ctx.pitches.length; k++) {
+        const [f1, f2] = [ctx.fingers[k - 1], ctx.fingers[k]];
+        const cramped = ctx.naturalSpan(f1, f2) - (ctx.pitches[k] - ctx.pitches[k - 1]);
+        if (cramped > p.allowance) {
+          cost += (cramped - p.allowance) * p.perSemitone;
+          reasons.push(`Cramped chord fingers ${f1}-${f2}`);
+        }
+      }
+      return cost;
+    }
+  }),
+  rule({
+    name: 'chord.outerSpan',
+    stage: 'chordShape',
+    description: 'Outer chord span against the natural span of the outer fingers',
+    params: { limit: 6, penalty: 300, softLimit: 4, perSemitone: 10 },
+    evaluate(ctx, p, _t, reasons) {
+      const last = ctx.pitches.length - 1;
+      const outerStretch = ctx.pitches[last] - ctx.pitches[0] - ctx.naturalSpan(ctx.fingers[0], ctx.fingers[last]);
+      if (outerStretch > p.limit * ctx.handScale) {
+        reasons.push('Chord exceeds hand span');
+        return p.penalty;
+      }
+      if (outerStretch > p.softLimit * ctx.handScale) {
+        reasons.push('Wide chord');
+        return outerStretch * p.perSemitone;
+      }
+      return 0;
+    }
+  }),
+  rule({
+    name: 'chord.fullHandShape',
+    stage: 'chordShape',
+    description: 'Triads and sevenths spanning a fifth or more under 1 and 5',
+    params: { minSpan: 7, reward: 8 },
+    evaluate(ctx, p, _t, reasons) {
+      const last = ctx.pitches.length - 1;
+      const outer = [ctx.fingers[0], ctx.fingers[last]];
+      if (ctx.pitches.length < 3 || ctx.pitches[last] - ctx.pitches[0] < p.minSpan) return 0;
+      if (!outer.includes(1) || !outer.includes(5)) return 0;
+      reasons.push('Full hand chord shape');
+      return -p.reward;
+    }
+  }),
+  rule({
+    name: 'chord.triadShape',
+    stage: 'chordShape',
+    description: 'Three-note chords under 1 and 5 take 3 between, or 2 where a fourth lies next to 5',
+    params: { fourth: 5, penalty: 4 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.pitches.length !== 3) return 0;
+      const [low, middle, high] = ctx.fingers;
+      if (!((low === 1 && high === 5) || (low === 5 && high === 1))) return 0;
+      
+      // RH 1-3-5 / LH 5-3-1 over stacked thirds; 1-2-5 / 5-2-1 when the fourth is on the pinky side
+      const pinkySide = low === 5 ? ctx.pitches[1] - ctx.pitches[0] : ctx.pitches[2] - ctx.pitches[1];
+      const expected = pinkySide >= p.fourth ? 2 : 3;
+      if (middle === expected) return 0;
+      reasons.push(`Triad usually fingered with ${expected} between`);
+      return p.penalty;
+    }
+  }),
+  rule({
+    name: 'chord.blackKey',
+    stage: 'chordShape',
+    description: 'Thumb or pinky on a black chord tone next to a white one',
+    params: { shortFinger: 10 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      ctx.pitches.forEach((pitch, k) => {
+        if (!isBlackKey(pitch) || (ctx.fingers[k] !== 1 && ctx.fingers[k] !== 5)) return;
+        const neighbours = [ctx.pitches[k - 1], ctx.pitches[k + 1]].filter(n => n !== undefined);
+        if (neighbours.some(n => !isBlackKey(n))) {
+          cost += p.shortFinger;
+          reasons.push('Short finger on black key');
+        }
+      });
+      return cost;
+    }
+  }),
+
+  // Chord movement
+  rule({
+    name: 'chord.handShift',
+    stage: 'chordTransition',
+    description: 'Distance the thumb moves between hand shapes',
+    params: { perSemitone: 1, noticeable: 4 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.thumbShift > p.noticeable) reasons.push('Hand shift between chords');
+      return ctx.thumbShift * p.perSemitone * ctx.pace;
+    }
+  }),
+  rule({
+    name: 'chord.commonTone',
+    stage: 'chordTransition',
+    description: 'Common tones keep their finger',
+    params: { kept: 8, changed: 6 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      ctx.currPitches.forEach((pitch, k) => {
+        const prevK = ctx.prevPitches.indexOf(pitch);
+        if (prevK === -1) return;
+        if (ctx.prevFingers[prevK] === ctx.currFingers[k]) {
+          cost -= p.kept;
+          reasons.push('Common tone kept');
+        } else {
+          cost += p.changed;
+          reasons.push('Finger change on common tone');
+        }
+      });
+      return cost;
+    }
+  }),
+  rule({
+    name: 'chord.sameFingerStep',
+    stage: 'chordTransition',
+    description: 'Same finger stepping from a single note to a neighbouring chord tone',
+    params: { penalty: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.prevPitches.length !== 1) return 0;
+      let cost = 0;
+      ctx.currPitches.forEach((pitch, k) => {
+        const prevK = ctx.prevFingers.indexOf(ctx.currFingers[k]);
+        if (prevK === -1) return;
+        const interval = Math.abs(pitch - ctx.prevPitches[prevK]);
+        if (interval > 0 && interval <= 2) {
+          cost += p.penalty;
+          reasons.push('Same finger on step into chord');
+        }
+      });
+      return cost * ctx.pace;
+    }
+  }),
+
+  // Ornaments
+  rule({
+    name: 'ornament.fingerPair',
+    stage: 'ornament',
+    description: 'Ornament finger pairs: 2-3 and 1-3 first, then 3-4',
+    params: { pair23: 0, pair13: 5, pair34: 10, pair12: 15, pair24: 20, other: 40 },
+    evaluate(ctx, p, _t, reasons) {
+      const keys = ornamentKeys(ctx);
+      const fingers = keys.map(k => k.finger);
+      reasons.push(`${ORNAMENT_NAMES[ctx.type]} ${(ctx.hand === 'RH' ? fingers : [...fingers].reverse()).join('-')}`);
+      
+      let cost = 0;
+      for (let k = 1; k < keys.length; k++) {
+        const [low, high] = [keys[k - 1].finger, keys[k].finger].sort((a, b) => a - b);
+        cost += p[`pair${low}${high}`] ?? p.other;
+      }
+      return cost;
+    }
+  }),
+  rule({
+    name: 'ornament.fingerOrder',
+    stage: 'ornament',
+    description: 'Ornament fingers follow pitch order; a crossing cannot be repeated quickly',
+    params: { penalty: 150 },
+    evaluate(ctx, p, _t, reasons) {
+      const keys = ornamentKeys(ctx);
+      for (let k = 1; k < keys.length; k++) {
+        if (!isNaturalDirection(ctx.hand, 1, keys[k].finger - keys[k - 1].finger)) {
+          reasons.push('Crossing inside ornament');
+          return p.penalty;
+        }
+      }
+      return 0;
+    }
+  }),
+  rule({
+    name: 'ornament.blackKey',
+    stage: 'ornament',
+    description: 'No thumb on a black key in an ornament; the pinky is weak there too',
+    params: { thumb: 80, pinky: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      for (const { pitch, finger } of ornamentKeys(ctx)) {
+        if (!isBlackKey(pitch)) continue;
+        if (finger === 1) {
+          cost += p.thumb;
+          reasons.push('Thumb on black key in ornament');
+        } else if (finger === 5) {
+          cost += p.pinky;
+        }
+      }
+      return cost;
+    }
+  }),
+
+  // Slurs and staccato
+  rule({
+    name: 'legato.sameFinger',
+    stage: 'articulation',
+    description: 'Under a slur, one finger playing two notes in a row breaks the line',
+    params: { penalty: 60 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.articulation !== 'legato' || ctx.sameFingerMoves === 0) return 0;
+      reasons.push('Same finger under slur');
+      return ctx.sameFingerMoves * p.penalty;
+    }
+  }),
+  rule({
+    name: 'legato.handLift',
+    stage: 'articulation',
+    description: 'Under a slur, a move the fingers cannot reach lifts the hand',
+    params: { reach: 2, perSemitone: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.articulation !== 'legato') return 0;
+      const lift = ctx.shift - p.reach * ctx.handScale;
+      if (lift <= 0) return 0;
+      reasons.push('Hand lift under slur');
+      return lift * p.perSemitone;
+    }
+  }),
+  rule({
+    name: 'detached.shift',
+    stage: 'articulation',
+    description: 'After a staccato or at a phrase break the hand can move at little cost',
+    params: { reach: 2, perSemitone: 6, max: 60 },
+    evaluate(ctx, p, _t, reasons) {
+      if (ctx.articulation !== 'detached') return 0;
+      const shift = ctx.shift - p.reach * ctx.handScale;
+      if (shift <= 0) return 0;
+      reasons.push(ctx.detachedBy === 'staccato' ? 'Shift on staccato' : 'Shift at phrase break');
+      return -Math.min(shift * p.perSemitone, p.max);
+    }
+  }),
+
+  // Finger substitution
+  rule({
+    name: 'substitution.move',
+    stage: 'substitution',
+    description: 'Changing finger on a held note; cheaper under a slur, where it keeps the line legato',
+    params: { cost: 20, legatoDiscount: 10 },
+    evaluate(ctx, p, _t, reasons) {
+      reasons.push(`Substitution ${ctx.finger}-${ctx.substitution}`);
+      return ctx.legato ? p.cost - p.legatoDiscount : p.cost;
+    }
+  }),
+  rule({
+    name: 'substitution.pair',
+    stage: 'substitution',
+    description: 'Neighbouring fingers and the thumb take over a key most easily',
+    params: { distant: 15, thumbOnBlack: 20 },
+    evaluate(ctx, p, _t, reasons) {
+      let cost = 0;
+      if (Math.abs(ctx.finger - ctx.substitution) > 1 && ctx.finger !== 1 && ctx.substitution !== 1) {
+        cost += p.distant;
+      }
+      if (ctx.substitution === 1 && isBlackKey(ctx.pitch)) {
+        cost += p.thumbOnBlack;
+        reasons.push('Thumb takes over a black key');
+      }
+      return cost;
+    }
+  })
+];
+
+export const DEFAULT_COST_PROFILE: CostProfile = { name: 'Default' };
+
+export class CostModel {
+  private profile: CostProfile = DEFAULT_COST_PROFILE;
+  private active = noActiveRules();
+  private tables: CostTables = {
+    transitionWeights: { ...DEFAULT_TRANSITION_WEIGHTS },
+    intervalStats: {},
+    keyColorStats: {}
+  };
+  private recording: RuleContribution[] | null = null;
+
+  constructor(profile: CostProfile = DEFAULT_COST_PROFILE) {
+    this.loadProfile(profile);
+  }
+
+  /**
+   * Parse and validate a profile from JSON text
+   */
+  static parseProfile(json: string): CostProfile {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (err) {
+      throw new Error(`Invalid cost profile JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    
+    CostModel.validateProfile(data);
+    return data;
+  }
+
+  /**
+   * Replace the current settings; rules the profile leaves out keep their defaults
+   */
+  loadProfile(profile: CostProfile) {
+    CostModel.validateProfile(profile);
+    
+    const active = noActiveRules();
+    for (const r of RULES) {
+      activate(active, r, profile.rules?.[r.name] ?? {});
+    }
+    
+    this.active = active;
+    this.tables = {
+      transitionWeights: { ...DEFAULT_TRANSITION_WEIGHTS, ...profile.transitionWeights },
+      intervalStats: profile.intervalStats ?? {},
+      keyColorStats: profile.keyColorStats ?? {}
+    };
+    this.profile = profile;
+  }
+
+  getProfile(): CostProfile {
+    return this.profile;
+  }
+
+  /**
+   * Every rule with the settings in effect
+   */
+  describeRules(): CostRuleInfo[] {
+    return RULES.map(r => {
+      const settings = this.profile.rules?.[r.name] ?? {};
+      return {
+        name: r.name,
+        stage: r.stage,
+        description: r.description,
+        enabled: settings.enabled !== false,
+        weight: settings.weight ?? 1,
+        params: { ...r.params, ...settings.params }
+      };
+    });
+  }
+
+  /**
+   * The current settings written out in full, as a starting point for a custom profile
+   */
+  toProfile(): CostProfile {
+    const rules: Record<string, CostRuleSettings> = {};
+    this.describeRules().forEach(({ name, enabled, weight, params }) => {
+      rules[name] = { enabled, weight, params };
+    });
+    
+    return {
+      ...this.profile,
+      rules,
+      transitionWeights: { ...this.tables.transitionWeights }
+    };
+  }
+
+  /**
+   * Sum the weighted rules of one stage
+   */
+  evaluate<S extends CostStage>(stage: S, ctx: StageContexts[S]): CostResult {
+    const reasons: string[] = [];
+    let cost = 0;
+    
+    for (const { rule: r, weight, params } of this.active[stage]) {
+      const raw = r.evaluate(ctx, params, this.tables, reasons);
+      if (raw === 0) continue;
+      
+      const contribution = raw * weight;
+      cost += contribution;
+      this.recording?.push({ rule: r.name, cost: contribution });
+    }
+    
+    return { cost, reasons };
+  }
+
+  /**
+   * Add a contribution that is not a rule (such as the difficulty scaling)
+   * to the current recording
+   */
+  note(rule: string, cost: number) {
+    if (cost !== 0) this.recording?.push({ rule, cost });
+  }
+
+  /**
+   * Run a cost computation outside the current recording, for trying out
+   * candidates whose costs do not count towards the result
+   */
+  unrecorded<T>(run: () => T): T {
+    const recording = this.recording;
+    this.recording = null;
+    try {
+      return run();
+    } finally {
+      this.recording = recording;
+    }
+  }
+
+  /**
+   * Run a cost computation and collect what every rule contributed to it
+   */
+  record<T>(run: () => T): { result: T; contributions: RuleContribution[] } {
+    const contributions: RuleContribution[] = [];
+    this.recording = contributions;
+    try {
+      return { result: run(), contributions };
+    } finally {
+      this.recording = null;
+    }
+  }
+
+  private static validateProfile(data: unknown): asserts data is CostProfile {
+    if (!isRecord(data)) throw new Error('Cost profile must be a JSON object');
+    if (typeof data.name !== 'string' || !data.name) throw new Error('Cost profile needs a "name"');
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      throw new Error('Cost profile "description" must be a string');
+    }
+    
+    if (data.rules !== undefined) {
+      if (!isRecord(data.rules)) throw new Error('Cost profile "rules" must be an object');
+      
+      for (const [name, settings] of Object.entries(data.rules)) {
+        const known = RULES.find(r => r.name === name);
+        if (!known) throw new Error(`Unknown cost rule "${name}"`);
+        if (!isRecord(settings)) throw new Error(`Settings of rule "${name}" must be an object`);
+        
+        if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+          throw new Error(`"enabled" of rule "${name}" must be true or false`);
+        }
+        if (settings.weight !== undefined && !isFiniteNumber(settings.weight)) {
+          throw new Error(`"weight" of rule "${name}" must be a number`);
+        }
+        if (settings.params !== undefined) {
+          if (!isRecord(settings.params)) throw new Error(`"params" of rule "${name}" must be an object`);
+          for (const [param, value] of Object.entries(settings.params)) {
+            if (!(param in known.params)) throw new Error(`Rule "${name}" has no parameter "${param}"`);
+            if (!isFiniteNumber(value)) throw new Error(`Parameter "${param}" of rule "${name}" must be a number`);
+          }
+        }
+      }
+    }
+    
+    if (data.transitionWeights !== undefined) {
+      if (!isRecord(data.transitionWeights)) throw new Error('Cost profile "transitionWeights" must be an object');
+      for (const [pair, value] of Object.entries(data.transitionWeights)) {
+        if (!/^[1-5]->[1-5]$/.test(pair)) throw new Error(`Transition "${pair}" must look like "1->2"`);
+        if (!isFiniteNumber(value)) throw new Error(`Transition weight "${pair}" must be a number`);
+      }
+    }
+
+    CostModel.validateStats(data.intervalStats, 'intervalStats', /^[+-]?\d+$/, /^[1-5]->[1-5]$/);
+    CostModel.validateStats(data.keyColorStats, 'keyColorStats', /^(black|white)$/, /^[1-5]$/);
+  }
+
+  // Per-hand tables of shares: { RH: { group: { key: share } } }
+  private static validateStats(data: unknown, field: string, groupPattern: RegExp, keyPattern: RegExp) {
+    if (data === undefined) return;
+    if (!isRecord(data)) throw new Error(`Cost profile "${field}" must be an object`);
+
+    for (const [hand, groups] of Object.entries(data)) {
+      if (hand !== 'RH' && hand !== 'LH') throw new Error(`"${field}" has unknown hand "${hand}"`);
+      if (!isRecord(groups)) throw new Error(`"${field}.${hand}" must be an object`);
+
+      for (const [group, shares] of Object.entries(groups)) {
+        if (!groupPattern.test(group) || !isRecord(shares)) {
+          throw new Error(`"${field}.${hand}" has an invalid entry "${group}"`);
+        }
+        for (const [key, share] of Object.entries(shares)) {
+          if (!keyPattern.test(key) || !isFiniteNumber(share) || share < 0 || share > 1) {
+            throw new Error(`"${field}.${hand}.${group}.${key}" must be a share between 0 and 1`);
+          }
+        }
+      }
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,206 @@
+import type {
+  Note, Hand, StepCost, RuleContribution, ScoreTiming,
+  DifficultyReport, MeasureDifficulty, HandDifficulty, DifficultySpot
+} from '@/types';
+import { TempoMap } from './TempoMap';
+
+// Rough syllabus levels, by DifficultyReport.level
+export const DIFFICULTY_GRADES = [
+  'Initial', 'Grade 1', 'Grade 2', 'Grade 3', 'Grade 4',
+  'Grade 5', 'Grade 6', 'Grade 7', 'Grade 8', 'Diploma'
+];
+
+const MAX_LEVEL = DIFFICULTY_GRADES.length - 1;
+const HANDS: Hand[] = ['RH', 'LH'];
+
+// Rules about how usual a fingering is rather than how hard it is to play
+const PREFERENCE_RULES = new Set([
+  'position.expectedFinger',
+  'transition.frequency',
+  'scale.standardFingering',
+  'learned.intervalPair',
+  'learned.keyColor',
+  'difficulty'
+]);
+
+// What one hand plays in one measure, collected from its steps
+interface HandTally {
+  strain: number;
+  strikes: number;
+  rules: Map<string, number>;
+}
+
+/**
+ * Difficulty analysis
+ *
+ * Grades a fingered piece from the planner's step costs. Only penalties
+ * count as strain; bonuses for good patterns do not make anything easier to
+ * play. A measure's level blends how fast the hand strikes with how much
+ * strain each stroke carries, and a hand's level is the mean of its hardest
+ * measures, so a few awkward corners do not grade a whole piece.
+ */
+export class DifficultyAnalyzer {
+  // Speed that counts as level 0, and the levels added each time it doubles
+  private readonly baseNotesPerSecond = 1.5;
+  private readonly levelsPerDoubling = 2.5;
+  // Strain per stroke worth one level
+  private readonly strainPerLevel = 4;
+  private readonly speedShare = 0.6;
+  // Share of a hand's measures its level is taken from
+  private readonly peakShare = 0.1;
+  private readonly spotCount = 10;
+  private readonly rulesShown = 3;
+
+  analyze(notes: Note[], steps: StepCost[], timing?: ScoreTiming): DifficultyReport {
+    const tempoMap = new TempoMap(timing?.measures, timing?.tempos);
+    const numbers = timing?.measures.length
+      ? timing.measures.map(m => m.number)
+      : [...new Set(notes.map(n => n.measureNumber))].sort((a, b) => a - b);
+    
+    const tallies = new Map<string, HandTally>();
+    const tallyOf = (hand: Hand, measureNumber: number) => {
+      const key = `${hand}:${measureNumber}`;
+      if (!tallies.has(key)) tallies.set(key, { strain: 0, strikes: 0, rules: new Map() });
+      return tallies.get(key)!;
+    };
+    
+    const strains = steps.map(step => {
+      const tally = tallyOf(step.hand, step.measureNumber);
+      const penalties = this.penalties(step.contributions);
+      const strain = penalties.reduce((sum, p) => sum + p.cost, 0);
+      
+      tally.strain += strain;
+      penalties.forEach(({ rule, cost }) => tally.rules.set(rule, (tally.rules.get(rule) ?? 0) + cost));
+      // Tied continuations are held, not struck
+      if (!step.indices.every(i => notes[i].tieStop)) tally.strikes++;
+      
+      return { step, strain, penalties };
+    });
+    
+    const measures: MeasureDifficulty[] = numbers.map(measureNumber => {
+      const seconds = tempoMap.measureSeconds(measureNumber);
+      const hands = {} as Record<Hand, HandDifficulty>;
+      HANDS.forEach(hand => {
+        hands[hand] = this.measureDifficulty(tallies.get(`${hand}:${measureNumber}`), seconds);
+      });
+      return { measureNumber, hands };
+    });
+    
+    const hands = {} as Record<Hand, number>;
+    HANDS.forEach(hand => {
+      const played = measures.filter(m => m.hands[hand].notesPerSecond > 0);
+      hands[hand] = this.peakLevel(played.map(m => m.hands[hand].level));
+    });
+    
+    const level = Math.max(hands.RH, hands.LH);
+    
+    return {
+      level,
+      grade: DIFFICULTY_GRADES[Math.round(level)],
+      hands,
+      measures,
+      hardestSpots: this.hardestSpots(strains)
+    };
+  }
+
+  /**
+   * One row per measure, both hands side by side
+   */
+  toCSV(report: DifficultyReport): string {
+    const header = ['measure'];
+    HANDS.forEach(hand => {
+      const h = hand.toLowerCase();
+      header.push(`${h}_level`, `${h}_strain`, `${h}_notes_per_second`, `${h}_rules`);
+    });
+    
+    const rows = report.measures.map(({ measureNumber, hands }) => {
+      const row: (string | number)[] = [measureNumber];
+      HANDS.forEach(hand => {
+        const { level, strain, notesPerSecond, rules } = hands[hand];
+        row.push(level, strain, notesPerSecond, rules.map(r => r.rule).join('; '));
+      });
+      return row.map(cell => this.csvCell(cell)).join(',');
+    });
+    
+    return [header.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private measureDifficulty(tally: HandTally | undefined, seconds: number): HandDifficulty {
+    if (!tally || tally.strikes === 0 || seconds <= 0) {
+      return { level: 0, strain: round(tally?.strain ?? 0), notesPerSecond: 0, rules: this.topRules(tally?.rules) };
+    }
+    
+    const notesPerSecond = tally.strikes / seconds;
+    const speed = Math.log2(notesPerSecond / this.baseNotesPerSecond) * this.levelsPerDoubling;
+    const strain = tally.strain / tally.strikes / this.strainPerLevel;
+    const level = this.speedShare * clampLevel(speed) + (1 - this.speedShare) * clampLevel(strain);
+    
+    return {
+      level: round(level),
+      strain: round(tally.strain),
+      notesPerSecond: round(notesPerSecond),
+      rules: this.topRules(tally.rules)
+    };
+  }
+
+  // Mean of the hardest measures
+  private peakLevel(levels: number[]): number {
+    if (levels.length === 0) return 0;
+    
+    const count = Math.max(1, Math.round(levels.length * this.peakShare));
+    const peak = [...levels].sort((a, b) => b - a).slice(0, count);
+    return round(peak.reduce((sum, l) => sum + l, 0) / count);
+  }
+
+  // The worst step of each hand's measure, worst first
+  private hardestSpots(strains: { step: StepCost; strain: number; penalties: RuleContribution[] }[]): DifficultySpot[] {
+    const seen = new Set<string>();
+    const spots: DifficultySpot[] = [];
+    
+    for (const { step, strain, penalties } of [...strains].sort((a, b) => b.strain - a.strain)) {
+      if (spots.length === this.spotCount || strain <= 0) break;
+      
+      const key = `${step.hand}:${step.measureNumber}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      
+      spots.push({
+        hand: step.hand,
+        measureNumber: step.measureNumber,
+        beat: step.beat,
+        noteIndices: step.indices,
+        strain: round(strain),
+        rules: this.topRules(new Map(penalties.map(p => [p.rule, p.cost]))),
+        reasons: step.reasons
+      });
+    }
+    
+    return spots;
+  }
+
+  // Penalties of the playing rules, by rule
+  private penalties(contributions: RuleContribution[]): RuleContribution[] {
+    const byRule = new Map<string, number>();
+    contributions.forEach(({ rule, cost }) => {
+      if (cost > 0 && !PREFERENCE_RULES.has(rule)) byRule.set(rule, (byRule.get(rule) ?? 0) + cost);
+    });
+    return [...byRule].map(([rule, cost]) => ({ rule, cost }));
+  }
+
+  private topRules(rules: Map<string, number> = new Map()): RuleContribution[] {
+    return [...rules]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.rulesShown)
+      .map(([rule, cost]) => ({ rule, cost: round(cost) }));
+  }
+
+  private csvCell(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+const clampLevel = (level: number) => Math.min(Math.max(level, 0), MAX_LEVEL);
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const difficultyAnalyzer = new DifficultyAnalyzer();
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { Hand, ParsedScore } from '@/types';
+import { musicXMLParser } from './MusicXMLParser';
+import { patternRecognizer } from './PatternRecognizer';
+import { FingeringPlanner } from './FingeringPlanner';
+
+// Sharps for keys with sharps, flats otherwise
+const SHARP_SPELLING: [string, number][] = [
+  ['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0], ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0]
+];
+const FLAT_SPELLING: [string, number][] = [
+  ['C', 0], ['D', -1], ['D', 0], ['E', -1], ['E', 0], ['F', 0], ['G', -1], ['G', 0], ['A', -1], ['A', 0], ['B', -1], ['B', 0]
+];
+
+/**
+ * One hand's part as quarter-note sonorities, four to a measure; each
+ * sonority is a MIDI pitch or a chord of them
+ */
+function handPart(hand: Hand, fifths: number, sonorities: (number | number[])[]): ParsedScore {
+  const spelling = fifths < 0 ? FLAT_SPELLING : SHARP_SPELLING;
+  const clef = hand === 'RH' ? '<sign>G</sign><line>2</line>' : '<sign>F</sign><line>4</line>';
+
+  const notes = sonorities.map(sonority => [sonority].flat().map((pitch, k) => {
+    const [step, alter] = spelling[pitch % 12];
+    const octave = Math.floor((pitch - alter) / 12) - 1;
+    return `<note>${k > 0 ? '<chord/>' : ''}<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}` +
+      `<octave>${octave}</octave></pitch><duration>1</duration><voice>1</voice><type>quarter</type></note>`;
+  }).join(''));
+
+  let measures = '';
+  for (let m = 0; m * 4 < notes.length; m++) {
+    const attributes = m === 0
+      ? `<attributes><divisions>1</divisions><key><fifths>${fifths}</fifths></key>` +
+        `<time><beats>4</beats><beat-type>4</beat-type></time><clef>${clef}</clef></attributes>`
+      : '';
+    measures += `<measure number="${m + 1}">${attributes}${notes.slice(m * 4, m * 4 + 4).join('')}</measure>`;
+  }
+
+  const score = musicXMLParser.parseXML(
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise version="4.0">' +
+    '<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>' +
+    `<part id="P1">${measures}</part></score-partwise>`
+  );
+  score.notes.forEach(n => { n.hand = hand; });
+  return score;
+}
+
+// Planned fingers, a group per sonority as written ("531 521")
+function plan(hand: Hand, fifths: number, sonorities: (number | number[])[]): string {
+  const score = handPart(hand, fifths, sonorities);
+  const planner = new FingeringPlanner();
+  const { fingering } = planner.planFingering(score.notes, patternRecognizer.recognizePatterns(score.notes), { timing: score });
+
+  let next = 0;
+  return sonorities.map(sonority => {
+    const size = [sonority].flat().length;
+    next += size;
+    return fingering.slice(next - size, next).join('');
+  }).join(' ');
+}
+
+// One octave of a major scale from its tonic
+const majorScale = (tonic: number) => [0, 2, 4, 5, 7, 9, 11, 12].map(step => tonic + step);
+
+describe('FingeringPlanner chord shapes', () => {
+  it('fingers root-position triads 1-3-5 in RH and 5-3-1 in LH', () => {
+    // C major, D major and A minor, low to high
+    const triads = [[48, 52, 55], [50, 54, 57], [45, 48, 52]];
+    
+    for (const triad of triads) {
+      expect(plan('LH', 0, [triad])).toBe('531');
+      expect(plan('RH', 0, [triad.map(p => p + 12)])).toBe('135');
+    }
+  });
+
+  it('keeps 5-3-1 through a D major progression in LH', () => {
+    const progression = [[50, 54, 57], [43, 47, 50], [45, 49, 52], [50, 54, 57]];
+    expect(plan('LH', 2, progression)).toBe('531 531 531 531');
+  });
+
+  it('puts 2 between where a fourth lies next to 5', () => {
+    // First inversion in RH (fourth on top), second inversion in LH (fourth at the bottom)
+    expect(plan('RH', 0, [[64, 67, 72]])).toBe('125');
+    expect(plan('LH', 0, [[43, 48, 52]])).toBe('521');
+  });
+});
+
+describe('FingeringPlanner scale runs', () => {
+  it('ends a one-octave RH scale going up on 5', () => {
+    expect(plan('RH', 2, majorScale(62))).toBe('1 2 3 1 2 3 4 5');
+    expect(plan('RH', 0, majorScale(60))).toBe('1 2 3 1 2 3 4 5');
+  });
+
+  it('ends a one-octave LH scale going down on 5', () => {
+    expect(plan('LH', 2, majorScale(50).reverse())).toBe('1 2 3 1 2 3 4 5');
+  });
+
+  it('turns at the top of a RH scale on 5', () => {
+    const up = majorScale(62);
+    expect(plan('RH', 2, [...up, ...up.slice(0, -1).reverse()])).toBe('1 2 3 1 2 3 4 5 4 3 2 1 3 2 1');
+  });
+
+  it('keeps the F major fourth finger at the top', () => {
+    expect(plan('RH', -1, majorScale(65))).toBe('1 2 3 4 1 2 3 4');
+  });
+});
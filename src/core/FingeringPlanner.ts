@@ -1,7 +1,32 @@
 import type { 
-  Note, PatternSegment, PatternType, Finger, Hand,
-  FingeringState, FingeringSolution, CostResult 
+  Note, Chord, PatternSegment, PatternType, Finger, Hand,
+  FingeringState, FingeringSolution, CostResult, PlanningOptions, ReflowResult,
+  FingeringAlternative, HandSize, HandProfile, CostProfile, Ornament, OrnamentFingering, ScoreTiming,
+  StepCost
 } from '@/types';
+import { CostModel, DEFAULT_COST_PROFILE, isNaturalDirection } from './CostModel';
+import type { ArticulationRuleContext, KeyFingeringStep } from './CostModel';
+import { keyFingerings } from './KeyFingerings';
+import type { KeyFinger } from './KeyFingerings';
+import { ornamentRealizer } from './OrnamentRealizer';
+import { TempoMap } from './TempoMap';
+
+// Preset hands by their widest 1-5 stretch; the span table is tuned for average
+export const HAND_PROFILES: Record<Exclude<HandSize, 'custom'>, HandProfile> = {
+  child: { size: 'child', maxSpan: { RH: 10, LH: 10 } },
+  small: { size: 'small', maxSpan: { RH: 12, LH: 12 } },
+  average: { size: 'average', maxSpan: { RH: 14, LH: 14 } },
+  large: { size: 'large', maxSpan: { RH: 16, LH: 16 } }
+};
+
+// Measured spans outside this range are clamped
+export const MIN_HAND_SPAN = 7;
+export const MAX_HAND_SPAN = 20;
+
+const FINGERS: Finger[] = [1, 2, 3, 4, 5];
+
+// Note values held long enough to change finger on
+const HELD_NOTE_TYPES = ['half', 'whole', 'breve', 'long'];
 
 /**
  * Layer 2: Fingering Optimization via Rule-based Dynamic Programming
@@ -15,8 +40,9 @@ import type {
  */
 export class FingeringPlanner {
   private difficultyLevel: 'beginner' | 'intermediate' | 'advanced' = 'intermediate';
+  private handProfile: HandProfile = HAND_PROFILES.average;
   
-  // Natural finger spans (in semitones)
+  // Natural finger spans (in semitones) of an average hand
   private readonly naturalSpans: Record<string, number> = {
     '1-2': 2, '2-3': 2, '3-4': 1, '4-5': 2,
     '1-3': 4, '2-4': 3, '3-5': 3,
@@ -24,20 +50,70 @@ export class FingeringPlanner {
     '1-5': 8
   };
 
-  // Validated transition frequencies from real music
-  private readonly transitionWeights: Record<string, number> = {
-    '1->2': 900, '2->1': 936, '2->3': 405, '3->2': 528,
-    '3->4': 420, '4->3': 409, '4->5': 590, '5->4': 561,
-    '1->3': 451, '3->1': 489, '1->4': 301, '4->1': 286,
-    '1->5': 356, '5->1': 286, '2->4': 150, '4->2': 149,
-    '2->5': 334, '5->2': 248, '3->5': 271, '5->3': 448
+  // The spans scaled to each hand as finger-by-finger tables, looked up on every DP transition
+  private naturalSpanTables: Record<Hand, number[][]> = {
+    RH: this.buildSpanTable(1),
+    LH: this.buildSpanTable(1)
   };
+  
+  // Hand size relative to average; stretch allowances grow and shrink with it
+  private handScale: Record<Hand, number> = { RH: 1, LH: 1 };
+
+  // Named, weighted cost rules; the validated transition frequencies live there too
+  private readonly costModel = new CostModel();
+
+  private readonly chordFingeringCache = new Map<string, Finger[][]>();
+  
+  // Ornament figure fingerings, best first, per figure, hand and finger of the written note
+  private readonly ornamentFingeringCache = new Map<string, { fingers: Finger[]; cost: number }[]>();
+  
+  // A second ornament fingering is only suggested when it costs at most this much more
+  private readonly ornamentAlternateMargin = 20;
+  // Time between notes at which stretch, crossing and same-finger costs apply as written;
+  // faster steps cost more and slower ones less, within the given bounds
+  private readonly paceReferenceSeconds = 0.25;
+  private readonly paceBounds: [number, number] = [0.25, 2];
 
   setDifficultyLevel(level: 'beginner' | 'intermediate' | 'advanced') {
     this.difficultyLevel = level;
   }
 
-  planFingering(notes: Note[], patterns: PatternSegment[]): FingeringSolution {
+  /**
+   * Size the span table and stretch penalties to the player's hands
+   */
+  setHandProfile(profile: HandProfile) {
+    const average = HAND_PROFILES.average.maxSpan;
+    
+    for (const hand of ['RH', 'LH'] as Hand[]) {
+      const span = Math.min(Math.max(profile.maxSpan[hand], MIN_HAND_SPAN), MAX_HAND_SPAN);
+      this.handScale[hand] = span / average[hand];
+      this.naturalSpanTables[hand] = this.buildSpanTable(this.handScale[hand]);
+    }
+    
+    this.handProfile = profile;
+  }
+
+  getHandProfile(): HandProfile {
+    return this.handProfile;
+  }
+
+  /**
+   * Load a cost profile; null restores the built-in defaults
+   */
+  setCostProfile(profile: CostProfile | null) {
+    this.costModel.loadProfile(profile ?? DEFAULT_COST_PROFILE);
+    this.ornamentFingeringCache.clear();
+  }
+
+  getCostModel(): CostModel {
+    return this.costModel;
+  }
+
+  /**
+   * Plan fingering for both hands
+   * Locked notes keep their finger; the rest is planned to flow into and out of them
+   */
+  planFingering(notes: Note[], patterns: PatternSegment[], options: PlanningOptions = {}): FingeringSolution {
     if (notes.length === 0) {
       return { fingering: [], totalCost: 0, path: [], explanations: [] };
     }
@@ -45,22 +121,27 @@ export class FingeringPlanner {
     const rhNotes = notes.filter(n => n.hand === 'RH');
     const lhNotes = notes.filter(n => n.hand === 'LH');
     
-    const rhSolution = this.planHandFingering(rhNotes, patterns, 'RH');
-    const lhSolution = this.planHandFingering(lhNotes, patterns, 'LH');
+    const locked = options.lockedFingerings ?? new Map<string, Finger>();
+    
+    const rhSolution = this.planHandFingering(rhNotes, patterns, 'RH', locked, options.timing, options.onProgress);
+    const lhSolution = this.planHandFingering(lhNotes, patterns, 'LH', locked, options.timing, options.onProgress);
 
     // Merge solutions
     const fingering: Finger[] = new Array(notes.length);
     const explanations: string[] = new Array(notes.length);
+    const substitutions: (Finger | undefined)[] = new Array(notes.length);
     
     let rhIdx = 0, lhIdx = 0;
     notes.forEach((note, i) => {
       if (note.hand === 'RH') {
         fingering[i] = rhSolution.fingering[rhIdx] || 3;
         explanations[i] = rhSolution.explanations[rhIdx] || '';
+        substitutions[i] = rhSolution.substitutions?.[rhIdx];
         rhIdx++;
       } else {
         fingering[i] = lhSolution.fingering[lhIdx] || 3;
         explanations[i] = lhSolution.explanations[lhIdx] || '';
+        substitutions[i] = lhSolution.substitutions?.[lhIdx];
         lhIdx++;
       }
     });
@@ -69,120 +150,778 @@ export class FingeringPlanner {
       fingering,
       totalCost: rhSolution.totalCost + lhSolution.totalCost,
       path: [...rhSolution.path, ...lhSolution.path],
-      explanations
+      explanations,
+      ornamentFingerings: this.planOrnaments(notes, fingering),
+      substitutions
     };
   }
 
-  private planHandFingering(notes: Note[], patterns: PatternSegment[], hand: Hand): FingeringSolution {
+  /**
+   * Fingers for every ornament, given the fingers of the written notes
+   * An ornament fingering from the score is kept while its note keeps its finger
+   */
+  planOrnaments(notes: Note[], fingering: Finger[]): (OrnamentFingering | undefined)[] {
+    const result: (OrnamentFingering | undefined)[] = new Array(notes.length);
+    if (!notes.some(n => n.ornament)) return result;
+    
+    for (const hand of ['RH', 'LH'] as Hand[]) {
+      const indices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+      const sonorities = this.groupSonorities(indices.map(i => notes[i]), hand, new Map());
+      
+      for (const sonority of sonorities) {
+        const fingers = sonority.indices.map(local => fingering[indices[local]]);
+        
+        sonority.notes.forEach((note, k) => {
+          const finger = fingers[k];
+          if (!note.ornament || !finger) return;
+          
+          const written = note.ornamentFingering;
+          if (written && written.fingers[note.ornament.pitches.indexOf(note.pitch)] === finger) {
+            result[indices[sonority.indices[k]]] = written;
+            return;
+          }
+          
+          const busy = fingers.filter(f => f !== finger);
+          const [best, second] = this.rankOrnamentFingerings(note.ornament, note.pitch, finger, hand, busy);
+          const close = second && second.cost - best.cost <= this.ornamentAlternateMargin;
+          result[indices[sonority.indices[k]]] = {
+            fingers: ornamentRealizer.expandFigure(note.ornament, best.fingers),
+            alternate: close ? ornamentRealizer.expandFigure(note.ornament, second.fingers) : undefined
+          };
+        });
+      }
+    }
+    
+    return result;
+  }
+
+  /**
+   * Re-plan only a bounded window around a manually edited note
+   * The edit and all locked notes stay fixed, and the sonorities just outside
+   * the window keep their current fingers so the window joins up with them
+   */
+  replanAround(
+    notes: Note[],
+    patterns: PatternSegment[],
+    editedIndex: number,
+    currentFingering: Finger[],
+    options: PlanningOptions = {}
+  ): ReflowResult {
+    const fingering = [...currentFingering];
+    const edited = notes[editedIndex];
+    if (!edited) return { fingering, changedIndices: [], replannedIndices: [], explanations: [], substitutions: [] };
+    
+    const windowSize = options.reflowWindow ?? 6;
+    const hand = edited.hand;
+    const globalIndices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+    const handNotes = globalIndices.map(i => notes[i]);
+    
+    const sonorities = this.groupSonorities(handNotes, hand, new Map());
+    const editedLocal = globalIndices.indexOf(editedIndex);
+    const center = sonorities.findIndex(s => s.indices.includes(editedLocal));
+    
+    // One extra sonority on each side acts as a fixed anchor
+    const first = Math.max(0, center - windowSize - 1);
+    const last = Math.min(sonorities.length - 1, center + windowSize + 1);
+    
+    const locked = new Map(options.lockedFingerings ?? []);
+    locked.set(edited.id, currentFingering[editedIndex]);
+    
+    const localIndices: number[] = [];
+    for (let k = first; k <= last; k++) {
+      const isAnchor = (k === first && first < center - windowSize) || 
+                       (k === last && last > center + windowSize);
+      for (const local of sonorities[k].indices) {
+        localIndices.push(local);
+        const globalIndex = globalIndices[local];
+        if (isAnchor && currentFingering[globalIndex]) {
+          locked.set(notes[globalIndex].id, currentFingering[globalIndex]);
+        }
+      }
+    }
+    
+    const windowNotes = localIndices.map(local => handNotes[local]);
+    const keyFingers = keyFingerings.align(handNotes, hand, patterns, options.timing?.measures);
+    const solution = this.dpOptimization(windowNotes, this.windowPatterns(patterns, hand, localIndices), hand, locked, options.timing, keyFingers);
+    
+    const replannedIndices = localIndices.map(local => globalIndices[local]);
+    const changedIndices: number[] = [];
+    replannedIndices.forEach((globalIndex, w) => {
+      if (solution.fingering[w] !== currentFingering[globalIndex]) {
+        fingering[globalIndex] = solution.fingering[w];
+        changedIndices.push(globalIndex);
+      }
+    });
+    
+    return {
+      fingering,
+      changedIndices,
+      replannedIndices,
+      explanations: solution.explanations,
+      substitutions: solution.substitutions ?? []
+    };
+  }
+
+  /**
+   * The k cheapest distinct fingerings of one hand over a measure range
+   * Locked notes stay fixed, and the sonorities just outside the range keep
+   * their current fingers so every alternative joins up with the rest
+   */
+  planAlternatives(
+    notes: Note[],
+    patterns: PatternSegment[],
+    hand: Hand,
+    measures: [number, number],
+    currentFingering: Finger[],
+    k = 3,
+    options: PlanningOptions = {}
+  ): FingeringAlternative[] {
+    const [fromMeasure, toMeasure] = measures;
+    const globalIndices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+    const handNotes = globalIndices.map(i => notes[i]);
+    
+    const sonorities = this.groupSonorities(handNotes, hand, new Map());
+    const inRange = (s: Sonority) => s.measureNumber >= fromMeasure && s.measureNumber <= toMeasure;
+    const start = sonorities.findIndex(inRange);
+    if (start < 0) return [];
+    
+    let end = start;
+    while (end + 1 < sonorities.length && inRange(sonorities[end + 1])) end++;
+    
+    // One extra sonority on each side acts as a fixed anchor
+    const first = Math.max(0, start - 1);
+    const last = Math.min(sonorities.length - 1, end + 1);
+    const locked = new Map(options.lockedFingerings ?? []);
+    
+    const localIndices: number[] = [];
+    for (let s = first; s <= last; s++) {
+      for (const local of sonorities[s].indices) {
+        localIndices.push(local);
+        const globalIndex = globalIndices[local];
+        if ((s < start || s > end) && currentFingering[globalIndex]) {
+          locked.set(notes[globalIndex].id, currentFingering[globalIndex]);
+        }
+      }
+    }
+    
+    const windowNotes = localIndices.map(local => handNotes[local]);
+    const keyFingers = keyFingerings.align(handNotes, hand, patterns, options.timing?.measures);
+    const context = this.buildContext(windowNotes, this.windowPatterns(patterns, hand, localIndices), hand, locked, options.timing, keyFingers);
+    const passage = context.sonorities.slice(start - first, end - first + 1);
+    const indices = passage.flatMap(s => s.indices.map(w => globalIndices[localIndices[w]]));
+    
+    // Unfixed anchors can make paths differ outside the passage only; ask for spares
+    const seen = new Set<string>();
+    const distinct: { path: { states: HandState[]; cost: number }; fingering: Finger[]; substitutions: (Finger | undefined)[] }[] = [];
+    
+    for (const path of this.kBestPaths(context, k * 3)) {
+      const states = passage.map((_, n) => path.states[start - first + n]);
+      const fingering = passage.flatMap((s, n) => s.notes.map(note => this.fingerForPitch(s, states[n].fingers, note.pitch)));
+      const substitutions = passage.flatMap((s, n) => s.notes.map(() => this.substitutionOf(states[n])));
+      
+      const key = `${fingering.join()}/${substitutions.join()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      distinct.push({ path, fingering, substitutions });
+      if (distinct.length === k) break;
+    }
+    if (distinct.length === 0) return [];
+    
+    const scores = distinct.map(({ path }) => this.scorePath(context, path.states));
+    const descriptions = new Map(this.costModel.describeRules().map(r => [r.name, r.description]));
+    const best = distinct[0];
+    
+    return distinct.map(({ path, fingering, substitutions }, rank) => {
+      const deltas = new Map(scores[rank].totals);
+      scores[0].totals.forEach((cost, rule) => deltas.set(rule, (deltas.get(rule) ?? 0) - cost));
+      
+      const reasons = [...deltas.entries()]
+        .filter(([, delta]) => Math.abs(delta) >= 0.5)
+        .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+        .slice(0, 3)
+        .map(([rule, delta]) => {
+          const description = descriptions.get(rule) ?? 'Difficulty level adjustment';
+          return `${delta > 0 ? '+' : '−'}${Math.round(Math.abs(delta))} ${description}`;
+        });
+      if (rank > 0 && reasons.length === 0) reasons.push('Costs the same under every rule');
+      
+      const explanations = passage.flatMap((s, n) => s.notes.map(note => {
+        const stepReasons = scores[rank].reasons[start - first + n];
+        const finger = this.fingerForPitch(s, path.states[start - first + n].fingers, note.pitch);
+        const isLocked = s.lockedFingers[s.keyPitches.indexOf(note.pitch)] === finger;
+        return (isLocked ? ['Fixed fingering', ...stepReasons] : stepReasons).join('; ');
+      }));
+      
+      return {
+        rank,
+        hand,
+        indices,
+        fingering,
+        cost: path.cost,
+        costDelta: path.cost - best.path.cost,
+        changedIndices: indices.filter((_, n) => 
+          fingering[n] !== best.fingering[n] || substitutions[n] !== best.substitutions[n]
+        ),
+        reasons,
+        explanations,
+        substitutions
+      };
+    });
+  }
+
+  private planHandFingering(
+    notes: Note[],
+    patterns: PatternSegment[],
+    hand: Hand,
+    locked: ReadonlyMap<string, Finger>,
+    timing?: ScoreTiming,
+    onProgress?: PlanningOptions['onProgress']
+  ): FingeringSolution {
     if (notes.length === 0) {
       return { fingering: [], totalCost: 0, path: [], explanations: [] };
     }
 
-    if (notes.length > 64) {
-      return this.chunkedOptimization(notes, patterns, hand);
+    return this.dpOptimization(notes, patterns, hand, locked, timing, undefined, onProgress);
+  }
+
+  /**
+   * Core DP optimization with corrected cost function
+   * Each DP step is a whole sonority (single note or chord) of this hand,
+   * and each state a set of distinct fingers ordered by pitch.
+   * One linear pass over the whole part: at most ten states per step, so the
+   * result is optimal for the complete piece, even for long sonatas
+   */
+  private dpOptimization(
+    notes: Note[],
+    patterns: PatternSegment[],
+    hand: Hand,
+    locked: ReadonlyMap<string, Finger>,
+    timing?: ScoreTiming,
+    keyFingers?: ReadonlyMap<string, KeyFinger>,
+    onProgress?: PlanningOptions['onProgress']
+  ): FingeringSolution {
+    const context = this.buildContext(notes, patterns, hand, locked, timing, keyFingers);
+    const { sonorities, handPositions } = context;
+    
+    const dp: SonorityState[][] = [];
+    
+    // Initialize first sonority
+    const first = sonorities[0];
+    dp[0] = this.candidateStates(first, hand).map(state => ({
+      ...state,
+      cost: this.computeSonorityInitialCost(first, state, hand, handPositions).cost,
+      parent: -1
+    }));
+
+    // Forward pass
+    for (let i = 1; i < sonorities.length; i++) {
+      dp[i] = this.relaxSonority(dp[i - 1], context, i);
+      
+      if (onProgress && sonorities[i].measureNumber !== sonorities[i - 1].measureNumber) {
+        onProgress(hand, sonorities[i].measureNumber);
+      }
     }
+    
+    return this.backtrack(dp, context, notes);
+  }
 
-    return this.dpOptimization(notes, patterns, hand);
+  /**
+   * List Viterbi: every state keeps its k cheapest ways in instead of only
+   * the best one, so the k cheapest fingering sequences can be followed back
+   */
+  private kBestPaths(context: PlanContext, k: number): { states: HandState[]; cost: number }[] {
+    const { hand, sonorities, handPositions, patternContexts, connections, paces, keySteps, runEnds } = context;
+    
+    const layers: RankedState[][] = [];
+    layers[0] = this.candidateStates(sonorities[0], hand).map(state => ({
+      ...state,
+      ways: [{
+        cost: this.computeSonorityInitialCost(sonorities[0], state, hand, handPositions).cost,
+        parent: -1,
+        parentWay: -1
+      }]
+    }));
+    
+    for (let i = 1; i < sonorities.length; i++) {
+      const prev = sonorities[i - 1];
+      const curr = sonorities[i];
+      
+      layers[i] = this.candidateStates(curr, hand).map(state => {
+        const shapeCost = this.computeSonorityShapeCost(curr, state, hand).cost;
+        const ways: RankedWay[] = [];
+        
+        layers[i - 1].forEach((prevState, p) => {
+          const stepCost = shapeCost + this.computeSonorityTransitionCost(
+            prev, prevState.release,
+            curr, state.fingers,
+            patternContexts[i], connections[i], paces[i], keySteps[i], runEnds[i], hand, handPositions
+          ).cost;
+          prevState.ways.forEach((way, w) => ways.push({ cost: way.cost + stepCost, parent: p, parentWay: w }));
+        });
+        
+        return { ...state, ways: ways.sort((a, b) => a.cost - b.cost).slice(0, k) };
+      });
+    }
+    
+    const ends = layers[layers.length - 1]
+      .flatMap((state, s) => state.ways.map((way, w) => ({ s, w, cost: way.cost })))
+      .sort((a, b) => a.cost - b.cost)
+      .slice(0, k);
+    
+    return ends.map(end => {
+      const states: HandState[] = new Array(sonorities.length);
+      let s = end.s;
+      let w = end.w;
+      
+      for (let i = sonorities.length - 1; i >= 0; i--) {
+        const way = layers[i][s].ways[w];
+        states[i] = layers[i][s];
+        s = way.parent;
+        w = way.parentWay;
+      }
+      
+      return { states, cost: end.cost };
+    });
   }
 
   /**
-   * Core DP optimization with corrected cost function
+   * Cost of a fingering path per cost rule, with the reasons of every step
    */
-  private dpOptimization(notes: Note[], patterns: PatternSegment[], hand: Hand): FingeringSolution {
-    const n = notes.length;
-    const fingers: Finger[] = [1, 2, 3, 4, 5];
+  private scorePath(context: PlanContext, states: HandState[]): { totals: Map<string, number>; reasons: string[][] } {
+    const { hand, sonorities, handPositions } = context;
+    const totals = new Map<string, number>();
     
-    // Analyze hand position context
-    const handPositions = this.analyzeHandPositions(notes, hand);
+    const reasons = sonorities.map((sonority, i) => {
+      const { result, contributions } = this.costModel.record(() => i === 0
+        ? this.computeSonorityInitialCost(sonority, states[0], hand, handPositions)
+        : this.computeStepCost(context, i, states[i - 1], states[i])
+      );
+      contributions.forEach(({ rule, cost }) => totals.set(rule, (totals.get(rule) ?? 0) + cost));
+      return result.reasons;
+    });
     
-    const dp: Map<string, { cost: number; parent: string | null; reasons: string[] }>[] = [];
+    return { totals, reasons };
+  }
+
+  /**
+   * Cost of a given fingering under the same model the planner optimizes
+   * Used to compare fingerings from other sources with the planned one
+   */
+  evaluateFingering(
+    notes: Note[],
+    patterns: PatternSegment[],
+    fingering: Finger[],
+    substitutions: (Finger | undefined)[] = [],
+    timing?: ScoreTiming
+  ): number {
+    return this.scoreSteps(notes, patterns, fingering, substitutions, timing)
+      .reduce((sum, step) => sum + step.cost, 0);
+  }
+
+  /**
+   * Cost of every step of a given fingering, per hand in score order,
+   * with what each rule contributed and the reasons
+   */
+  scoreSteps(
+    notes: Note[],
+    patterns: PatternSegment[],
+    fingering: Finger[],
+    substitutions: (Finger | undefined)[] = [],
+    timing?: ScoreTiming
+  ): StepCost[] {
+    const steps: StepCost[] = [];
     
-    // Initialize first note
-    dp[0] = new Map();
-    const firstPos = handPositions[0];
-    for (const finger of fingers) {
-      const cost = this.computeInitialCost(finger, notes[0], hand, firstPos);
-      dp[0].set(finger.toString(), { cost: cost.cost, parent: null, reasons: cost.reasons });
+    for (const hand of ['RH', 'LH'] as Hand[]) {
+      const indices = notes.map((_, i) => i).filter(i => notes[i].hand === hand);
+      if (indices.length === 0) continue;
+      
+      const handNotes = indices.map(i => notes[i]);
+      const context = this.buildContext(handNotes, patterns, hand, new Map(), timing);
+      const { sonorities, handPositions } = context;
+      
+      const stateOf = (sonority: Sonority): HandState => {
+        const fingers = sonority.keyPitches.map(pitch => {
+          const k = sonority.notes.findIndex(n => n.pitch === pitch);
+          return fingering[indices[sonority.indices[k]]] || 3;
+        });
+        const substitution = substitutions[indices[sonority.indices[0]]];
+        return { fingers, release: substitution && fingers.length === 1 ? [substitution] : fingers };
+      };
+      
+      let prevState: HandState | null = null;
+      
+      sonorities.forEach((sonority, i) => {
+        const state = stateOf(sonority);
+        const { result, contributions } = this.costModel.record(() => prevState
+          ? this.computeStepCost(context, i, prevState, state)
+          : this.computeSonorityInitialCost(sonority, state, hand, handPositions)
+        );
+        
+        steps.push({
+          hand,
+          measureNumber: sonority.measureNumber,
+          beat: sonority.beat,
+          indices: sonority.indices.map(local => indices[local]),
+          cost: result.cost,
+          contributions,
+          reasons: result.reasons
+        });
+        prevState = state;
+      });
     }
+    
+    return steps;
+  }
 
-    // Forward pass
-    for (let i = 1; i < n; i++) {
-      dp[i] = new Map();
-      const pos = handPositions[i];
-      const patternContext = this.getPatternContext(notes, i, patterns);
-      
-      for (const toFinger of fingers) {
-        let minCost = Infinity;
-        let bestParent: string | null = null;
-        let bestReasons: string[] = [];
+  /**
+   * Everything the DP needs about a hand part, computed once per run
+   * Pattern segments index the notes passed in, so a window of the part
+   * passes its own segments and the scale and arpeggio fingers aligned on
+   * the whole part
+   */
+  private buildContext(
+    notes: Note[],
+    patterns: PatternSegment[],
+    hand: Hand,
+    locked: ReadonlyMap<string, Finger>,
+    timing?: ScoreTiming,
+    keyFingers: ReadonlyMap<string, KeyFinger> = keyFingerings.align(notes, hand, patterns, timing?.measures)
+  ): PlanContext {
+    const sonorities = this.groupSonorities(notes, hand, locked);
+    const tempoMap = new TempoMap(timing?.measures, timing?.tempos);
+    const onsets = sonorities.map(s => tempoMap.secondsAt(s.measureNumber, s.beat));
+    
+    return {
+      hand,
+      sonorities,
+      // Analyze hand position context
+      handPositions: this.analyzeHandPositions(notes, hand),
+      patternContexts: sonorities.map(s => this.getPatternContext(notes, s.indices[0], patterns)),
+      connections: sonorities.map((s, i) => i > 0 ? this.connectionBetween(sonorities[i - 1], s) : { articulation: 'plain' }),
+      paces: onsets.map((onset, i) => i > 0 ? this.paceOf(onset - onsets[i - 1]) : 1),
+      keySteps: sonorities.map((s, i) => i > 0 ? this.keyStepBetween(sonorities[i - 1], s, keyFingers) : undefined),
+      runEnds: sonorities.map((_, i) => this.endsRun(sonorities, i))
+    };
+  }
+
+  // A single note after which the line stops or turns back
+  private endsRun(sonorities: Sonority[], i: number): boolean {
+    const pitchOf = (s?: Sonority) => s?.keyPitches.length === 1 ? s.keyPitches[0] : undefined;
+    const [before, here, after] = [pitchOf(sonorities[i - 1]), pitchOf(sonorities[i]), pitchOf(sonorities[i + 1])];
+    if (before === undefined || here === undefined) return false;
+    if (after === undefined) return true;
+    return Math.sign(here - before) !== Math.sign(after - here);
+  }
+
+  /**
+   * Fingers a conventional fingering gives a melodic step inside one scale or arpeggio run
+   */
+  private keyStepBetween(prev: Sonority, curr: Sonority, keyFingers: ReadonlyMap<string, KeyFinger>): KeyFingeringStep | undefined {
+    if (prev.keyPitches.length !== 1 || curr.keyPitches.length !== 1) return undefined;
+    
+    const from = keyFingers.get(prev.notes[0].id);
+    const to = keyFingers.get(curr.notes[0].id);
+    if (!from || !to || from.table !== to.table) return undefined;
+    
+    return { name: to.table.name, kind: to.table.kind, from: from.finger, to: to.finger };
+  }
+
+  /**
+   * How hard the time between two onsets makes a move: 1 at the reference
+   * step, growing with the square root of the speed. Grace notes count as
+   * the shortest step.
+   */
+  private paceOf(seconds: number): number {
+    const [min, max] = this.paceBounds;
+    if (seconds <= 0) return max;
+    return Math.min(Math.max(Math.sqrt(this.paceReferenceSeconds / seconds), min), max);
+  }
+
+  /**
+   * How the score joins two sonorities: legato inside a slur, detached after
+   * a staccato or where a slur ends or starts. A tied note is not struck again.
+   */
+  private connectionBetween(prev: Sonority, curr: Sonority): Connection {
+    if (curr.notes.every(n => n.tieStop)) return { articulation: 'plain' };
+    if (prev.notes.some(n => n.hasStaccato)) return { articulation: 'detached', detachedBy: 'staccato' };
+    
+    const prevSlurred = prev.notes.some(n => n.inSlur);
+    const currSlurred = curr.notes.some(n => n.inSlur);
+    const slurBoundary = prev.notes.some(n => n.slurStop) || curr.notes.some(n => n.slurStart);
+    
+    if ((prevSlurred || currSlurred) && slurBoundary) return { articulation: 'detached', detachedBy: 'phraseBreak' };
+    return { articulation: prevSlurred && currSlurred ? 'legato' : 'plain' };
+  }
+
+  /**
+   * Compute the best predecessor for every fingering of the current sonority
+   * Only costs are kept here; reasons are rebuilt for the chosen path
+   */
+  private relaxSonority(prevStates: SonorityState[], context: PlanContext, i: number): SonorityState[] {
+    const { hand, sonorities, handPositions, patternContexts, connections, paces, keySteps, runEnds } = context;
+    const prev = sonorities[i - 1];
+    const curr = sonorities[i];
+    const states: SonorityState[] = [];
+    
+    for (const state of this.candidateStates(curr, hand)) {
+      const shapeCost = this.computeSonorityShapeCost(curr, state, hand).cost;
+      
+      let minCost = Infinity;
+      let bestParent = -1;
+      
+      prevStates.forEach((prevState, p) => {
+        // A substituted note is left from the finger that took it over
+        const transitionCost = this.computeSonorityTransitionCost(
+          prev, prevState.release,
+          curr, state.fingers,
+          patternContexts[i], connections[i], paces[i], keySteps[i], runEnds[i], hand, handPositions
+        );
         
-        for (const fromFinger of fingers) {
-          const prevState = dp[i - 1].get(fromFinger.toString());
-          if (!prevState) continue;
-          
-          const transitionCost = this.computeTransitionCost(
-            notes[i - 1], fromFinger as Finger,
-            notes[i], toFinger,
-            patternContext, hand, pos
-          );
-          
-          if (transitionCost.cost > 300) continue;
-          
-          const totalCost = prevState.cost + transitionCost.cost;
-          
-          if (totalCost < minCost) {
-            minCost = totalCost;
-            bestParent = `${i - 1}-${fromFinger}`;
-            bestReasons = transitionCost.reasons;
-          }
-        }
+        const totalCost = prevState.cost + transitionCost.cost + shapeCost;
         
-        if (minCost < Infinity) {
-          dp[i].set(toFinger.toString(), { cost: minCost, parent: bestParent, reasons: bestReasons });
+        if (totalCost < minCost) {
+          minCost = totalCost;
+          bestParent = p;
         }
+      });
+      
+      states.push({ ...state, cost: minCost, parent: bestParent });
+    }
+    
+    return states;
+  }
+
+  /**
+   * Full cost of moving into sonority i: transition plus the new hand shape
+   */
+  private computeStepCost(context: PlanContext, i: number, prev: HandState, state: HandState): CostResult {
+    const { hand, sonorities, handPositions, patternContexts, connections, paces, keySteps, runEnds } = context;
+    const curr = sonorities[i];
+    
+    const transition = this.computeSonorityTransitionCost(
+      sonorities[i - 1], prev.release,
+      curr, state.fingers,
+      patternContexts[i], connections[i], paces[i], keySteps[i], runEnds[i], hand, handPositions
+    );
+    const shape = this.computeSonorityShapeCost(curr, state, hand);
+    
+    return {
+      cost: transition.cost + shape.cost,
+      reasons: [...transition.reasons, ...shape.reasons]
+    };
+  }
+
+  /**
+   * The hand's pattern segments re-indexed to a window of its notes,
+   * clipped to the window; windowIndices are the hand-part indices in order
+   */
+  private windowPatterns(patterns: PatternSegment[], hand: Hand, windowIndices: number[]): PatternSegment[] {
+    const result: PatternSegment[] = [];
+    
+    for (const pattern of patterns) {
+      if (pattern.hand !== hand) continue;
+      
+      const startIndex = windowIndices.findIndex(i => i >= pattern.startIndex);
+      const endIndex = windowIndices.filter(i => i <= pattern.endIndex).length - 1;
+      if (startIndex < 0 || endIndex < startIndex) continue;
+      
+      result.push({ ...pattern, startIndex, endIndex });
+    }
+    
+    return result;
+  }
+
+  /**
+   * Group a hand's notes into sonorities: notes struck together by this hand,
+   * whatever their voice or staff, form one sonority. Grace notes stand alone
+   * unless written as a grace chord.
+   */
+  private groupSonorities(notes: Note[], hand: Hand, locked: ReadonlyMap<string, Finger>): Sonority[] {
+    const sonorities: Sonority[] = [];
+    
+    notes.forEach((note, i) => {
+      const current = sonorities[sonorities.length - 1];
+      const sameOnset = current !== undefined &&
+        note.measureNumber === current.measureNumber &&
+        Math.abs(note.beat - current.beat) < 1e-6;
+      const joins = sameOnset && (note.isGrace 
+        ? note.isChord && current.notes[0].isGrace 
+        : !current.notes[0].isGrace);
+      
+      if (joins) {
+        current.notes.push(note);
+        current.indices.push(i);
+      } else {
+        sonorities.push({
+          notes: [note],
+          indices: [i],
+          keyPitches: [],
+          lockedFingers: [],
+          lockedRelease: null,
+          duration: note.duration,
+          measureNumber: note.measureNumber,
+          beat: note.beat,
+          hand
+        });
+      }
+    });
+    
+    for (const sonority of sonorities) {
+      const pitches = [...new Set(sonority.notes.map(n => n.pitch))].sort((a, b) => a - b);
+      
+      // A hand has five fingers: keep the outer tones and spread the rest
+      if (pitches.length > 5) {
+        const keep = [0, 1, 2, 3, 4].map(k => Math.round(k * (pitches.length - 1) / 4));
+        sonority.keyPitches = keep.map(k => pitches[k]);
+      } else {
+        sonority.keyPitches = pitches;
+      }
+      
+      sonority.lockedFingers = sonority.keyPitches.map(pitch => {
+        const lockedNote = sonority.notes.find(n => n.pitch === pitch && locked.has(n.id));
+        return lockedNote ? locked.get(lockedNote.id)! : null;
+      });
+      
+      // A locked note keeps its substitution too
+      if (sonority.keyPitches.length === 1) {
+        const substituted = sonority.notes.find(n => n.substitution && locked.has(n.id));
+        sonority.lockedRelease = substituted?.substitution ?? null;
       }
     }
     
-    return this.backtrack(dp, notes, hand);
+    return sonorities;
+  }
+
+  /**
+   * Fingerings allowed for a sonority: every locked tone keeps its finger.
+   * Locks that contradict pitch order are honoured as written.
+   */
+  private candidateFingerings(sonority: Sonority, hand: Hand): Finger[][] {
+    const all = this.enumerateChordFingerings(sonority.keyPitches.length, hand);
+    if (sonority.lockedFingers.every(f => f === null)) return all;
+    
+    const matches = (fingers: Finger[]) => 
+      fingers.filter((f, k) => sonority.lockedFingers[k] === f).length;
+    const required = sonority.lockedFingers.filter(f => f !== null).length;
+    
+    const consistent = all.filter(fingers => matches(fingers) === required);
+    if (consistent.length > 0) return consistent;
+    
+    const closest = all.reduce((best, fingers) => matches(fingers) > matches(best) ? fingers : best);
+    return [closest.map((f, k) => sonority.lockedFingers[k] ?? f)];
+  }
+
+  /**
+   * DP states of a sonority: every fingering as struck, and for a held
+   * single note also every silent change to another finger
+   */
+  private candidateStates(sonority: Sonority, hand: Hand): HandState[] {
+    const fingerings = this.candidateFingerings(sonority, hand);
+    
+    if (sonority.lockedRelease) {
+      const release = [sonority.lockedRelease];
+      return fingerings.map(fingers => ({ fingers, release: fingers[0] === release[0] ? fingers : release }));
+    }
+    
+    const states: HandState[] = fingerings.map(fingers => ({ fingers, release: fingers }));
+    if (!this.canSubstitute(sonority)) return states;
+    
+    for (const fingers of fingerings) {
+      for (const finger of FINGERS) {
+        if (finger !== fingers[0]) states.push({ fingers, release: [finger] });
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Only a single key held long enough can change finger: tied on,
+   * or a half note or longer
+   */
+  private canSubstitute(sonority: Sonority): boolean {
+    const note = sonority.notes[0];
+    return sonority.keyPitches.length === 1 && !note.isGrace && !note.ornament &&
+      (note.tieStart || HELD_NOTE_TYPES.includes(note.type));
+  }
+
+  // Finger that takes over a substituted note, if any
+  private substitutionOf(state: HandState): Finger | undefined {
+    return state.release[0] !== state.fingers[0] ? state.release[0] : undefined;
+  }
+
+  /**
+   * All assignments of distinct fingers to chord tones ordered by pitch
+   * RH: thumb on the lowest tone side, LH: thumb on the highest tone side
+   */
+  private enumerateChordFingerings(size: number, hand: Hand): Finger[][] {
+    const key = `${hand}-${size}`;
+    const cached = this.chordFingeringCache.get(key);
+    if (cached) return cached;
+    
+    const combinations: Finger[][] = [];
+    const build = (start: number, current: Finger[]) => {
+      if (current.length === size) {
+        combinations.push(hand === 'RH' ? [...current] : [...current].reverse());
+        return;
+      }
+      for (let f = start; f <= 5; f++) {
+        current.push(f as Finger);
+        build(f + 1, current);
+        current.pop();
+      }
+    };
+    build(1, []);
+    
+    this.chordFingeringCache.set(key, combinations);
+    return combinations;
   }
 
   /**
    * Analyze hand positions - KEY for correct fingering
    * Determines the "anchor" pitch for each segment
    * IMPROVED: Better detection of scale patterns that need thumb crossing
+   * Scale passages are detected locally so a long part can mix scales and positions
    */
-  private analyzeHandPositions(notes: Note[], hand: Hand): { anchorPitch: number; inPosition: boolean; isScale: boolean }[] {
-    const positions: { anchorPitch: number; inPosition: boolean; isScale: boolean }[] = [];
+  private analyzeHandPositions(notes: Note[], hand: Hand): HandPosition[] {
+    const positions: HandPosition[] = [];
     
     if (notes.length === 0) return positions;
     
-    // First, detect if this is a scale pattern (consecutive stepwise motion)
-    const isScalePattern = this.detectScalePattern(notes);
+    // First, detect scale runs (consecutive stepwise motion)
+    const scaleStarts = this.findScaleRuns(notes);
     
-    if (isScalePattern) {
-      // For scales, we don't use fixed hand position - we use thumb crossing
-      for (let i = 0; i < notes.length; i++) {
-        positions[i] = { anchorPitch: notes[0].pitch, inPosition: false, isScale: true };
-      }
-      return positions;
-    }
-    
-    // For non-scale patterns, find stable hand positions
+    // Outside scale runs, find stable hand positions
     let segmentStart = 0;
-    let minPitch = notes[0].pitch;
-    let maxPitch = notes[0].pitch;
+    let minPitch = Infinity;
+    let maxPitch = -Infinity;
+    
+    const closeSegment = (end: number) => {
+      const anchorPitch = hand === 'RH' ? minPitch : maxPitch;
+      for (let j = segmentStart; j < end; j++) {
+        positions[j] = { anchorPitch, inPosition: true, isScale: false };
+      }
+    };
     
     for (let i = 0; i < notes.length; i++) {
       const pitch = notes[i].pitch;
+      const scaleStart = scaleStarts[i];
+      
+      // For scales, we don't use fixed hand position - we use thumb crossing
+      if (scaleStart !== null) {
+        closeSegment(i);
+        positions[i] = { anchorPitch: notes[scaleStart].pitch, inPosition: false, isScale: true };
+        segmentStart = i + 1;
+        minPitch = Infinity;
+        maxPitch = -Infinity;
+        continue;
+      }
+      
       const newMin = Math.min(minPitch, pitch);
       const newMax = Math.max(maxPitch, pitch);
       
-      // If range exceeds comfortable span (5th = 7 semitones), start new segment
-      if (newMax - newMin > 7) {
-        const anchorPitch = hand === 'RH' ? minPitch : maxPitch;
-        for (let j = segmentStart; j < i; j++) {
-          positions[j] = { anchorPitch, inPosition: true, isScale: false };
-        }
+      // If range exceeds comfortable span (5th = 7 semitones on an average hand), start new segment
+      if (newMax - newMin > this.stretchLimit(hand, 7)) {
+        closeSegment(i);
         segmentStart = i;
         minPitch = pitch;
         maxPitch = pitch;
@@ -192,14 +931,34 @@ export class FingeringPlanner {
       }
     }
     
-    const anchorPitch = hand === 'RH' ? minPitch : maxPitch;
-    for (let j = segmentStart; j < notes.length; j++) {
-      positions[j] = { anchorPitch, inPosition: true, isScale: false };
-    }
+    closeSegment(notes.length);
     
     return positions;
   }
 
+  /**
+   * Mark notes inside a scale run with the index the run starts at
+   * Runs are found with a sliding window, so one scale does not turn
+   * the whole part into a scale
+   */
+  private findScaleRuns(notes: Note[]): (number | null)[] {
+    const starts: (number | null)[] = new Array(notes.length).fill(null);
+    const windowSize = Math.min(notes.length, 16);
+    
+    for (let start = 0; start + windowSize <= notes.length; start++) {
+      const window = notes.slice(start, start + windowSize);
+      if (!this.detectScalePattern(window)) continue;
+      
+      // A run keeps the anchor of the window that first detected it
+      const runStart = start > 0 && starts[start - 1] !== null ? starts[start - 1]! : start;
+      for (let j = start; j < start + windowSize; j++) {
+        if (starts[j] === null) starts[j] = runStart;
+      }
+    }
+    
+    return starts;
+  }
+
   /**
    * Detect if notes form a scale pattern (consecutive stepwise motion)
    */
@@ -235,82 +994,339 @@ export class FingeringPlanner {
     return stepwiseRatio > 0.8 && directionRatio > 0.6 && range > 7;
   }
 
-  private chunkedOptimization(notes: Note[], patterns: PatternSegment[], hand: Hand): FingeringSolution {
-    const chunkSize = 32;
-    const overlapSize = 4;
-    const chunks: Note[][] = [];
+  /**
+   * Follow the parents back from the cheapest final state, then rebuild the
+   * reasons and the linked path along the chosen fingerings
+   */
+  private backtrack(dp: SonorityState[][], context: PlanContext, notes: Note[]): FingeringSolution {
+    const { hand, sonorities, handPositions } = context;
+    const last = dp[dp.length - 1];
     
-    for (let i = 0; i < notes.length; i += chunkSize - overlapSize) {
-      const end = Math.min(i + chunkSize, notes.length);
-      chunks.push(notes.slice(i, end));
-    }
+    let minFinalCost = Infinity;
+    let bestFinal = 0;
     
-    const chunkSolutions = chunks.map(chunk => this.dpOptimization(chunk, patterns, hand));
+    last.forEach((state, s) => {
+      if (state.cost < minFinalCost) {
+        minFinalCost = state.cost;
+        bestFinal = s;
+      }
+    });
     
-    const fingering: Finger[] = [];
-    const explanations: string[] = [];
-    let totalCost = 0;
+    const chosen: SonorityState[] = new Array(sonorities.length);
+    let current = bestFinal;
     
-    for (let i = 0; i < chunkSolutions.length; i++) {
-      const sol = chunkSolutions[i];
-      if (i === 0) {
-        fingering.push(...sol.fingering);
-        explanations.push(...sol.explanations);
-      } else {
-        fingering.push(...sol.fingering.slice(overlapSize));
-        explanations.push(...sol.explanations.slice(overlapSize));
-      }
-      totalCost += sol.totalCost;
+    for (let i = sonorities.length - 1; i >= 0; i--) {
+      chosen[i] = dp[i][current];
+      current = chosen[i].parent;
     }
     
-    return { fingering, totalCost, path: [], explanations };
+    const fingering: Finger[] = new Array(notes.length);
+    const explanations: string[] = new Array(notes.length);
+    const path: FingeringState[] = new Array(notes.length);
+    const substitutions: (Finger | undefined)[] = new Array(notes.length);
+    
+    let previous: FingeringState | null = null;
+    
+    sonorities.forEach((sonority, i) => {
+      const state = chosen[i];
+      const { result: step, contributions } = this.costModel.record(() => i === 0
+        ? this.computeSonorityInitialCost(sonority, state, hand, handPositions)
+        : this.computeStepCost(context, i, chosen[i - 1], state)
+      );
+      const stepReasons = step.reasons;
+      let lead: FingeringState | null = null;
+      
+      sonority.notes.forEach((note, k) => {
+        const noteIndex = sonority.indices[k];
+        const finger = this.fingerForPitch(sonority, state.fingers, note.pitch);
+        const isLocked = sonority.lockedFingers[sonority.keyPitches.indexOf(note.pitch)] === finger;
+        const reasons = isLocked ? ['Fixed fingering', ...stepReasons] : stepReasons;
+        
+        fingering[noteIndex] = finger;
+        substitutions[noteIndex] = this.substitutionOf(state);
+        explanations[noteIndex] = reasons.join('; ');
+        path[noteIndex] = {
+          noteIndex,
+          finger,
+          hand,
+          handPosition: note.pitch,
+          cost: state.cost,
+          // Chord tones all follow the previous sonority
+          parent: previous,
+          reasons,
+          contributions
+        };
+        lead = lead ?? path[noteIndex];
+      });
+      
+      previous = lead;
+    });
+    
+    return { fingering, totalCost: minFinalCost, path, explanations, substitutions };
   }
 
-  private backtrack(
-    dp: Map<string, { cost: number; parent: string | null; reasons: string[] }>[],
-    notes: Note[],
-    hand: Hand
-  ): FingeringSolution {
-    const n = notes.length;
+  /**
+   * Finger of a chord tone: tones beyond the five fingered ones share
+   * the finger of the nearest fingered tone
+   */
+  private fingerForPitch(sonority: Sonority, fingers: Finger[], pitch: number): Finger {
+    let best = 0;
+    sonority.keyPitches.forEach((p, k) => {
+      if (Math.abs(p - pitch) < Math.abs(sonority.keyPitches[best] - pitch)) best = k;
+    });
+    return fingers[best];
+  }
+
+  /**
+   * Initial cost of a sonority: chords are placed by their thumb-side tone
+   */
+  private computeSonorityInitialCost(
+    sonority: Sonority,
+    state: HandState,
+    hand: Hand,
+    handPositions: HandPosition[]
+  ): CostResult {
+    const pos = handPositions[sonority.indices[0]];
+    const k = hand === 'RH' ? 0 : sonority.keyPitches.length - 1;
+    const note = sonority.notes.find(n => n.pitch === sonority.keyPitches[k])!;
+    const initial = this.computeInitialCost(state.fingers[k], note, hand, pos);
     
-    let minFinalCost = Infinity;
-    let bestFinalFinger: Finger = 3;
+    const plain = sonority.keyPitches.length === 1 && !this.substitutionOf(state);
+    if (plain && !sonority.notes.some(n => n.ornament)) return initial;
     
-    for (const [finger, state] of dp[n - 1].entries()) {
-      if (state.cost < minFinalCost) {
-        minFinalCost = state.cost;
-        bestFinalFinger = parseInt(finger) as Finger;
-      }
+    const shape = this.computeSonorityShapeCost(sonority, state, hand);
+    
+    return {
+      cost: initial.cost + shape.cost,
+      reasons: [...initial.reasons, ...shape.reasons]
+    };
+  }
+
+  /**
+   * Transition between two sonorities
+   * Melodic steps keep the note-to-note rules; anything involving a chord
+   * is scored as a movement of the whole hand shape
+   */
+  private computeSonorityTransitionCost(
+    prev: Sonority, prevFingers: Finger[],
+    curr: Sonority, currFingers: Finger[],
+    patternContext: PatternType,
+    connection: Connection,
+    pace: number,
+    keyStep: KeyFingeringStep | undefined,
+    runEnd: boolean,
+    hand: Hand,
+    handPositions: HandPosition[]
+  ): CostResult {
+    const pos = handPositions[curr.indices[0]];
+    const melodic = prev.keyPitches.length === 1 && curr.keyPitches.length === 1;
+    
+    const movement = melodic
+      ? this.computeTransitionCost(
+          prev.notes[0], prevFingers[0],
+          curr.notes[0], currFingers[0],
+          patternContext, pace, keyStep, runEnd, hand, pos
+        )
+      : this.computeChordTransitionCost(
+          prev.keyPitches, prevFingers,
+          curr.keyPitches, currFingers,
+          patternContext, pace, hand
+        );
+    if (connection.articulation === 'plain') return movement;
+    
+    const articulation = this.computeArticulationCost(prev, prevFingers, curr, currFingers, connection, hand);
+    return {
+      cost: movement.cost + articulation.cost,
+      reasons: [...movement.reasons, ...articulation.reasons]
+    };
+  }
+
+  /**
+   * What the slur or staccato makes of a move: under a slur a repeated
+   * finger or a jump breaks the line, after a detached note it is cheap
+   */
+  private computeArticulationCost(
+    prev: Sonority, prevFingers: Finger[],
+    curr: Sonority, currFingers: Finger[],
+    connection: Connection,
+    hand: Hand
+  ): CostResult {
+    let sameFingerMoves: number;
+    let shift: number;
+    
+    if (prev.keyPitches.length === 1 && curr.keyPitches.length === 1) {
+      const interval = curr.keyPitches[0] - prev.keyPitches[0];
+      const [from, to] = [prevFingers[0], currFingers[0]];
+      sameFingerMoves = from === to ? 1 : 0;
+      
+      // Without the thumb, fingers cannot pass each other: the hand moves the whole way
+      const crossing = from !== 1 && to !== 1 && !isNaturalDirection(hand, interval, to - from);
+      shift = interval !== 0 && (sameFingerMoves > 0 || crossing)
+        ? Math.abs(interval)
+        : Math.max(0, Math.abs(interval) - this.getNaturalSpan(hand, from, to));
+    } else {
+      // Only fingers moving to another key count; a repeated chord tone is struck again anyway
+      sameFingerMoves = currFingers.filter((f, k) => {
+        const j = prevFingers.indexOf(f);
+        return j >= 0 && prev.keyPitches[j] !== curr.keyPitches[k];
+      }).length;
+      shift = Math.abs(
+        this.estimateThumbPitch(curr.keyPitches, currFingers, hand) -
+        this.estimateThumbPitch(prev.keyPitches, prevFingers, hand)
+      );
     }
     
-    const fingering: Finger[] = new Array(n);
-    const explanations: string[] = new Array(n);
-    const path: FingeringState[] = [];
+    return this.costModel.evaluate('articulation', {
+      hand,
+      ...connection,
+      sameFingerMoves,
+      shift,
+      handScale: this.handScale[hand]
+    });
+  }
+
+  /**
+   * Cost of the hand shape a sonority is played with: the chord shape,
+   * any ornament played from it and a finger substitution while it is held
+   */
+  private computeSonorityShapeCost(sonority: Sonority, state: HandState, hand: Hand): CostResult {
+    const { fingers } = state;
+    const shape = this.computeChordShapeCost(sonority.keyPitches, fingers, hand);
+    const substitution = this.substitutionOf(state);
+    if (!substitution && !sonority.notes.some(n => n.ornament)) return shape;
+    
+    const result = { cost: shape.cost, reasons: [...shape.reasons] };
     
-    let currentFinger = bestFinalFinger;
+    if (substitution) {
+      const note = sonority.notes[0];
+      const change = this.costModel.evaluate('substitution', {
+        hand,
+        finger: fingers[0],
+        substitution,
+        pitch: note.pitch,
+        legato: note.inSlur ?? note.hasSlur
+      });
+      
+      result.cost += change.cost;
+      result.reasons.push(...change.reasons);
+    }
     
-    for (let i = n - 1; i >= 0; i--) {
-      fingering[i] = currentFinger;
-      const state = dp[i].get(currentFinger.toString());
-      explanations[i] = state?.reasons.join('; ') || '';
+    sonority.notes.forEach(note => {
+      if (!note.ornament) return;
       
-      path.unshift({
-        noteIndex: i,
-        finger: currentFinger,
+      const finger = this.fingerForPitch(sonority, fingers, note.pitch);
+      const busy = fingers.filter(f => f !== finger);
+      const [best] = this.rankOrnamentFingerings(note.ornament, note.pitch, finger, hand, busy);
+      const ornament = this.costModel.evaluate('ornament', {
         hand,
-        handPosition: notes[i].pitch,
-        cost: state?.cost || 0,
-        parent: null,
-        reasons: state?.reasons || []
+        type: note.ornament.type,
+        pitches: ornamentRealizer.figure(note.ornament),
+        fingers: best.fingers
       });
       
-      if (state?.parent) {
-        const [, prevFinger] = state.parent.split('-');
-        currentFinger = parseInt(prevFinger) as Finger;
-      }
+      result.cost += ornament.cost;
+      result.reasons.push(...ornament.reasons);
+    });
+    
+    return result;
+  }
+
+  /**
+   * Fingerings of an ornament's figure with the written note on the given
+   * finger, cheapest first. Every other pitch takes a finger of its own,
+   * kept off fingers still holding chord tones when possible.
+   */
+  private rankOrnamentFingerings(
+    ornament: Ornament,
+    mainPitch: number,
+    mainFinger: Finger,
+    hand: Hand,
+    busy: Finger[]
+  ): { fingers: Finger[]; cost: number }[] {
+    const figure = ornamentRealizer.figure(ornament);
+    const held = [...new Set(busy)].sort();
+    const key = `${hand}:${ornament.type}:${figure.join(',')}:${mainPitch}:${mainFinger}:${held.join('')}`;
+    const cached = this.ornamentFingeringCache.get(key);
+    if (cached) return cached;
+    
+    const others = [...new Set(figure)].filter(pitch => pitch !== mainPitch);
+    const free = ([1, 2, 3, 4, 5] as Finger[]).filter(f => f !== mainFinger && !held.includes(f));
+    const pool = free.length >= others.length ? free : ([1, 2, 3, 4, 5] as Finger[]).filter(f => f !== mainFinger);
+    
+    // Every way to give the other pitches distinct fingers
+    let assignments: Map<number, Finger>[] = [new Map([[mainPitch, mainFinger]])];
+    for (const pitch of others) {
+      assignments = assignments.flatMap(assignment => pool
+        .filter(f => ![...assignment.values()].includes(f))
+        .map(f => new Map(assignment).set(pitch, f))
+      );
     }
     
-    return { fingering, totalCost: minFinalCost, path, explanations };
+    const ranked = this.costModel.unrecorded(() => assignments
+      .map(assignment => {
+        const fingers = figure.map(pitch => assignment.get(pitch)!);
+        const { cost } = this.costModel.evaluate('ornament', { hand, type: ornament.type, pitches: figure, fingers });
+        return { fingers, cost };
+      })
+      .sort((a, b) => a.cost - b.cost)
+    );
+    
+    this.ornamentFingeringCache.set(key, ranked);
+    return ranked;
+  }
+
+  /**
+   * Chord shape cost - span checks between adjacent chord tones
+   * The thumb opens wider than the other finger pairs
+   */
+  private computeChordShapeCost(pitches: number[], fingers: Finger[], hand: Hand): CostResult {
+    if (pitches.length < 2) return { cost: 0, reasons: [] };
+    
+    return this.costModel.evaluate('chordShape', {
+      hand,
+      pitches,
+      fingers,
+      naturalSpan: (finger1, finger2) => this.getNaturalSpan(hand, finger1, finger2),
+      handScale: this.handScale[hand]
+    });
+  }
+
+  /**
+   * Chord transition cost - movement of the whole hand shape
+   */
+  private computeChordTransitionCost(
+    prevPitches: number[], prevFingers: Finger[],
+    currPitches: number[], currFingers: Finger[],
+    patternContext: PatternType,
+    pace: number,
+    hand: Hand
+  ): CostResult {
+    // Hand shift: compare where the thumb sits for both shapes
+    const thumbShift = Math.abs(
+      this.estimateThumbPitch(currPitches, currFingers, hand) -
+      this.estimateThumbPitch(prevPitches, prevFingers, hand)
+    );
+    
+    const { cost, reasons } = this.costModel.evaluate('chordTransition', {
+      prevPitches, prevFingers, currPitches, currFingers, thumbShift, pace
+    });
+    
+    return {
+      cost: this.applyDifficultyAdjustment(cost, patternContext),
+      reasons: [...new Set(reasons)]
+    };
+  }
+
+  /**
+   * Estimate the pitch under the thumb for a hand shape
+   */
+  private estimateThumbPitch(pitches: number[], fingers: Finger[], hand: Hand): number {
+    let total = 0;
+    pitches.forEach((pitch, k) => {
+      const offset = fingers[k] === 1 ? 0 : this.getNaturalSpan(hand, 1, fingers[k]);
+      total += hand === 'RH' ? pitch - offset : pitch + offset;
+    });
+    return total / pitches.length;
   }
 
   /**
@@ -321,11 +1337,8 @@ export class FingeringPlanner {
     finger: Finger, 
     note: Note, 
     hand: Hand,
-    pos: { anchorPitch: number; inPosition: boolean }
+    pos: HandPosition
   ): CostResult {
-    let cost = 0;
-    const reasons: string[] = [];
-    
     // Calculate expected finger based on position relative to anchor
     const offset = note.pitch - pos.anchorPitch;
     let expectedFinger: Finger;
@@ -346,29 +1359,8 @@ export class FingeringPlanner {
       else expectedFinger = 5;
     }
     
-    // Strong reward for matching expected finger
-    if (finger === expectedFinger) {
-      cost -= 30;
-      reasons.push('Matches hand position');
-    } else {
-      // Penalty based on distance from expected
-      const diff = Math.abs(finger - expectedFinger);
-      cost += diff * 15;
-      reasons.push(`${diff} fingers from expected`);
-    }
-    
-    // Black key adjustment
-    if (this.isBlackKey(note.pitch)) {
-      if (finger === 1 || finger === 5) {
-        cost += 20;
-        reasons.push('Short finger on black key');
-      } else {
-        cost -= 5;
-        reasons.push('Long finger on black key');
-      }
-    }
-    
-    return { cost, reasons };
+    // Reward for the expected finger, black-key preference
+    return this.costModel.evaluate('initial', { hand, finger, pitch: note.pitch, expectedFinger });
   }
 
   /**
@@ -379,20 +1371,26 @@ export class FingeringPlanner {
     prevNote: Note, prevFinger: Finger,
     currNote: Note, currFinger: Finger,
     patternContext: PatternType,
+    pace: number,
+    keyStep: KeyFingeringStep | undefined,
+    runEnd: boolean,
     hand: Hand,
-    pos: { anchorPitch: number; inPosition: boolean; isScale: boolean }
+    pos: HandPosition
   ): CostResult {
-    let cost = 0;
-    const reasons: string[] = [];
-    
     const interval = currNote.pitch - prevNote.pitch;
     const absInterval = Math.abs(interval);
     const ascending = interval > 0;
-    const isStepwise = absInterval === 1 || absInterval === 2;
     
-    // SCALE MODE: Use thumb crossing logic
-    if (pos.isScale || patternContext === 'SCALE') {
-      return this.computeScaleTransitionCost(prevFinger, currFinger, ascending, hand, absInterval);
+    // Statistics learned from fingered editions apply in both modes
+    const learned = this.costModel.evaluate('step', {
+      hand, prevFinger, currFinger, currPitch: currNote.pitch, interval
+    });
+    
+    // SCALE MODE: Use thumb crossing logic; a recognized run of known key or chord decides
+    const scaleMode = keyStep ? keyStep.kind === 'scale' : pos.isScale || patternContext === 'SCALE';
+    if (scaleMode) {
+      const scale = this.computeScaleTransitionCost(prevFinger, currFinger, ascending, hand, absInterval, pace, runEnd, keyStep);
+      return { cost: scale.cost + learned.cost, reasons: [...scale.reasons, ...learned.reasons] };
     }
     
     // POSITION MODE: Use five-finger position mapping
@@ -413,201 +1411,52 @@ export class FingeringPlanner {
       else expectedFinger = 5;
     }
     
-    // Strong reward for matching expected finger in position
-    if (pos.inPosition && currFinger === expectedFinger) {
-      cost -= 40;
-      reasons.push('Correct finger for position');
-    } else if (pos.inPosition) {
-      const diff = Math.abs(currFinger - expectedFinger);
-      cost += diff * 20;
-      reasons.push(`Wrong finger for position`);
-    }
-    
-    // Natural finger progression
-    const fingerDiff = currFinger - prevFinger;
-    
-    if (hand === 'RH') {
-      if (ascending && fingerDiff > 0) {
-        cost -= 15;
-        reasons.push('Natural RH ascending');
-      } else if (!ascending && interval < 0 && fingerDiff < 0) {
-        cost -= 15;
-        reasons.push('Natural RH descending');
-      } else if (interval !== 0 && fingerDiff !== 0) {
-        if (prevFinger !== 1 && currFinger !== 1) {
-          cost += 50;
-          reasons.push('Unnatural finger crossing');
-        }
-      }
-    } else {
-      if (ascending && fingerDiff < 0) {
-        cost -= 15;
-        reasons.push('Natural LH ascending');
-      } else if (!ascending && interval < 0 && fingerDiff > 0) {
-        cost -= 15;
-        reasons.push('Natural LH descending');
-      } else if (interval !== 0 && fingerDiff !== 0) {
-        if (prevFinger !== 1 && currFinger !== 1) {
-          cost += 50;
-          reasons.push('Unnatural finger crossing');
-        }
-      }
-    }
-
-    // RULE 3: Span constraint
-    const naturalSpan = this.getNaturalSpan(prevFinger, currFinger);
-    const overStretch = absInterval - naturalSpan;
-    
-    if (overStretch > 4) {
-      cost += overStretch * 12;
-      reasons.push('Over-stretch');
-    } else if (overStretch > 2) {
-      cost += overStretch * 6;
-    }
-    
-    // RULE 4: Same finger on different pitch
-    if (currFinger === prevFinger && interval !== 0) {
-      cost += absInterval * 8;
-      reasons.push('Same finger leap');
-    }
-    
-    // RULE 5: Repeated note - use different finger
-    if (interval === 0 && currFinger === prevFinger) {
-      cost += 30;
-      reasons.push('Same finger on repeated note');
-    } else if (interval === 0 && currFinger !== prevFinger) {
-      cost -= 10;
-      reasons.push('Good finger change on repeat');
-    }
-    
-    // RULE 6: Validated transition bonus
-    const transKey = `${prevFinger}->${currFinger}`;
-    const transWeight = this.transitionWeights[transKey];
-    if (transWeight) {
-      if (transWeight > 500) {
-        cost -= 10;
-      } else if (transWeight > 300) {
-        cost -= 6;
-      } else if (transWeight > 100) {
-        cost -= 3;
-      }
-    }
-    
-    // RULE 7: Black key preference for long fingers
-    if (this.isBlackKey(currNote.pitch)) {
-      if (currFinger === 1 || currFinger === 5) {
-        cost += 25;
-        reasons.push('Short finger on black key');
-      } else {
-        cost -= 5;
-      }
-    }
-    
-    // RULE 8: Thumb crossing for scales
-    const isScaleContext = patternContext === 'SCALE' as PatternType;
-    if (isScaleContext) {
-      if (hand === 'RH') {
-        if (ascending && prevFinger === 3 && currFinger === 1) {
-          cost -= 20;
-          reasons.push('Good thumb under (3->1)');
-        } else if (!ascending && prevFinger === 1 && currFinger === 3) {
-          cost -= 20;
-          reasons.push('Good finger over (1->3)');
-        }
-      } else {
-        if (!ascending && prevFinger === 3 && currFinger === 1) {
-          cost -= 20;
-          reasons.push('Good thumb under (3->1)');
-        } else if (ascending && prevFinger === 1 && currFinger === 3) {
-          cost -= 20;
-          reasons.push('Good finger over (1->3)');
-        }
-      }
-    }
+    // Position, direction, span, repetition, transition frequency and black-key rules
+    const { cost, reasons } = this.costModel.evaluate('transition', {
+      hand,
+      prevFinger,
+      currFinger,
+      currPitch: currNote.pitch,
+      interval,
+      expectedFinger,
+      // An arpeggio of known chord crosses positions like a scale
+      inPosition: pos.inPosition && !keyStep,
+      inScale: patternContext === 'SCALE' as PatternType,
+      naturalSpan: this.getNaturalSpan(hand, prevFinger, currFinger),
+      handScale: this.handScale[hand],
+      pace,
+      keyStep
+    });
     
     // Apply difficulty adjustment
-    cost = this.applyDifficultyAdjustment(cost, patternContext);
-    
-    return { cost, reasons };
+    return {
+      cost: this.applyDifficultyAdjustment(cost, patternContext) + learned.cost,
+      reasons: [...reasons, ...learned.reasons]
+    };
   }
 
   /**
    * Special cost function for scale patterns
-   * Uses standard scale fingering: 1-2-3-1-2-3-4-5 (ascending RH)
+   * Uses the fingering of the scale's key, or 1-2-3-1-2-3-4-5 (ascending RH) when it is not known
    */
   private computeScaleTransitionCost(
     prevFinger: Finger, currFinger: Finger,
-    ascending: boolean, hand: Hand, interval: number
+    ascending: boolean, hand: Hand, interval: number, pace: number,
+    runEnd: boolean,
+    keyStep?: KeyFingeringStep
   ): CostResult {
-    let cost = 0;
-    const reasons: string[] = [];
-    
-    // Standard scale fingering patterns
-    // RH ascending: 1-2-3-1-2-3-4-5 (thumb under after 3)
-    // RH descending: 5-4-3-2-1-3-2-1 (finger over after 1)
-    // LH ascending: 5-4-3-2-1-3-2-1
-    // LH descending: 1-2-3-1-2-3-4-5
-    
-    const rhAscending = hand === 'RH' && ascending;
-    const rhDescending = hand === 'RH' && !ascending;
-    const lhAscending = hand === 'LH' && ascending;
-    const lhDescending = hand === 'LH' && !ascending;
-    
-    // Good scale transitions
-    const goodTransitions: [number, number][] = [];
-    
-    if (rhAscending || lhDescending) {
-      // 1-2-3-1-2-3-4-5 pattern
-      goodTransitions.push([1, 2], [2, 3], [3, 1], [3, 4], [4, 5]);
-    }
-    if (rhDescending || lhAscending) {
-      // 5-4-3-2-1-3-2-1 pattern
-      goodTransitions.push([5, 4], [4, 3], [3, 2], [2, 1], [1, 3], [1, 2]);
-    }
-    
-    // Check if current transition is good
-    const isGoodTransition = goodTransitions.some(
-      ([from, to]) => from === prevFinger && to === currFinger
-    );
-    
-    if (isGoodTransition) {
-      cost -= 30;
-      reasons.push('Standard scale fingering');
-    } else {
-      // Check for thumb crossing
-      if (prevFinger === 3 && currFinger === 1) {
-        cost -= 20;
-        reasons.push('Thumb under (3->1)');
-      } else if (prevFinger === 4 && currFinger === 1) {
-        cost -= 15;
-        reasons.push('Thumb under (4->1)');
-      } else if (prevFinger === 1 && currFinger === 3) {
-        cost -= 20;
-        reasons.push('Finger over (1->3)');
-      } else if (prevFinger === 1 && currFinger === 4) {
-        cost -= 10;
-        reasons.push('Finger over (1->4)');
-      } else {
-        // Non-standard transition
-        cost += 20;
-        reasons.push('Non-standard scale transition');
-      }
-    }
-    
-    // Penalize same finger
-    if (currFinger === prevFinger) {
-      cost += 40;
-      reasons.push('Same finger in scale');
-    }
-    
-    // Span check
-    const naturalSpan = this.getNaturalSpan(prevFinger, currFinger);
-    if (interval > naturalSpan + 2) {
-      cost += (interval - naturalSpan) * 10;
-      reasons.push('Over-stretch in scale');
-    }
-    
-    return { cost, reasons };
+    return this.costModel.evaluate('scale', {
+      hand,
+      prevFinger,
+      currFinger,
+      ascending,
+      absInterval: interval,
+      naturalSpan: this.getNaturalSpan(hand, prevFinger, currFinger),
+      handScale: this.handScale[hand],
+      pace,
+      runEnd,
+      keyStep
+    });
   }
 
   private getPatternContext(notes: Note[], index: number, patterns: PatternSegment[]): PatternType {
@@ -628,29 +1477,100 @@ export class FingeringPlanner {
     return 'UNKNOWN';
   }
 
-  private getNaturalSpan(finger1: Finger, finger2: Finger): number {
-    const key = `${Math.min(finger1, finger2)}-${Math.max(finger1, finger2)}`;
-    return this.naturalSpans[key] || 0;
+  private getNaturalSpan(hand: Hand, finger1: Finger, finger2: Finger): number {
+    return this.naturalSpanTables[hand][finger1][finger2];
+  }
+
+  // A stretch threshold tuned for an average hand, scaled to this hand
+  private stretchLimit(hand: Hand, averageLimit: number): number {
+    return averageLimit * this.handScale[hand];
   }
 
-  private isBlackKey(pitch: number): boolean {
-    const pitchClass = pitch % 12;
-    return [1, 3, 6, 8, 10].includes(pitchClass);
+  private buildSpanTable(scale: number): number[][] {
+    return [1, 2, 3, 4, 5].reduce((table, a) => {
+      table[a] = [0, 1, 2, 3, 4, 5].map(b => 
+        (this.naturalSpans[`${Math.min(a, b)}-${Math.max(a, b)}`] || 0) * scale
+      );
+      return table;
+    }, [] as number[][]);
   }
 
   private applyDifficultyAdjustment(cost: number, patternContext: PatternType): number {
+    const adjusted = cost * this.difficultyFactor(patternContext);
+    this.costModel.note('difficulty', adjusted - cost);
+    return adjusted;
+  }
+
+  private difficultyFactor(patternContext: PatternType): number {
     switch (this.difficultyLevel) {
       case 'beginner':
         if (patternContext === 'POLYPHONIC' || patternContext === 'ORNAMENTED') {
-          return cost * 1.3;
+          return 1.3;
         }
-        return cost * 1.1;
+        return 1.1;
       case 'advanced':
-        return cost * 0.9;
+        return 0.9;
       default:
-        return cost;
+        return 1;
     }
   }
 }
 
+interface HandPosition {
+  anchorPitch: number;
+  inPosition: boolean;
+  isScale: boolean;
+}
+
+// A vertical sonority of one hand with its tones ordered by pitch
+interface Sonority extends Chord {
+  indices: number[];
+  keyPitches: number[];
+  lockedFingers: (Finger | null)[];
+  // Finger a locked held note is substituted to
+  lockedRelease: Finger | null;
+}
+
+// How a sonority is played: the fingers that strike it and the fingers
+// holding it when the hand moves on, which differ after a substitution
+interface HandState {
+  fingers: Finger[];
+  release: Finger[];
+}
+
+interface SonorityState extends HandState {
+  cost: number;
+  parent: number;
+}
+
+// A state of the k-best search with its cheapest ways in, cheapest first
+interface RankedState extends HandState {
+  ways: RankedWay[];
+}
+
+interface RankedWay {
+  cost: number;
+  parent: number;
+  parentWay: number;
+}
+
+// Per-run planning context of one hand
+interface PlanContext {
+  hand: Hand;
+  sonorities: Sonority[];
+  handPositions: HandPosition[];
+  patternContexts: PatternType[];
+  // Joins into each sonority from the one before it
+  connections: Connection[];
+  // Speed of the step into each sonority, from its time in seconds
+  paces: number[];
+  // Conventional fingering of the step into each sonority, inside recognized scales and arpeggios
+  keySteps: (KeyFingeringStep | undefined)[];
+  // Whether each sonority is the last note of a melodic run
+  runEnds: boolean[];
+}
+
+// How the score joins a sonority to the one before it
+type Connection = Pick<ArticulationRuleContext, 'articulation' | 'detachedBy'>;
+
 export const fingeringPlanner = new FingeringPlanner();
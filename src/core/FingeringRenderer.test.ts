@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import type { EngravedScore, FingeringFont, FingeringPlacement, Finger, ParsedScore } from '@/types';
+import { musicXMLParser } from './MusicXMLParser';
+import { scoreEngraver } from './ScoreEngraver';
+import { FingeringRenderer, DEFAULT_FINGERING_FONT } from './FingeringRenderer';
+
+const DURATIONS: Record<string, number> = { whole: 16, half: 8, quarter: 4, eighth: 2, '16th': 1 };
+
+interface NoteOptions {
+  chord?: boolean;
+  type?: string;
+  notations?: string;
+}
+
+// One note of a test score, written like "C#5"
+function note(name: string, options: NoteOptions = {}): (staff: number) => string {
+  const [, step, accidental, octave] = /^([A-G])(#|b)?(\d)$/.exec(name)!;
+  const alter = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  const type = options.type ?? 'quarter';
+
+  return staff => `<note>${options.chord ? '<chord/>' : ''}` +
+    `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>` +
+    `<duration>${DURATIONS[type]}</duration><voice>${staff === 1 ? 1 : 5}</voice><type>${type}</type>` +
+    `<staff>${staff}</staff>${options.notations ? `<notations>${options.notations}</notations>` : ''}</note>`;
+}
+
+const chord = (names: string[], options: NoteOptions = {}) =>
+  names.map((name, k) => note(name, { ...options, chord: k > 0 }));
+
+// A grand staff score of 4/4 measures, each with its right and left hand notes
+function grandStaff(measures: [ReturnType<typeof note>[], ReturnType<typeof note>[]][]): ParsedScore {
+  const body = measures.map(([rh, lh], m) =>
+    `<measure number="${m + 1}">` +
+    (m === 0
+      ? '<attributes><divisions>4</divisions><key><fifths>0</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time>' +
+        '<staves>2</staves><clef number="1"><sign>G</sign><line>2</line></clef><clef number="2"><sign>F</sign><line>4</line></clef></attributes>'
+      : '') +
+    rh.map(n => n(1)).join('') +
+    '<backup><duration>16</duration></backup>' +
+    lh.map(n => n(2)).join('') +
+    '</measure>'
+  ).join('');
+
+  return musicXMLParser.parseXML(
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise version="4.0">' +
+    '<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>' +
+    `<part id="P1">${body}</part></score-partwise>`
+  );
+}
+
+// Every note fingered, with a substitution now and then for a wider label
+function finger(score: ParsedScore) {
+  score.notes.forEach((n, i) => {
+    if (n.isRest) return;
+    n.fingering = ((i % 5) + 1) as Finger;
+    if (i % 7 === 3) n.substitution = ((i + 1) % 5 + 1) as Finger;
+  });
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The line of the stack a label is centred on, as wide as its text or circle
+function labelBox(p: FingeringPlacement, font: FingeringFont, colorMode: boolean): Rect {
+  const size = parseFloat(p.style.fontSize) * 96 / 72;
+  const lineHeight = Math.round(font.size * 96 / 72);
+  const width = Math.max((p.substitution ? 3 : 1) * 0.55 * size, colorMode ? 1.1 * size : 0);
+  return { x: p.x - width / 2, y: p.y - lineHeight / 2, width, height: lineHeight };
+}
+
+// Touching edges are allowed; rounding of the engraved boxes is not an overlap
+const overlaps = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width - 0.01 && b.x < a.x + a.width - 0.01 &&
+  a.y < b.y + b.height - 0.01 && b.y < a.y + a.height - 0.01;
+
+function place(score: ParsedScore, font = DEFAULT_FINGERING_FONT, colorMode = false) {
+  const engraving = scoreEngraver.engrave(score);
+  const renderer = new FingeringRenderer();
+  renderer.setColorMode(colorMode);
+  const placements = renderer.calculatePlacements(score.notes, engraving, font);
+  return { engraving, placements };
+}
+
+function collisions(engraving: EngravedScore, placements: FingeringPlacement[], font: FingeringFont, colorMode: boolean): string[] {
+  const systemOf = new Map(engraving.notes.map(n => [n.noteIndex, n.system]));
+  const labels = placements.map(p => ({ p, system: systemOf.get(p.noteIndex), box: labelBox(p, font, colorMode) }));
+  const found: string[] = [];
+
+  labels.forEach(({ p, system, box }, i) => {
+    engraving.obstacles
+      .filter(o => o.system === system && overlaps(box, o))
+      .forEach(o => found.push(`finger of note ${p.noteIndex} on a ${o.kind}`));
+    
+    labels.slice(i + 1)
+      .filter(other => other.system === system && overlaps(box, other.box))
+      .forEach(other => found.push(`fingers of notes ${p.noteIndex} and ${other.p.noteIndex}`));
+  });
+
+  return found;
+}
+
+function expectClear(score: ParsedScore, font = DEFAULT_FINGERING_FONT, colorMode = false) {
+  finger(score);
+  const { engraving, placements } = place(score, font, colorMode);
+
+  // Every head is an obstacle, so a missing one cannot hide an overlap
+  const heads = engraving.obstacles.filter(o => o.kind === 'notehead');
+  const uncovered = engraving.notes.filter(n => !heads.some(o =>
+    o.system === n.system && n.x >= o.x && n.x <= o.x + o.width && n.y >= o.y && n.y <= o.y + o.height
+  ));
+  expect(uncovered).toEqual([]);
+
+  expect(placements).toHaveLength(score.notes.filter(n => !n.isRest).length);
+  expect(collisions(engraving, placements, font, colorMode)).toEqual([]);
+  return { engraving, placements };
+}
+
+describe('FingeringRenderer.calculatePlacements', () => {
+  it('keeps dense chords and clusters clear of heads, stems, beams and each other', () => {
+    const score = grandStaff([
+      [
+        [...chord(['C5', 'D5', 'E5', 'F5', 'G5']), ...chord(['B4', 'C5', 'D5'], { type: 'eighth' }), ...chord(['A4', 'B4', 'C#5'], { type: 'eighth' }), ...chord(['E4', 'G4', 'C5', 'E5'], { type: 'half' })],
+        [...chord(['C3', 'E3', 'G3', 'C4']), ...chord(['D3', 'E3', 'F3'], { type: 'eighth' }), ...chord(['G2', 'A2', 'B2'], { type: 'eighth' }), ...chord(['C2', 'G2', 'E3'], { type: 'half' })]
+      ],
+      [
+        [...chord(['F#4', 'G4', 'A4', 'Bb4'], { type: 'half' }), ...chord(['C5', 'Eb5', 'F5', 'G5'], { type: 'half' })],
+        [...chord(['Bb2', 'C3', 'D3', 'Eb3'], { type: 'half' }), ...chord(['F2', 'Ab2', 'C3'], { type: 'half' })]
+      ]
+    ]);
+    
+    const { placements } = expectClear(score);
+    
+    // A chord's fingers stack one above the other at its column
+    const columns = new Set(placements.filter(p => p.noteIndex < 5).map(p => p.x));
+    expect(columns.size).toBe(1);
+  });
+
+  it('keeps fingers of notes on ledger lines clear of the ledgers', () => {
+    const score = grandStaff([
+      [
+        [note('A5'), note('C6'), note('E6'), note('G6')],
+        [note('E2'), note('C2'), note('A1'), note('F1')]
+      ],
+      [
+        [...chord(['A5', 'C6', 'E6'], { type: 'half' }), note('C4'), note('A3')],
+        [...chord(['C2', 'E2', 'G2'], { type: 'half' }), note('E4'), note('G4')]
+      ]
+    ]);
+    
+    const { engraving } = expectClear(score);
+    expect(engraving.obstacles.some(o => o.kind === 'ledger')).toBe(true);
+  });
+
+  it('keeps fingers clear of slurs over and under the notes', () => {
+    const start = '<slur type="start" number="1"/>';
+    const stop = '<slur type="stop" number="1"/>';
+    const score = grandStaff([
+      [
+        [note('C5', { notations: start }), note('E5'), note('G5'), note('C6', { notations: stop })],
+        [note('C3', { notations: start }), note('G2'), note('E2'), note('C2', { notations: stop })]
+      ],
+      [
+        [note('B5', { type: 'eighth', notations: start }), note('G5', { type: 'eighth' }), note('E5', { type: 'eighth' }), note('C5', { type: 'eighth', notations: stop }), note('D4', { type: 'half' })],
+        [note('G3', { type: 'eighth', notations: start }), note('B3', { type: 'eighth' }), note('D4', { type: 'eighth' }), note('F4', { type: 'eighth', notations: stop }), note('G2', { type: 'half' })]
+      ]
+    ]);
+    
+    const { engraving } = expectClear(score);
+    expect(engraving.obstacles.some(o => o.kind === 'slur')).toBe(true);
+  });
+
+  it('keeps fingers clear of staccato dots and accents', () => {
+    const staccato = '<articulations><staccato/></articulations>';
+    const accent = '<articulations><accent/></articulations>';
+    const both = '<articulations><accent/><staccato/></articulations>';
+    const score = grandStaff([
+      [
+        [note('G4', { notations: staccato }), note('A4', { notations: accent }), ...chord(['C5', 'E5'], { notations: both }), note('D6', { notations: staccato })],
+        [note('C3', { notations: accent }), note('D3', { notations: staccato }), ...chord(['E2', 'G2'], { notations: both }), note('F4', { notations: accent })]
+      ],
+      [
+        [note('F5', { type: 'eighth', notations: `<slur type="start" number="1"/>${staccato}` }), note('E5', { type: 'eighth', notations: staccato }), note('D5', { type: 'eighth', notations: staccato }), note('C5', { type: 'eighth', notations: `<slur type="stop" number="1"/>${staccato}` }), note('B4', { type: 'half', notations: accent })],
+        [note('A2', { type: 'eighth', notations: `<slur type="start" number="1"/>${accent}` }), note('B2', { type: 'eighth', notations: accent }), note('C3', { type: 'eighth', notations: accent }), note('D3', { type: 'eighth', notations: `<slur type="stop" number="1"/>${accent}` }), note('E3', { type: 'half', notations: staccato })]
+      ]
+    ]);
+    
+    const { engraving } = expectClear(score);
+    expect(engraving.obstacles.some(o => o.kind === 'articulation')).toBe(true);
+  });
+
+  it('stays clear with a large font and circled color-mode labels', () => {
+    const score = grandStaff([
+      [
+        [...chord(['C5', 'D5', 'E5'], { notations: '<articulations><staccato/></articulations>' }), note('A5'), note('C6'), note('E6')],
+        [...chord(['C2', 'D2', 'E2']), note('C3'), note('E3'), note('G3')]
+      ]
+    ]);
+    
+    expectClear(score, { family: 'serif', size: 16 }, true);
+  });
+});
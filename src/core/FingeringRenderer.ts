@@ -1,8 +1,53 @@
-import type { Note, Finger, FingeringPlacement, Hand } from '@/types';
+import type { Note, Finger, FingeringPlacement, FingeringFont, EngravedScore, EngravedNote } from '@/types';
+
+export const DEFAULT_FINGERING_FONT: FingeringFont = { family: 'Times New Roman, serif', size: 11 };
+
+// CSS pixels per point
+const PX_PER_PT = 96 / 72;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Boxes of one engraving bucketed by system and x, so a fingering only checks its neighbours
+class BoxIndex {
+  private readonly bucketWidth = 50;
+  private readonly buckets = new Map<string, Box[]>();
+
+  add(system: number, box: Box) {
+    for (let b = Math.floor(box.x / this.bucketWidth); b <= Math.floor((box.x + box.width) / this.bucketWidth); b++) {
+      const key = `${system}|${b}`;
+      if (!this.buckets.has(key)) this.buckets.set(key, []);
+      this.buckets.get(key)!.push(box);
+    }
+  }
+
+  overlapping(system: number, box: Box): Box[] {
+    const hits: Box[] = [];
+    for (let b = Math.floor(box.x / this.bucketWidth); b <= Math.floor((box.x + box.width) / this.bucketWidth); b++) {
+      this.buckets.get(`${system}|${b}`)?.forEach(other => {
+        if (other.x < box.x + box.width && box.x < other.x + other.width &&
+            other.y < box.y + box.height && box.y < other.y + other.height) {
+          hits.push(other);
+        }
+      });
+    }
+    return hits;
+  }
+}
 
 /**
  * Layer 3: Fingering Placement & Rendering
- * Handles visual positioning of fingering numbers
+ * Places fingering numbers against the engraved notes the way printed piano
+ * music does: above the notes of the upper staff and below those of the
+ * lower one, centred on the chord, one finger per line in pitch order with
+ * the top finger for the top note. Each stack starts at the notes and moves
+ * away from the staff until it clears the staff, noteheads, stems, beams,
+ * flags, accidentals, ledger lines, ties, slurs, articulations and the
+ * fingerings placed before it.
  */
 export class FingeringRenderer {
   private colorMode: boolean = false;
@@ -20,38 +65,90 @@ export class FingeringRenderer {
     this.colorMode = enabled;
   }
 
-  calculatePlacements(notes: Note[]): FingeringPlacement[] {
-    const placements: FingeringPlacement[] = [];
+  calculatePlacements(notes: Note[], engraving: EngravedScore, font: FingeringFont = DEFAULT_FINGERING_FONT): FingeringPlacement[] {
+    // Stacked chord fingers lie a line of the font apart
+    const lineHeight = Math.round(font.size * PX_PER_PT);
+    const clearance = Math.round(lineHeight / 5);
+    const engraved = new Map(engraving.notes.map(e => [e.noteIndex, e]));
+    const taken = new BoxIndex();
+    engraving.obstacles.forEach(o => taken.add(o.system, o));
     
+    // Fingered notes struck together on one staff share a stack
+    const stacks = new Map<string, { note: Note; index: number; engraved: EngravedNote }[]>();
     notes.forEach((note, index) => {
-      if (note.fingering && !note.isRest) {
-        const placement = this.calculateSinglePlacement(note, index);
-        placements.push(placement);
+      const e = engraved.get(index);
+      if (!note.fingering || note.isRest || !e) return;
+      
+      const key = `${e.system}|${e.staff}|${e.column}|${this.determineVerticalPlacement(note)}`;
+      if (!stacks.has(key)) stacks.set(key, []);
+      stacks.get(key)!.push({ note, index, engraved: e });
+    });
+    
+    // Left to right, each stack keeping clear of the ones before
+    const ordered = [...stacks.values()].sort((a, b) =>
+      a[0].engraved.system - b[0].engraved.system || a[0].engraved.column - b[0].engraved.column
+    );
+    
+    const placements: FingeringPlacement[] = [];
+    ordered.forEach(stack => {
+      const placement = this.determineVerticalPlacement(stack[0].note);
+      const above = placement === 'above';
+      const { system, column } = stack[0].engraved;
+      // The note nearest the staff gets the finger nearest the staff
+      stack.sort((a, b) => above ? a.note.pitch - b.note.pitch : b.note.pitch - a.note.pitch);
+      
+      // The stack with a little air at its sides and on its staff side
+      const width = Math.max(...stack.map(({ note }) => this.labelWidth(note, font))) + 2 * clearance;
+      const height = stack.length * lineHeight + clearance;
+      const ys = stack.map(s => s.engraved.y);
+      let edge = above ? Math.min(...ys) : Math.max(...ys);
+      const boxAt = (at: number): Box => ({ x: column - width / 2, y: above ? at - height : at, width, height });
+      
+      // Past the farthest thing in the way, until nothing is; every step moves away from the staff
+      for (let hits = taken.overlapping(system, boxAt(edge)); hits.length > 0; hits = taken.overlapping(system, boxAt(edge))) {
+        edge = above ? Math.min(...hits.map(h => h.y)) : Math.max(...hits.map(h => h.y + h.height));
       }
+      taken.add(system, boxAt(edge));
+      edge += above ? -clearance : clearance;
+      
+      stack.forEach(({ note, index }, level) => {
+        placements.push(this.calculateSinglePlacement(note, index, column, edge, placement, level, lineHeight, font));
+      });
     });
+    placements.sort((a, b) => a.noteIndex - b.noteIndex);
     
-    return this.resolveCollisions(placements);
+    return placements;
   }
 
-  private calculateSinglePlacement(note: Note, index: number): FingeringPlacement {
-    // Determine vertical placement based on hand/staff
-    const placement = this.determineVerticalPlacement(note);
-    
-    // Calculate base position
-    const x = this.calculateXPosition(note, index);
-    const y = this.calculateYPosition(note, placement);
-    
-    // Determine style
-    const style = this.determineStyle(note);
+  // Room a finger label takes across, with its circle in color mode
+  private labelWidth(note: Note, font: FingeringFont): number {
+    const size = parseFloat(this.determineStyle(note, font).fontSize) * PX_PER_PT;
+    const characters = note.substitution ? 3 : 1;
+    return Math.max(characters * 0.55 * size, this.colorMode ? 1.1 * size : 0);
+  }
+
+  // Level 0 lies just clear of the stack's edge, further levels away from the staff
+  private calculateSinglePlacement(
+    note: Note, 
+    index: number, 
+    x: number, 
+    edge: number, 
+    placement: 'above' | 'below', 
+    level: number,
+    lineHeight: number,
+    font: FingeringFont
+  ): FingeringPlacement {
+    const offset = (level + 0.5) * lineHeight;
     
     return {
       noteIndex: index,
       finger: note.fingering!,
+      substitution: note.substitution,
       x,
-      y,
+      y: placement === 'above' ? edge - offset : edge + offset,
       placement,
       hand: note.hand,
-      style
+      style: this.determineStyle(note, font)
     };
   }
 
@@ -74,58 +171,32 @@ export class FingeringRenderer {
     return note.hand === 'RH' ? 'above' : 'below';
   }
 
-  private calculateXPosition(note: Note, index: number): number {
-    // Base position centered on note
-    // In actual rendering, this would be calculated from SVG coordinates
-    return index * 30 + 50;
-  }
-
-  private calculateYPosition(note: Note, placement: 'above' | 'below'): number {
-    // Calculate Y based on pitch and placement
-    // Middle C (60) is at y = 200 (example)
-    const baseY = 200 - (note.pitch - 60) * 5;
-    const offset = placement === 'above' ? -20 : 20;
-    return baseY + offset;
-  }
-
-  private determineStyle(note: Note): FingeringPlacement['style'] {
+  private determineStyle(note: Note, font: FingeringFont): FingeringPlacement['style'] {
     const finger = note.fingering!;
+    const size = note.isGrace ? Math.round(font.size * 0.8 * 10) / 10 : font.size;
     
     return {
-      fontSize: note.isGrace ? '9pt' : '11pt',
+      fontFamily: font.family,
+      fontSize: `${size}pt`,
       fontWeight: note.hasAccent ? '600' : '400',
       color: this.colorMode ? this.fingerColors[finger] : '#000000'
     };
   }
 
-  private resolveCollisions(placements: FingeringPlacement[]): FingeringPlacement[] {
-    const minHorizontalGap = 15;
-    const minVerticalGap = 12;
-    
-    for (let i = 1; i < placements.length; i++) {
-      const prev = placements[i - 1];
-      const curr = placements[i];
-      
-      const horizontalDist = Math.abs(curr.x - prev.x);
-      const verticalDist = Math.abs(curr.y - prev.y);
-      
-      // Check for collision
-      if (horizontalDist < minHorizontalGap && verticalDist < minVerticalGap) {
-        // Offset current placement
-        if (curr.placement === 'above') {
-          curr.y -= minVerticalGap - verticalDist;
-        } else {
-          curr.y += minVerticalGap - verticalDist;
-        }
-      }
-    }
-    
-    return placements;
-  }
-
   // Generate SVG for fingering display
   renderFingeringSVG(placements: FingeringPlacement[], width: number, height: number): string {
-    let svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">`;
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">${this.renderFingerings(placements)}</svg>`;
+  }
+
+  // The engraved score with its fingerings on top
+  renderScoreSVG(engraving: EngravedScore, placements: FingeringPlacement[]): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${engraving.width} ${engraving.height}">` +
+      `${engraving.svg}${this.renderFingerings(placements)}</svg>`;
+  }
+
+  // Fingering numbers alone, in the coordinates of the engraving they were placed on
+  renderFingerings(placements: FingeringPlacement[]): string {
+    let svg = '';
     
     placements.forEach(p => {
       if (this.colorMode) {
@@ -134,7 +205,7 @@ export class FingeringRenderer {
           <circle 
             cx="${p.x}" 
             cy="${p.y}" 
-            r="8" 
+            r="${Math.round(parseFloat(p.style.fontSize) * PX_PER_PT * 0.55)}" 
             fill="${this.fingerColors[p.finger]}20"
             stroke="${p.style.color}"
             stroke-width="1"
@@ -143,18 +214,19 @@ export class FingeringRenderer {
       
       svg += `
         <text 
+          class="fingering"
+          data-note="${p.noteIndex}"
           x="${p.x}" 
           y="${p.y}" 
           text-anchor="middle" 
           dominant-baseline="central"
-          font-family="Times New Roman, serif"
+          font-family="${p.style.fontFamily}"
           font-size="${p.style.fontSize}"
           font-weight="${p.style.fontWeight}"
           fill="${p.style.color}"
-        >${p.finger}</text>`;
+        >${p.finger}${p.substitution ? `-${p.substitution}` : ''}</text>`;
     });
     
-    svg += '</svg>';
     return svg;
   }
 
@@ -163,6 +235,11 @@ export class FingeringRenderer {
     return this.colorMode ? this.fingerColors[finger] : '#000000';
   }
 
+  // Color of a note under the playback cursor, by its finger in either mode
+  getHighlightColor(finger?: Finger): string {
+    return finger ? this.fingerColors[finger] : '#C2185B';
+  }
+
   // Get finger name
   getFingerName(finger: Finger): string {
     const names: Record<Finger, string> = {
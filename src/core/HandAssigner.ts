@@ -0,0 +1,223 @@
+import type { Note, Hand } from '@/types';
+
+/**
+ * Hand assignment pass between parsing and pattern recognition
+ *
+ * The parser maps staves to hands. This pass moves notes the staff
+ * mapping gets wrong, in order of how certain the evidence is:
+ * 1. Explicit directions (m.d./m.g., r.h./l.h.) always win
+ * 2. Cross-staff voices stay with the hand that plays the rest of the voice
+ * 3. Chords wider than one hand can reach give their outer tone away
+ * 4. Lone notes far from their own hand but next to the idle other hand
+ */
+export class HandAssigner {
+  // Widest chord one hand is expected to grip (a ninth)
+  private readonly maxReach = 14;
+
+  // A voice belongs to a hand when this share of its notes sits on that hand's staves
+  private readonly voiceMajority = 0.8;
+
+  /**
+   * Reassign hands in place and return the notes that moved
+   * Running it again starts over from the staff mapping
+   */
+  assignHands(notes: Note[]): Note[] {
+    // Undo a previous pass
+    notes.forEach(note => {
+      if (note.handReassigned) {
+        note.hand = note.handReassigned.from;
+        note.handReassigned = undefined;
+      }
+    });
+    
+    this.applyDirections(notes);
+    this.applyVoiceContinuity(notes);
+    this.applyReachability(notes);
+    this.applyRegisterContinuity(notes);
+    
+    return notes.filter(n => n.handReassigned);
+  }
+
+  private applyDirections(notes: Note[]) {
+    notes.forEach(note => {
+      if (note.handDirection && note.handDirection !== note.hand) {
+        const marking = note.handDirection === 'RH' ? 'm.d./r.h.' : 'm.g./l.h.';
+        this.reassign(note, note.handDirection, `Marked ${marking}`);
+      }
+    });
+  }
+
+  /**
+   * Cross-staff notes: a voice that lives on one hand's staff and dips
+   * into the other staff is still played by the same hand
+   */
+  private applyVoiceContinuity(notes: Note[]) {
+    const voiceCounts = new Map<string, { RH: number; LH: number }>();
+    const sharedVoices = this.findSharedVoices(notes);
+    
+    notes.forEach(note => {
+      const key = this.voiceKey(note);
+      const counts = voiceCounts.get(key) || { RH: 0, LH: 0 };
+      counts[note.hand]++;
+      voiceCounts.set(key, counts);
+    });
+    
+    notes.forEach(note => {
+      if (note.handDirection || sharedVoices.has(this.voiceKey(note))) return;
+      
+      const counts = voiceCounts.get(this.voiceKey(note))!;
+      const total = counts.RH + counts.LH;
+      const home: Hand = counts.RH >= counts.LH ? 'RH' : 'LH';
+      
+      if (home !== note.hand && counts[home] / total >= this.voiceMajority) {
+        this.reassign(note, home, 'Cross-staff voice');
+      }
+    });
+  }
+
+  /**
+   * Some exporters number voices per staff, so the same voice number is
+   * struck on two staves at once. Such voice numbers say nothing about hands.
+   */
+  private findSharedVoices(notes: Note[]): Set<string> {
+    const shared = new Set<string>();
+    
+    for (const group of this.groupByOnset(notes)) {
+      const staffByVoice = new Map<string, number>();
+      group.forEach(note => {
+        const key = this.voiceKey(note);
+        const staff = staffByVoice.get(key);
+        if (staff !== undefined && staff !== note.staff && !note.isChord) {
+          shared.add(key);
+        }
+        staffByVoice.set(key, note.staff);
+      });
+    }
+    
+    return shared;
+  }
+
+  /**
+   * A hand cannot grip more than maxReach: hand the outer tone nearest the
+   * other hand over when the other hand can take it. Stems pointing towards
+   * the other hand mark the preferred tone.
+   */
+  private applyReachability(notes: Note[]) {
+    for (const group of this.groupByOnset(notes)) {
+      for (const hand of ['RH', 'LH'] as Hand[]) {
+        const other: Hand = hand === 'RH' ? 'LH' : 'RH';
+        
+        while (true) {
+          const own = group.filter(n => n.hand === hand);
+          if (own.length < 2 || this.span(own) <= this.maxReach) break;
+          
+          const candidate = this.pickOuterTone(own, hand);
+          if (!candidate) break;
+          
+          const otherNotes = group.filter(n => n.hand === other);
+          if (this.span([...otherNotes, candidate]) > this.maxReach) break;
+          
+          this.reassign(candidate, other, `Out of ${hand} reach`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Passages where one hand plays in the other's staff: a note far from where
+   * its own hand just was, but right next to the idle other hand
+   */
+  private applyRegisterContinuity(notes: Note[]) {
+    const lastPitch: Record<Hand, number | null> = { RH: null, LH: null };
+    
+    for (const group of this.groupByOnset(notes)) {
+      const hands = new Set(group.map(n => n.hand));
+      
+      if (hands.size === 1) {
+        const hand = group[0].hand;
+        const other: Hand = hand === 'RH' ? 'LH' : 'RH';
+        const ownLast = lastPitch[hand];
+        const otherLast = lastPitch[other];
+        const movable = group.every(n => !n.handDirection && !n.handReassigned);
+        
+        if (movable && ownLast !== null && otherLast !== null) {
+          const ownDistance = Math.max(...group.map(n => Math.abs(n.pitch - ownLast)));
+          const otherDistance = Math.max(...group.map(n => Math.abs(n.pitch - otherLast)));
+          const stemAgrees = group.every(n => !n.stem || n.stem === this.stemTowards(other));
+          
+          if (ownDistance >= 12 && otherDistance <= 4 && stemAgrees && this.span(group) <= this.maxReach) {
+            group.forEach(n => this.reassign(n, other, `Closer to ${other} position`));
+          }
+        }
+      }
+      
+      for (const hand of ['RH', 'LH'] as Hand[]) {
+        const own = group.filter(n => n.hand === hand);
+        if (own.length > 0) {
+          // Track the thumb-side tone as the hand's position
+          const pitches = own.map(n => n.pitch);
+          lastPitch[hand] = hand === 'RH' ? Math.min(...pitches) : Math.max(...pitches);
+        }
+      }
+    }
+  }
+
+  private pickOuterTone(own: Note[], hand: Hand): Note | null {
+    const other: Hand = hand === 'RH' ? 'LH' : 'RH';
+    const free = own.filter(n => !n.handDirection);
+    if (free.length === 0) return null;
+    
+    // RH gives away its lowest tones, LH its highest
+    const sorted = [...free].sort((a, b) => hand === 'RH' ? a.pitch - b.pitch : b.pitch - a.pitch);
+    const extreme = sorted[0].pitch;
+    const candidates = sorted.filter(n => n.pitch === extreme);
+    
+    return candidates.find(n => n.stem === this.stemTowards(other)) ?? candidates[0];
+  }
+
+  // Notes the other hand plays in a shared staff are usually stemmed towards it
+  private stemTowards(hand: Hand): 'up' | 'down' {
+    return hand === 'RH' ? 'up' : 'down';
+  }
+
+  private groupByOnset(notes: Note[]): Note[][] {
+    const groups: Note[][] = [];
+    
+    notes.forEach(note => {
+      if (note.isGrace) return;
+      
+      const current = groups[groups.length - 1];
+      if (current && current[0].measureNumber === note.measureNumber &&
+          Math.abs(current[0].beat - note.beat) < 1e-6) {
+        current.push(note);
+      } else {
+        groups.push([note]);
+      }
+    });
+    
+    return groups;
+  }
+
+  private span(notes: Note[]): number {
+    const pitches = notes.map(n => n.pitch);
+    return Math.max(...pitches) - Math.min(...pitches);
+  }
+
+  private voiceKey(note: Note): string {
+    return `${note.partId}-${note.voice}`;
+  }
+
+  private reassign(note: Note, hand: Hand, reason: string) {
+    if (note.hand === hand) return;
+    
+    note.handReassigned = note.handReassigned ?? { from: note.hand, reason };
+    note.hand = hand;
+    
+    // Moved back to where the staff put it
+    if (note.handReassigned.from === hand) {
+      note.handReassigned = undefined;
+    }
+  }
+}
+
+export const handAssigner = new HandAssigner();
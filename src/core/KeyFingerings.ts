@@ -0,0 +1,245 @@
+import type { Finger, Hand, Note, PatternSegment, PatternFeatures, MeasureInfo } from '@/types';
+
+// A conventional fingering, finger by pitch class (0 = C)
+export interface KeyFingeringTable {
+  name: string;
+  kind: 'scale' | 'arpeggio';
+  fingers: (Finger | undefined)[];
+}
+
+// A note of a run aligned to a table
+export interface KeyFinger {
+  table: KeyFingeringTable;
+  finger: Finger;
+}
+
+type ScaleMode = 'major' | 'minor';
+
+// One octave from the tonic up, by tonic pitch class; the octave takes the tonic's finger again
+const SCALE_FINGERS: Record<ScaleMode, Record<Hand, string[]>> = {
+  major: {
+    RH: [
+      '1231234', '2312341', '1231234', '3123412', '1231234', '1234123',
+      '2341231', '1231234', '3412312', '1231234', '4123123', '1231234'
+    ],
+    LH: [
+      '1432132', '3214321', '1432132', '3214321', '1432132', '1432132',
+      '4321321', '1432132', '3214321', '1432132', '3214321', '1321432'
+    ]
+  },
+  // Harmonic minor
+  minor: {
+    RH: [
+      '1231234', '3412312', '1231234', '3123412', '1231234', '1234123',
+      '3412312', '1231234', '3412312', '1231234', '4123123', '1231234'
+    ],
+    LH: [
+      '1432132', '3214321', '1432132', '2143213', '1432132', '1432132',
+      '4321321', '1432132', '3214321', '1432132', '2132143', '1321432'
+    ]
+  }
+};
+
+const SCALE_STEPS: Record<ScaleMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 11]
+};
+
+// 3 on black keys, 1 on white ones, 2 where two white keys meet
+const CHROMATIC_FINGERS: Record<Hand, string> = {
+  RH: '231312313131',
+  LH: '131321313132'
+};
+
+const TRIADS: { quality: string; intervals: [number, number] }[] = [
+  { quality: 'major', intervals: [4, 3] },
+  { quality: 'minor', intervals: [3, 4] },
+  { quality: 'diminished', intervals: [3, 3] },
+  { quality: 'augmented', intervals: [4, 4] }
+];
+
+const INVERSIONS = ['root position', 'first inversion', 'second inversion'];
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const isBlack = (pc: number) => [1, 3, 6, 8, 10].includes(pc);
+
+/**
+ * Conventional scale and arpeggio fingerings
+ *
+ * Scales use the fingerings taught for every major and harmonic minor key
+ * and the chromatic scale. Arpeggios put the thumb on the bass note of the
+ * inversion, or on the next white key when the bass is black, with 3 or 4
+ * on the third tone depending on how far it lies from the thumb.
+ */
+export class KeyFingerings {
+  // Share of a run's notes that must belong to the scale or chord it is matched to
+  private readonly minCoverage = 0.9;
+  private readonly tables = new Map<string, KeyFingeringTable>();
+
+  /**
+   * Table finger of every note of a hand part that lies in a recognized
+   * scale or arpeggio run, by note id
+   */
+  align(notes: Note[], hand: Hand, patterns: PatternSegment[], measures: MeasureInfo[] = []): Map<string, KeyFinger> {
+    const result = new Map<string, KeyFinger>();
+    const keySignatures = new Map(measures.map(m => [m.number, m.keySignature]));
+    
+    for (const segment of patterns) {
+      if (segment.hand !== hand) continue;
+      if (segment.patternType !== 'SCALE' && segment.patternType !== 'ARPEGGIO') continue;
+      
+      const run = notes.slice(segment.startIndex, segment.endIndex + 1).filter(n => !n.isRest);
+      if (run.length < 3) continue;
+      
+      const fifths = keySignatures.get(run[0].measureNumber) ?? 0;
+      const table = segment.patternType === 'SCALE'
+        ? this.matchScale(run, hand, fifths, segment.features)
+        : this.matchArpeggio(run, hand, fifths);
+      if (!table) continue;
+      
+      for (const note of run) {
+        const finger = table.fingers[note.pitch % 12];
+        // Overlapping runs keep the first match
+        if (finger && !result.has(note.id)) result.set(note.id, { table, finger });
+      }
+    }
+    
+    return result;
+  }
+
+  /**
+   * Fingers of a scale, by pitch class
+   */
+  scale(tonic: number, mode: ScaleMode, hand: Hand): KeyFingeringTable {
+    const signature = this.signatureOf(mode === 'major' ? tonic : (tonic + 3) % 12);
+    const name = `${this.noteName(tonic, signature)} ${mode} scale`;
+    
+    return this.cached(`${hand}:${name}`, () => {
+      const fingers: (Finger | undefined)[] = new Array(12);
+      SCALE_STEPS[mode].forEach((step, degree) => {
+        fingers[(tonic + step) % 12] = Number(SCALE_FINGERS[mode][hand][tonic][degree]) as Finger;
+      });
+      return { name, kind: 'scale', fingers };
+    });
+  }
+
+  chromatic(hand: Hand): KeyFingeringTable {
+    return this.cached(`${hand}:chromatic`, () => ({
+      name: 'chromatic scale',
+      kind: 'scale',
+      fingers: [...CHROMATIC_FINGERS[hand]].map(d => Number(d) as Finger)
+    }));
+  }
+
+  /**
+   * Fingers of a triad arpeggio, by pitch class, from the tones in
+   * ascending order starting at the root and the tone in the bass
+   */
+  arpeggio(tones: [number, number, number], bass: number, quality: string, hand: Hand, fifths = 0): KeyFingeringTable {
+    const inversion = Math.max(tones.indexOf(bass), 0);
+    const name = `${this.noteName(tones[0], fifths)} ${quality} arpeggio, ${INVERSIONS[inversion]}`;
+    
+    return this.cached(`${hand}:${name}`, () => {
+      // Tones upwards from the bass; the thumb takes the first white one
+      const upwards = [0, 1, 2].map(k => tones[(inversion + k) % 3]);
+      const thumb = Math.max(upwards.findIndex(pc => !isBlack(pc)), 0);
+      const [t0, t1, t2] = [0, 1, 2].map(k => upwards[(thumb + k) % 3]);
+      const span = (from: number, to: number) => (to - from + 12) % 12 || 12;
+      
+      const fingers: (Finger | undefined)[] = new Array(12);
+      fingers[t0] = 1;
+      if (hand === 'RH') {
+        fingers[t1] = 2;
+        fingers[t2] = span(t0, t2) <= 7 ? 3 : 4;
+      } else {
+        fingers[t1] = span(t1, t0) <= 7 ? 3 : 4;
+        fingers[t2] = 2;
+      }
+      return { name, kind: 'arpeggio', fingers };
+    });
+  }
+
+  /**
+   * The major or harmonic minor scale holding the most of the run, closest
+   * to the key signature; the recognizer's scale type and a tonic at either
+   * end of the run decide between keys that hold it equally well
+   */
+  private matchScale(run: Note[], hand: Hand, fifths: number, features: PatternFeatures): KeyFingeringTable | null {
+    if (features.scaleType === 'chromatic') return this.chromatic(hand);
+    
+    const ends = new Set([run[0].pitch % 12, run[run.length - 1].pitch % 12]);
+    let best: { table: KeyFingeringTable; score: number[] } | null = null;
+    
+    for (const mode of ['major', 'minor'] as ScaleMode[]) {
+      for (let tonic = 0; tonic < 12; tonic++) {
+        const steps = new Set(SCALE_STEPS[mode].map(s => (tonic + s) % 12));
+        const covered = run.filter(n => steps.has(n.pitch % 12)).length;
+        if (covered < run.length * this.minCoverage) continue;
+        
+        const relativeMajor = mode === 'major' ? tonic : (tonic + 3) % 12;
+        const score = [
+          run.length - covered,
+          this.fifthsDistance(this.signatureOf(relativeMajor), fifths),
+          features.scaleType === mode ? 0 : 1,
+          ends.has(tonic) ? 0 : 1
+        ];
+        if (!best || compareScores(score, best.score) < 0) {
+          best = { table: this.scale(tonic, mode, hand), score };
+        }
+      }
+    }
+    
+    return best?.table ?? null;
+  }
+
+  // The triad of the run's three most frequent pitch classes, in the inversion of its lowest note
+  private matchArpeggio(run: Note[], hand: Hand, fifths: number): KeyFingeringTable | null {
+    const counts = new Map<number, number>();
+    run.forEach(n => counts.set(n.pitch % 12, (counts.get(n.pitch % 12) ?? 0) + 1));
+    
+    const common = [...counts].sort((a, b) => b[1] - a[1]).slice(0, 3);
+    const covered = common.reduce((sum, [, n]) => sum + n, 0);
+    if (common.length < 3 || covered < run.length * this.minCoverage) return null;
+    
+    const pcs = common.map(([pc]) => pc).sort((a, b) => a - b);
+    const bass = Math.min(...run.map(n => n.pitch)) % 12;
+    
+    for (let r = 0; r < 3; r++) {
+      const tones = [0, 1, 2].map(k => pcs[(r + k) % 3]) as [number, number, number];
+      const intervals = [(tones[1] - tones[0] + 12) % 12, (tones[2] - tones[1] + 12) % 12];
+      const triad = TRIADS.find(t => t.intervals[0] === intervals[0] && t.intervals[1] === intervals[1]);
+      if (triad) return this.arpeggio(tones, bass, triad.quality, hand, fifths);
+    }
+    
+    return null;
+  }
+
+  // Key signature of a major key, -5 (Db) to 6 (F#)
+  private signatureOf(tonic: number): number {
+    const fifths = (tonic * 7) % 12;
+    return fifths > 6 ? fifths - 12 : fifths;
+  }
+
+  private fifthsDistance(a: number, b: number): number {
+    const d = Math.abs(a - b) % 12;
+    return Math.min(d, 12 - d);
+  }
+
+  private noteName(pc: number, fifths: number): string {
+    return (fifths < 0 ? FLAT_NAMES : SHARP_NAMES)[pc];
+  }
+
+  private cached(key: string, build: () => KeyFingeringTable): KeyFingeringTable {
+    if (!this.tables.has(key)) this.tables.set(key, build());
+    return this.tables.get(key)!;
+  }
+}
+
+// Lexicographic: the first differing entry decides
+function compareScores(a: number[], b: number[]): number {
+  const k = a.findIndex((x, i) => x !== b[i]);
+  return k < 0 ? 0 : a[k] - b[k];
+}
+
+export const keyFingerings = new KeyFingerings();
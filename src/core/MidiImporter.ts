@@ -0,0 +1,532 @@
+// Grid the onsets are quantized to, in steps per quarter note (16th notes)
+const STEPS_PER_QUARTER = 4;
+
+// Lowest right hand note when the hands are split by pitch (middle C)
+export const DEFAULT_SPLIT_POINT = 60;
+
+// Channel 10 carries drums in General MIDI
+const PERCUSSION_CHANNEL = 9;
+
+// Notatable lengths in steps, longest first, with their note type and dots
+const NOTE_VALUES: { steps: number; type: string; dots: number }[] = [
+  { steps: 16, type: 'whole', dots: 0 },
+  { steps: 12, type: 'half', dots: 1 },
+  { steps: 8, type: 'half', dots: 0 },
+  { steps: 6, type: 'quarter', dots: 1 },
+  { steps: 4, type: 'quarter', dots: 0 },
+  { steps: 3, type: 'eighth', dots: 1 },
+  { steps: 2, type: 'eighth', dots: 0 },
+  { steps: 1, type: '16th', dots: 0 }
+];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const NATURAL_PCS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const SHARP_ORDER = 'FCGDAEB';
+
+// Black keys without a key signature
+const DEFAULT_SPELLINGS: Record<number, Spelling> = {
+  1: { step: 'C', alter: 1 },
+  3: { step: 'E', alter: -1 },
+  6: { step: 'F', alter: 1 },
+  8: { step: 'G', alter: 1 },
+  10: { step: 'B', alter: -1 }
+};
+
+export interface MidiImportOptions {
+  // Lowest right hand pitch when neither tracks nor channels tell the hands apart
+  splitPoint: number;
+}
+
+interface Spelling {
+  step: string;
+  alter: number;
+}
+
+// A sounding note, in ticks
+interface MidiNote {
+  track: number;
+  channel: number;
+  pitch: number;
+  start: number;
+  end: number;
+}
+
+interface MidiEvent<T> {
+  tick: number;
+  value: T;
+}
+
+interface MidiFile {
+  division: number;
+  notes: MidiNote[];
+  trackNames: string[];
+  tempos: MidiEvent<number>[];
+  timeSignatures: MidiEvent<[number, number]>[];
+  keySignatures: MidiEvent<{ fifths: number; minor: boolean }>[];
+}
+
+// Notes sounding together in one hand, in steps
+interface Chord {
+  start: number;
+  end: number;
+  pitches: number[];
+}
+
+interface Measure {
+  start: number;
+  length: number;
+  time: [number, number];
+  key: { fifths: number; minor: boolean };
+}
+
+/**
+ * Standard MIDI File import
+ *
+ * Turns a MIDI file into MusicXML, so it goes through the same parsing,
+ * planning and export as any uploaded score. Onsets are quantized to 16th
+ * notes and laid out in measures by the file's time signatures. The hands
+ * are two tracks or two channels when the file has them, the higher one
+ * taking the treble staff, and are otherwise split at a pitch. Each hand is
+ * one voice: a note held past the next onset in its hand is cut short
+ * there. Pitches are spelled in the key signature in force.
+ */
+export class MidiImporter {
+  /**
+   * MusicXML text of a MIDI file, titled by the name of its first track or else the given title
+   */
+  toMusicXML(data: ArrayBuffer | Uint8Array, title = '', options: Partial<MidiImportOptions> = {}): string {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const file = this.read(bytes);
+    if (file.notes.length === 0) {
+      throw new Error('The MIDI file contains no notes.');
+    }
+    
+    const { splitPoint } = { splitPoint: DEFAULT_SPLIT_POINT, ...options };
+    const ticksPerStep = file.division / STEPS_PER_QUARTER;
+    const toSteps = (tick: number) => Math.round(tick / ticksPerStep);
+    
+    const staffOf = this.splitHands(file.notes, splitPoint);
+    const chords: [Chord[], Chord[]] = [
+      this.chords(file.notes.filter(n => staffOf(n) === 1), toSteps),
+      this.chords(file.notes.filter(n => staffOf(n) === 2), toSteps)
+    ];
+    const end = Math.max(...chords.flat().map(c => c.end));
+    const measures = this.measures(file, toSteps, end);
+    const tempos = file.tempos.map(t => ({ tick: toSteps(t.tick), value: t.value }));
+    
+    const name = file.trackNames[0]?.trim() || title;
+    return this.writeScore(name, measures, chords, tempos);
+  }
+
+  // Header, tracks and the events the importer uses
+  private read(bytes: Uint8Array): MidiFile {
+    const reader = new ByteReader(bytes);
+    if (reader.text(4) !== 'MThd') {
+      throw new Error('Not a Standard MIDI File.');
+    }
+    
+    const headerLength = reader.uint32();
+    reader.uint16(); // format
+    const trackCount = reader.uint16();
+    const division = reader.uint16();
+    reader.skip(headerLength - 6);
+    if (division & 0x8000) {
+      throw new Error('MIDI files timed in SMPTE frames are not supported.');
+    }
+    
+    const file: MidiFile = { division, notes: [], trackNames: [], tempos: [], timeSignatures: [], keySignatures: [] };
+    
+    for (let track = 0; track < trackCount && !reader.done(); track++) {
+      const id = reader.text(4);
+      const length = reader.uint32();
+      if (id !== 'MTrk') {
+        reader.skip(length);
+        track--;
+        continue;
+      }
+      this.readTrack(reader.slice(length), track, file);
+    }
+    
+    return file;
+  }
+
+  private readTrack(reader: ByteReader, track: number, file: MidiFile): void {
+    // Notes sounding, keyed by channel and pitch; a note off ends the earliest
+    const sounding = new Map<string, MidiNote[]>();
+    let tick = 0;
+    let status = 0;
+    
+    const noteOff = (channel: number, pitch: number) => {
+      const note = sounding.get(`${channel}|${pitch}`)?.shift();
+      if (note) note.end = tick;
+    };
+    
+    while (!reader.done()) {
+      tick += reader.variable();
+      
+      // Running status: data bytes reuse the last channel status
+      let byte = reader.uint8();
+      if (byte < 0x80) {
+        reader.back();
+        byte = status;
+      }
+      
+      if (byte === 0xff) {
+        const type = reader.uint8();
+        const data = reader.slice(reader.variable());
+        this.readMeta(type, data, tick, track, file);
+        if (type === 0x2f) break;
+      } else if (byte === 0xf0 || byte === 0xf7) {
+        reader.skip(reader.variable());
+      } else {
+        status = byte;
+        const channel = byte & 0x0f;
+        const command = byte & 0xf0;
+        
+        if (command === 0x90 || command === 0x80) {
+          const pitch = reader.uint8();
+          const velocity = reader.uint8();
+          if (channel === PERCUSSION_CHANNEL) continue;
+          
+          if (command === 0x90 && velocity > 0) {
+            const note = { track, channel, pitch, start: tick, end: tick };
+            const key = `${channel}|${pitch}`;
+            if (!sounding.has(key)) sounding.set(key, []);
+            sounding.get(key)!.push(note);
+            file.notes.push(note);
+          } else {
+            noteOff(channel, pitch);
+          }
+        } else if (command === 0xc0 || command === 0xd0) {
+          reader.skip(1);
+        } else if (command >= 0x80) {
+          reader.skip(2);
+        } else {
+          throw new Error('The MIDI file is damaged.');
+        }
+      }
+    }
+    
+    // Notes never released end with the track
+    sounding.forEach(notes => notes.forEach(note => { note.end = tick; }));
+  }
+
+  private readMeta(type: number, data: ByteReader, tick: number, track: number, file: MidiFile): void {
+    if (type === 0x03 && file.trackNames[track] === undefined) {
+      file.trackNames[track] = data.text(data.length);
+    } else if (type === 0x51 && data.length >= 3) {
+      const microseconds = (data.uint8() << 16) | (data.uint8() << 8) | data.uint8();
+      if (microseconds > 0) file.tempos.push({ tick, value: Math.round(60000000 / microseconds) });
+    } else if (type === 0x58 && data.length >= 2) {
+      const beats = data.uint8();
+      file.timeSignatures.push({ tick, value: [beats, 2 ** data.uint8()] });
+    } else if (type === 0x59 && data.length >= 2) {
+      const sharps = data.uint8();
+      const fifths = sharps > 127 ? sharps - 256 : sharps;
+      file.keySignatures.push({ tick, value: { fifths: Math.max(-7, Math.min(7, fifths)), minor: data.uint8() === 1 } });
+    }
+  }
+
+  /**
+   * Staff of every note: two note-bearing tracks, or else two channels,
+   * are the hands, the higher sounding one on the treble staff; anything
+   * else is split at the pitch
+   */
+  private splitHands(notes: MidiNote[], splitPoint: number): (note: MidiNote) => 1 | 2 {
+    for (const groupOf of [(n: MidiNote) => n.track, (n: MidiNote) => n.channel]) {
+      const groups = new Map<number, number[]>();
+      notes.forEach(n => {
+        if (!groups.has(groupOf(n))) groups.set(groupOf(n), []);
+        groups.get(groupOf(n))!.push(n.pitch);
+      });
+      if (groups.size !== 2) continue;
+      
+      const [upper] = [...groups]
+        .map(([group, pitches]) => ({ group, mean: pitches.reduce((a, b) => a + b, 0) / pitches.length }))
+        .sort((a, b) => b.mean - a.mean);
+      return note => groupOf(note) === upper.group ? 1 : 2;
+    }
+    
+    return note => note.pitch >= splitPoint ? 1 : 2;
+  }
+
+  // Notes of one hand grouped by quantized onset, each chord lasting until the next at the latest
+  private chords(notes: MidiNote[], toSteps: (tick: number) => number): Chord[] {
+    const byStart = new Map<number, Chord>();
+    for (const note of notes) {
+      const start = toSteps(note.start);
+      const end = Math.max(toSteps(note.end), start + 1);
+      const chord = byStart.get(start);
+      if (chord) {
+        chord.end = Math.max(chord.end, end);
+        if (!chord.pitches.includes(note.pitch)) chord.pitches.push(note.pitch);
+      } else {
+        byStart.set(start, { start, end, pitches: [note.pitch] });
+      }
+    }
+    
+    const chords = [...byStart.values()].sort((a, b) => a.start - b.start);
+    chords.forEach((chord, k) => {
+      chord.pitches.sort((a, b) => a - b);
+      if (k + 1 < chords.length) chord.end = Math.min(chord.end, chords[k + 1].start);
+    });
+    return chords;
+  }
+
+  /**
+   * Measures up to the end of the last note; a time or key signature
+   * takes effect at the first barline at or after it
+   */
+  private measures(file: MidiFile, toSteps: (tick: number) => number, end: number): Measure[] {
+    const byStart = <T>(events: MidiEvent<T>[]) =>
+      events.map(e => ({ tick: toSteps(e.tick), value: e.value })).sort((a, b) => a.tick - b.tick);
+    const times = byStart(file.timeSignatures);
+    const keys = byStart(file.keySignatures);
+    
+    const measures: Measure[] = [];
+    let time: [number, number] = [4, 4];
+    let key = { fifths: 0, minor: false };
+    let start = 0;
+    
+    while (start < end || measures.length === 0) {
+      while (times.length > 0 && times[0].tick <= start) time = times.shift()!.value;
+      while (keys.length > 0 && keys[0].tick <= start) key = keys.shift()!.value;
+      
+      const length = Math.max(1, Math.round(time[0] * STEPS_PER_QUARTER * 4 / time[1]));
+      measures.push({ start, length, time, key });
+      start += length;
+    }
+    
+    return measures;
+  }
+
+  private writeScore(title: string, measures: Measure[], staves: [Chord[], Chord[]], tempos: MidiEvent<number>[]): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+      '<score-partwise version="4.0">',
+      `  <work><work-title>${escape(title)}</work-title></work>`,
+      '  <identification><encoding><software>Piano Fingering Planner (MIDI import)</software></encoding></identification>',
+      '  <part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>',
+      '  <part id="P1">'
+    ];
+    
+    measures.forEach((measure, m) => {
+      const previous = measures[m - 1];
+      lines.push(`    <measure number="${m + 1}">`);
+      
+      // Attributes at the start and wherever the key or time changes
+      const attributes: string[] = [];
+      if (m === 0) attributes.push(`<divisions>${STEPS_PER_QUARTER}</divisions>`);
+      if (!previous || previous.key !== measure.key) {
+        attributes.push(`<key><fifths>${measure.key.fifths}</fifths><mode>${measure.key.minor ? 'minor' : 'major'}</mode></key>`);
+      }
+      if (!previous || previous.time !== measure.time) {
+        attributes.push(`<time><beats>${measure.time[0]}</beats><beat-type>${measure.time[1]}</beat-type></time>`);
+      }
+      if (m === 0) {
+        attributes.push('<staves>2</staves>');
+        attributes.push('<clef number="1"><sign>G</sign><line>2</line></clef>');
+        attributes.push('<clef number="2"><sign>F</sign><line>4</line></clef>');
+      }
+      if (attributes.length > 0) lines.push(`      <attributes>${attributes.join('')}</attributes>`);
+      
+      const measureEnd = measure.start + measure.length;
+      const inMeasure = tempos.filter(t => t.tick >= measure.start && t.tick < measureEnd);
+      
+      staves.forEach((chords, s) => {
+        if (s > 0) lines.push(`      <backup><duration>${measure.length}</duration></backup>`);
+        const staff = s + 1;
+        const spell = this.speller(measure.key.fifths, measure.key.minor);
+        
+        // Chords and the rests between them, cut at the barlines
+        let position = measure.start;
+        const events: { start: number; length: number; chord?: Chord }[] = [];
+        for (const chord of chords) {
+          if (chord.end <= measure.start || chord.start >= measureEnd) continue;
+          const start = Math.max(chord.start, measure.start);
+          if (start > position) events.push({ start: position, length: start - position });
+          const stop = Math.min(chord.end, measureEnd);
+          events.push({ start, length: stop - start, chord });
+          position = stop;
+        }
+        if (position < measureEnd) events.push({ start: position, length: measureEnd - position });
+        
+        for (const event of events) {
+          // Tempo markings go with the treble staff
+          if (staff === 1) {
+            while (inMeasure.length > 0 && inMeasure[0].tick <= event.start) {
+              lines.push(`      ${this.writeTempo(inMeasure.shift()!.value)}`);
+            }
+          }
+          
+          if (!event.chord) {
+            lines.push(...this.writeRest(event.length, measure.length, staff));
+            continue;
+          }
+          
+          const { chord } = event;
+          const values = this.noteValues(event.length);
+          values.forEach((value, k) => {
+            const tiedFromBefore = k > 0 || event.start > chord.start;
+            const tiedToAfter = k < values.length - 1 || event.start + event.length < chord.end;
+            chord.pitches.forEach((pitch, p) => {
+              lines.push(this.writeNote(pitch, spell(pitch), value, staff, p > 0, tiedFromBefore, tiedToAfter));
+            });
+          });
+        }
+        
+        if (staff === 1) inMeasure.splice(0).forEach(t => lines.push(`      ${this.writeTempo(t.value)}`));
+      });
+      
+      lines.push('    </measure>');
+    });
+    
+    lines.push('  </part>', '</score-partwise>', '');
+    return lines.join('\n');
+  }
+
+  private writeNote(
+    pitch: number, spelling: Spelling, value: typeof NOTE_VALUES[number], staff: number,
+    chord: boolean, tieStop: boolean, tieStart: boolean
+  ): string {
+    const octave = Math.floor((pitch - spelling.alter) / 12) - 1;
+    const ties = [tieStop && 'stop', tieStart && 'start'].filter(Boolean) as string[];
+    return '      <note>' +
+      (chord ? '<chord/>' : '') +
+      `<pitch><step>${spelling.step}</step>${spelling.alter ? `<alter>${spelling.alter}</alter>` : ''}<octave>${octave}</octave></pitch>` +
+      `<duration>${value.steps}</duration>` +
+      ties.map(t => `<tie type="${t}"/>`).join('') +
+      `<voice>${staff}</voice><type>${value.type}</type>${'<dot/>'.repeat(value.dots)}` +
+      `<staff>${staff}</staff>` +
+      (ties.length > 0 ? `<notations>${ties.map(t => `<tied type="${t}"/>`).join('')}</notations>` : '') +
+      '</note>';
+  }
+
+  private writeRest(length: number, measureLength: number, staff: number): string[] {
+    if (length === measureLength) {
+      return [`      <note><rest measure="yes"/><duration>${length}</duration><voice>${staff}</voice><staff>${staff}</staff></note>`];
+    }
+    return this.noteValues(length).map(value =>
+      `      <note><rest/><duration>${value.steps}</duration><voice>${staff}</voice>` +
+      `<type>${value.type}</type>${'<dot/>'.repeat(value.dots)}<staff>${staff}</staff></note>`
+    );
+  }
+
+  private writeTempo(bpm: number): string {
+    return '<direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit>' +
+      `<per-minute>${bpm}</per-minute></metronome></direction-type><staff>1</staff><sound tempo="${bpm}"/></direction>`;
+  }
+
+  // A length in steps as tied notatable values, longest first
+  private noteValues(length: number): typeof NOTE_VALUES {
+    const values: typeof NOTE_VALUES = [];
+    let rest = length;
+    while (rest > 0) {
+      const value = NOTE_VALUES.find(v => v.steps <= rest)!;
+      values.push(value);
+      rest -= value.steps;
+    }
+    return values;
+  }
+
+  /**
+   * Spelling of every pitch class in a key: the scale tones take the key's
+   * letters, other tones are raised in sharp keys (and as the leading tone
+   * of a minor key) and lowered in flat keys
+   */
+  private speller(fifths: number, minor: boolean): (pitch: number) => Spelling {
+    const keyAlter = (letter: string) =>
+      fifths > 0 && SHARP_ORDER.indexOf(letter) < fifths ? 1
+        : fifths < 0 && SHARP_ORDER.indexOf(letter) >= 7 + fifths ? -1
+          : 0;
+    
+    const spellings: Spelling[] = new Array(12);
+    for (const letter of LETTERS) {
+      spellings[(NATURAL_PCS[letter] + keyAlter(letter) + 12) % 12] = { step: letter, alter: keyAlter(letter) };
+    }
+    
+    const tonic = ((fifths * 7) % 12 + 12 + (minor ? 9 : 0)) % 12;
+    for (let pc = 0; pc < 12; pc++) {
+      if (spellings[pc]) continue;
+      if (fifths === 0 && !minor) {
+        spellings[pc] = DEFAULT_SPELLINGS[pc];
+        continue;
+      }
+      
+      const raise = fifths >= 0 || (minor && pc === (tonic + 11) % 12);
+      const letter = LETTERS.find(l => (NATURAL_PCS[l] + keyAlter(l) + (raise ? 1 : -1) + 12) % 12 === pc)!;
+      spellings[pc] = { step: letter, alter: keyAlter(letter) + (raise ? 1 : -1) };
+    }
+    
+    return pitch => spellings[pitch % 12];
+  }
+}
+
+// Big-endian reading over the bytes of a file or chunk
+class ByteReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  uint8(): number {
+    if (this.done()) throw new Error('The MIDI file is truncated.');
+    return this.bytes[this.position++];
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32(): number {
+    return this.uint16() * 0x10000 + this.uint16();
+  }
+
+  // Variable-length quantity: seven bits per byte, high bit set on all but the last
+  variable(): number {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.uint8();
+      value = value * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  }
+
+  text(length: number): string {
+    return String.fromCharCode(...this.take(length));
+  }
+
+  slice(length: number): ByteReader {
+    return new ByteReader(this.take(length));
+  }
+
+  skip(length: number): void {
+    this.take(length);
+  }
+
+  back(): void {
+    this.position--;
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) throw new Error('The MIDI file is truncated.');
+    const bytes = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
+
+function escape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export const midiImporter = new MidiImporter();
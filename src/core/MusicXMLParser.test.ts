@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { musicXMLParser } from './MusicXMLParser';
+
+interface TestPart {
+  name: string;
+  // <attributes> of the first measure
+  attributes: string;
+  // Content of each measure
+  measures: string[];
+}
+
+function parse(parts: TestPart[]) {
+  return musicXMLParser.parseXML(
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise version="4.0"><part-list>' +
+    parts.map((part, k) => `<score-part id="P${k + 1}"><part-name>${part.name}</part-name></score-part>`).join('') +
+    '</part-list>' +
+    parts.map((part, k) => `<part id="P${k + 1}">` +
+      part.measures.map((content, m) => `<measure number="${m + 1}">${m === 0 ? part.attributes : ''}${content}</measure>`).join('') +
+      '</part>'
+    ).join('') +
+    '</score-partwise>'
+  );
+}
+
+const note = (step: string, octave: number, duration: number) =>
+  `<note><pitch><step>${step}</step><octave>${octave}</octave></pitch><duration>${duration}</duration><voice>1</voice></note>`;
+
+describe('MusicXMLParser merged parts', () => {
+  it('counts durations of every merged part in the measure divisions', () => {
+    const score = parse([
+      {
+        name: 'Piano RH',
+        attributes: '<attributes><divisions>2</divisions><clef><sign>G</sign><line>2</line></clef></attributes>',
+        measures: [note('C', 5, 2) + note('D', 5, 2) + note('E', 5, 4), note('F', 5, 8)]
+      },
+      {
+        name: 'Piano LH',
+        attributes: '<attributes><divisions>6</divisions><clef><sign>F</sign><line>4</line></clef></attributes>',
+        measures: [note('C', 3, 12) + note('G', 2, 12), note('C', 3, 24)]
+      }
+    ]);
+    
+    expect(score.divisions).toBe(2);
+    expect(score.measures.map(m => m.divisions)).toEqual([2, 2]);
+    
+    const lh = score.notes.filter(n => n.hand === 'LH');
+    expect(lh.map(n => [n.measureNumber, n.beat, n.duration])).toEqual([[1, 0, 4], [1, 2, 4], [2, 0, 8]]);
+    
+    const rh = score.notes.filter(n => n.hand === 'RH');
+    expect(rh.map(n => [n.measureNumber, n.beat, n.duration])).toEqual([[1, 0, 2], [1, 1, 2], [1, 2, 4], [2, 0, 8]]);
+  });
+});
+
+describe('MusicXMLParser tempo', () => {
+  it('reads tempo marks from every part but notes from the piano only', () => {
+    const score = parse([
+      {
+        name: 'Violin',
+        attributes: '<attributes><divisions>4</divisions><clef><sign>G</sign><line>2</line></clef></attributes>',
+        measures: [
+          '<direction><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>72</per-minute></metronome></direction-type></direction>' +
+          note('A', 4, 8) +
+          '<sound tempo="80"/>' +
+          note('B', 4, 8),
+          note('C', 5, 16)
+        ]
+      },
+      {
+        name: 'Piano',
+        attributes: '<attributes><divisions>1</divisions><clef><sign>G</sign><line>2</line></clef></attributes>',
+        measures: [note('C', 4, 4), note('D', 4, 4)]
+      }
+    ]);
+    
+    expect(score.tempos).toEqual([
+      { measureNumber: 1, beat: 0, bpm: 72 },
+      { measureNumber: 1, beat: 2, bpm: 80 }
+    ]);
+    expect(score.divisions).toBe(1);
+    expect(score.notes.map(n => n.pitch)).toEqual([60, 62]);
+  });
+});
@@ -1,82 +1,179 @@
-import type { Note, MeasureInfo, ParsedScore, Hand, Finger } from '@/types';
+import type { 
+  Note, MeasureInfo, ParsedScore, PartInfo, Hand, Finger, Ornament, OrnamentType, OrnamentFingering,
+  TempoChange
+} from '@/types';
 import JSZip from 'jszip';
+import { XmlDocument, XmlElement } from './XmlDocument';
+import { ornamentRealizer } from './OrnamentRealizer';
+import { midiImporter } from './MidiImporter';
+import type { OrnamentMarking, OrnamentNote } from './OrnamentRealizer';
 
+const MXL_MIME_TYPE = 'application/vnd.recordare.musicxml';
+
+// Ornament elements the planner realizes, by MusicXML tag
+const ORNAMENT_TAGS: Record<string, OrnamentType> = {
+  'trill-mark': 'trill',
+  'mordent': 'mordent',
+  'inverted-mordent': 'inverted-mordent',
+  'turn': 'turn',
+  'inverted-turn': 'inverted-turn'
+};
+
+// Length of a metronome beat unit in quarter notes
+const BEAT_UNIT_QUARTERS: Record<string, number> = {
+  'breve': 8, 'whole': 4, 'half': 2, 'quarter': 1,
+  'eighth': 0.5, '16th': 0.25, '32nd': 0.125
+};
+
+const ACCIDENTAL_MARK_ALTERS: Record<string, number> = {
+  'sharp': 1, 'natural': 0, 'flat': -1,
+  'double-sharp': 2, 'sharp-sharp': 2, 'flat-flat': -2
+};
+
+/**
+ * MusicXML reading and writing
+ * Works on XmlDocument rather than the browser DOM, so it runs the same in
+ * the page, in a worker and in Node
+ */
 export class MusicXMLParser {
-  private xmlDoc: Document | null = null;
+  private xmlDoc: XmlDocument | null = null;
   private divisions: number = 1;
   private currentMeasure: number = 0;
   private currentBeat: number = 0;
+  // Explicit hand directions (m.d., l.h., ...) in force per staff
+  private currentHandMarks = new Map<number, Hand>();
+  // Alterations written earlier in the measure, keyed like "F4"; ornament neighbours follow them
+  private measureAlters = new Map<string, number>();
+  // Slurs started and not yet stopped, keyed by part and slur number, with their staff
+  private openSlurs = new Map<string, number>();
   private noteIdCounter: number = 0;
 
   async parseFile(file: File): Promise<ParsedScore> {
-    const content = await this.readFile(file);
-    return this.parseXML(content);
+    const { xml } = await this.readFile(file);
+    return this.parseXML(xml);
   }
 
-  private async readFile(file: File): Promise<string> {
+  /**
+   * MusicXML text of an uploaded file, and the archive when it is an .mxl;
+   * MIDI files are converted
+   */
+  async readFile(file: File): Promise<{ xml: string; archive: ArrayBuffer | null }> {
     const fileName = file.name.toLowerCase();
     
     if (fileName.endsWith('.mxl')) {
-      return this.extractMXL(file);
+      const archive = await file.arrayBuffer();
+      return { xml: await this.readMXL(archive), archive };
     } else if (fileName.endsWith('.musicxml') || fileName.endsWith('.xml')) {
-      return file.text();
+      return { xml: await file.text(), archive: null };
+    } else if (fileName.endsWith('.mid') || fileName.endsWith('.midi')) {
+      const xml = midiImporter.toMusicXML(await file.arrayBuffer(), file.name.replace(/\.midi?$/i, ''));
+      return { xml, archive: null };
     } else {
-      throw new Error('Unsupported file format. Please upload .mxl, .musicxml, or .xml files.');
+      throw new Error('Unsupported file format. Please upload .mxl, .musicxml, .xml, .mid or .midi files.');
     }
   }
 
-  private async extractMXL(file: File): Promise<string> {
+  /**
+   * Extract the MusicXML text from a compressed .mxl archive
+   * Accepts a browser File/Blob or raw bytes (e.g. a Node Buffer)
+   */
+  async readMXL(data: Blob | ArrayBuffer | Uint8Array): Promise<string> {
     const zip = new JSZip();
-    const contents = await zip.loadAsync(file);
+    const contents = await zip.loadAsync(data);
     
+    const rootPath = await this.findRootFile(contents);
+    if (!rootPath) {
+      throw new Error('Could not find MusicXML content in the MXL file.');
+    }
+    
+    return contents.file(rootPath)!.async('string');
+  }
+
+  /**
+   * Package MusicXML as a compressed .mxl archive
+   * Given the uploaded archive, every other entry (container, images,
+   * alternate renderings) is kept and only the root score is replaced
+   */
+  async writeMXL(
+    xml: string,
+    original: Blob | ArrayBuffer | Uint8Array | null,
+    scoreName = 'score.musicxml'
+  ): Promise<ArrayBuffer> {
+    const zip = original ? await new JSZip().loadAsync(original) : new JSZip();
+    let rootPath = original ? await this.findRootFile(zip) : null;
+    
+    if (!rootPath) {
+      rootPath = scoreName;
+      zip.file('mimetype', MXL_MIME_TYPE);
+      zip.file('META-INF/container.xml', [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<container>',
+        '  <rootfiles>',
+        `    <rootfile full-path="${rootPath}" media-type="${MXL_MIME_TYPE}+xml"/>`,
+        '  </rootfiles>',
+        '</container>',
+        ''
+      ].join('\n'));
+    }
+    
+    zip.file(rootPath, xml);
+    
+    // The mimetype entry has to stay uncompressed for readers that sniff it
+    const mimetype = zip.file('mimetype');
+    if (mimetype) {
+      zip.file('mimetype', await mimetype.async('string'), { compression: 'STORE' });
+    }
+    
+    return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Path of the score inside an .mxl archive
+   */
+  private async findRootFile(contents: JSZip): Promise<string | null> {
     // Find container.xml to get the root file
     const containerFile = contents.file('META-INF/container.xml');
     if (containerFile) {
       const containerXml = await containerFile.async('string');
-      const parser = new DOMParser();
-      const containerDoc = parser.parseFromString(containerXml, 'text/xml');
+      const containerDoc = XmlDocument.parse(containerXml);
       const rootFile = containerDoc.querySelector('rootfile');
-      if (rootFile) {
-        const fullPath = rootFile.getAttribute('full-path');
-        if (fullPath) {
-          const musicXmlFile = contents.file(fullPath);
-          if (musicXmlFile) {
-            return musicXmlFile.async('string');
-          }
-        }
+      const fullPath = rootFile?.getAttribute('full-path');
+      if (fullPath && contents.file(fullPath)) {
+        return fullPath;
       }
     }
     
     // Fallback: find any .xml file that's not in META-INF
     for (const [path, zipEntry] of Object.entries(contents.files)) {
       if (path.endsWith('.xml') && !path.startsWith('META-INF') && !zipEntry.dir) {
-        return zipEntry.async('string');
+        return path;
       }
     }
     
-    throw new Error('Could not find MusicXML content in the MXL file.');
+    return null;
   }
 
   parseXML(xmlString: string): ParsedScore {
-    const parser = new DOMParser();
-    this.xmlDoc = parser.parseFromString(xmlString, 'text/xml');
-    
-    const parseError = this.xmlDoc.querySelector('parsererror');
-    if (parseError) {
-      throw new Error('Invalid XML format: ' + parseError.textContent);
+    try {
+      this.xmlDoc = XmlDocument.parse(xmlString);
+    } catch (err) {
+      throw new Error('Invalid XML format: ' + (err instanceof Error ? err.message : String(err)));
     }
 
     const title = this.extractTitle();
     const composer = this.extractComposer();
-    const { notes, measures } = this.extractNotesAndMeasures();
+    const parts = this.extractPartList();
+    const { notes, measures, tempos } = this.extractNotesAndMeasures(parts);
     
     return {
       title,
       composer,
       notes,
       measures,
+      tempos,
       divisions: this.divisions,
-      partCount: this.xmlDoc.querySelectorAll('part').length
+      partCount: this.xmlDoc.querySelectorAll('part').length,
+      parts
     };
   }
 
@@ -100,93 +197,301 @@ export class MusicXMLParser {
     return 'Unknown';
   }
 
-  private extractNotesAndMeasures(): { notes: Note[]; measures: MeasureInfo[] } {
-    const notes: Note[] = [];
-    const measures: MeasureInfo[] = [];
-    
-    const parts = this.xmlDoc?.querySelectorAll('part');
-    if (!parts || parts.length === 0) {
+  /**
+   * Read <part-list> and decide which parts form the piano grand staff
+   * Piano parts are found by name, instrument name or General MIDI program.
+   * A part with two or more staves is a grand staff on its own; consecutive
+   * single-staff piano parts (e.g. "Piano RH" / "Piano LH") are merged.
+   */
+  private extractPartList(): PartInfo[] {
+    const partEls = Array.from(this.xmlDoc?.querySelectorAll('part') ?? []);
+    if (partEls.length === 0) {
       throw new Error('No parts found in the score.');
     }
+    
+    const parts: PartInfo[] = partEls.map(partEl => {
+      const id = partEl.getAttribute('id') || '';
+      const scorePart = Array.from(this.xmlDoc?.querySelectorAll('score-part') ?? [])
+        .find(sp => sp.getAttribute('id') === id);
+      
+      const name = scorePart?.querySelector('part-name')?.textContent?.trim() || id;
+      const instrument = scorePart?.querySelector('instrument-name')?.textContent?.trim() || '';
+      const program = parseInt(scorePart?.querySelector('midi-program')?.textContent || '0', 10);
+      const stavesEl = partEl.querySelector('attributes staves');
+      const staves = parseInt(stavesEl?.textContent || '1', 10);
+      
+      return {
+        id,
+        name,
+        instrument,
+        isPiano: this.isPianoPart(name, instrument, program),
+        staves,
+        staffOffset: 0,
+        fingered: false
+      };
+    });
+    
+    // No part declares itself a piano: fall back to the first grand staff, or the first part
+    let pianoParts = parts.filter(p => p.isPiano);
+    if (pianoParts.length === 0) {
+      pianoParts = [parts.find(p => p.staves >= 2) ?? parts[0]];
+    }
+    
+    const first = pianoParts[0];
+    const selected = [first];
+    if (first.staves === 1) {
+      const next = parts[parts.indexOf(first) + 1];
+      if (next && next.isPiano && next.staves === 1) {
+        selected.push(next);
+      }
+    }
+    
+    let staffOffset = 0;
+    for (const part of selected) {
+      part.fingered = true;
+      part.staffOffset = staffOffset;
+      staffOffset += part.staves;
+    }
+    
+    return parts;
+  }
+
+  private isPianoPart(name: string, instrument: string, program: number): boolean {
+    const pianoNames = /piano|pianoforte|fortepiano|klavier|clavier|keyboard|tastiera|pf\.?$/i;
+    if (pianoNames.test(name) || pianoNames.test(instrument)) return true;
+    
+    // General MIDI programs 1-8 are the piano family
+    return program >= 1 && program <= 8;
+  }
 
-    // Process first part (piano part for grand staff)
-    const part = parts[0];
-    const measureElements = part.querySelectorAll('measure');
+  private extractNotesAndMeasures(parts: PartInfo[]): { notes: Note[]; measures: MeasureInfo[]; tempos: TempoChange[] } {
+    const notes: Note[] = [];
+    const measures: MeasureInfo[] = [];
+    const tempos = new Map<string, TempoChange>();
     
-    let currentKeySignature = 0;
-    let currentTimeSignature: [number, number] = [4, 4];
-    let currentClefs: { staff: number; sign: string; line: number }[] = [];
+    const fingeredParts = parts.filter(p => p.fingered);
+    const totalStaves = fingeredParts.reduce((sum, p) => sum + p.staves, 0);
+    const partEls = Array.from(this.xmlDoc?.querySelectorAll('part') ?? []);
     
-    measureElements.forEach((measureEl, measureIndex) => {
+    // Measures of every part, aligned by position; other parts are read for their tempo marks only
+    const partMeasures = parts.map(part => {
+      const partEl = partEls.find(el => el.getAttribute('id') === part.id)!;
+      return Array.from(partEl.querySelectorAll('measure'));
+    });
+    const measureTotal = Math.max(...partMeasures.filter((_, p) => parts[p].fingered).map(m => m.length));
+    this.openSlurs.clear();
+    
+    // Attribute state carried from measure to measure, per part
+    const state = parts.map(() => ({
+      divisions: 1,
+      keySignature: 0,
+      timeSignature: [4, 4] as [number, number],
+      clefs: [] as { staff: number; sign: string; line: number }[]
+    }));
+    
+    // The first fingered part sets the divisions, time and key of the measure
+    const lead = state[parts.indexOf(fingeredParts[0])];
+    const fingeredState = state.filter((_, p) => parts[p].fingered);
+    
+    for (let measureIndex = 0; measureIndex < measureTotal; measureIndex++) {
       this.currentMeasure = measureIndex + 1;
-      this.currentBeat = 0;
+      const measureNotes: Note[] = [];
       
-      // Extract attributes
-      const attributes = measureEl.querySelector('attributes');
-      if (attributes) {
-        const divisionsEl = attributes.querySelector('divisions');
-        if (divisionsEl?.textContent) {
-          this.divisions = parseInt(divisionsEl.textContent, 10);
-        }
+      parts.forEach((part, p) => {
+        const measureEl = partMeasures[p][measureIndex];
+        if (!measureEl) return;
         
-        const keyEl = attributes.querySelector('key fifths');
-        if (keyEl?.textContent) {
-          currentKeySignature = parseInt(keyEl.textContent, 10);
-        }
+        this.readAttributes(measureEl, part, state[p]);
+        this.divisions = state[p].divisions;
+        this.currentBeat = 0;
+        this.currentHandMarks.clear();
+        this.measureAlters.clear();
         
-        const timeEl = attributes.querySelector('time');
-        if (timeEl) {
-          const beats = timeEl.querySelector('beats')?.textContent;
-          const beatType = timeEl.querySelector('beat-type')?.textContent;
-          if (beats && beatType) {
-            currentTimeSignature = [parseInt(beats, 10), parseInt(beatType, 10)];
+        // Running position in the measure; <backup>/<forward> move it between voices
+        let position = 0;
+        let xmlIndex = 0;
+        for (const child of Array.from(measureEl.children)) {
+          const duration = parseInt(child.querySelector('duration')?.textContent || '0', 10);
+          
+          if (child.tagName === 'backup') {
+            position -= duration / this.divisions;
+          } else if (child.tagName === 'forward') {
+            position += duration / this.divisions;
+          } else if (child.tagName === 'direction') {
+            if (part.fingered) this.readHandDirection(child, part);
+            this.readTempo(child, position, tempos);
+          } else if (child.tagName === 'sound') {
+            this.readTempo(child, position, tempos);
+          } else if (child.tagName === 'note') {
+            // Chord tones share the onset of the note before them
+            const isChord = child.querySelector('chord') !== null;
+            if (!isChord) {
+              this.currentBeat = position;
+            }
+            
+            const note = part.fingered ? this.parseNoteElement(child, xmlIndex, part, totalStaves, state[p]) : null;
+            if (note && state[p] !== lead) {
+              // Durations of every merged part count in the first part's divisions, as the measure does
+              note.duration = note.duration * lead.divisions / state[p].divisions;
+            }
+            if (note && !note.isRest) {
+              measureNotes.push(note);
+            }
+            
+            // Update beat position
+            if (!isChord) {
+              position += duration / this.divisions;
+            }
+            
+            xmlIndex++;
           }
         }
-        
-        const clefEls = attributes.querySelectorAll('clef');
-        if (clefEls.length > 0) {
-          currentClefs = [];
-          clefEls.forEach(clefEl => {
-            const staffNum = parseInt(clefEl.getAttribute('number') || '1', 10);
-            const sign = clefEl.querySelector('sign')?.textContent || 'G';
-            const line = parseInt(clefEl.querySelector('line')?.textContent || '2', 10);
-            currentClefs.push({ staff: staffNum, sign, line });
-          });
-        }
-      }
+      });
       
+      // Chronological order across voices, staves and parts; ties keep XML order
+      measureNotes.sort((a, b) => Math.abs(a.beat - b.beat) < 1e-6 ? 0 : a.beat - b.beat);
+      notes.push(...measureNotes);
+      
+      const clefs = fingeredState.flatMap(s => s.clefs);
       measures.push({
         number: this.currentMeasure,
-        divisions: this.divisions,
-        timeSignature: currentTimeSignature,
-        keySignature: currentKeySignature,
-        clefs: [...currentClefs]
+        divisions: lead.divisions,
+        timeSignature: lead.timeSignature,
+        keySignature: lead.keySignature,
+        clefs: [...clefs]
+      });
+    }
+    
+    this.divisions = lead.divisions;
+    
+    const tempoList = [...tempos.values()].sort((a, b) => a.measureNumber - b.measureNumber || a.beat - b.beat);
+    return { notes, measures, tempos: tempoList };
+  }
+
+  /**
+   * Update divisions, key, time and clefs from a measure's <attributes>
+   * Clef staff numbers are shifted into the merged grand staff
+   */
+  private readAttributes(
+    measureEl: XmlElement,
+    part: PartInfo,
+    state: {
+      divisions: number;
+      keySignature: number;
+      timeSignature: [number, number];
+      clefs: { staff: number; sign: string; line: number }[];
+    }
+  ) {
+    const attributes = measureEl.querySelector('attributes');
+    if (!attributes) return;
+    
+    const divisionsEl = attributes.querySelector('divisions');
+    if (divisionsEl?.textContent) {
+      state.divisions = parseInt(divisionsEl.textContent, 10);
+    }
+    
+    const keyEl = attributes.querySelector('key fifths');
+    if (keyEl?.textContent) {
+      state.keySignature = parseInt(keyEl.textContent, 10);
+    }
+    
+    const timeEl = attributes.querySelector('time');
+    if (timeEl) {
+      const beats = timeEl.querySelector('beats')?.textContent;
+      const beatType = timeEl.querySelector('beat-type')?.textContent;
+      if (beats && beatType) {
+        state.timeSignature = [parseInt(beats, 10), parseInt(beatType, 10)];
+      }
+    }
+    
+    const clefEls = attributes.querySelectorAll('clef');
+    if (clefEls.length > 0) {
+      clefEls.forEach(clefEl => {
+        const staffNum = parseInt(clefEl.getAttribute('number') || '1', 10) + part.staffOffset;
+        const sign = clefEl.querySelector('sign')?.textContent || 'G';
+        const line = parseInt(clefEl.querySelector('line')?.textContent || '2', 10);
+        state.clefs = state.clefs.filter(c => c.staff !== staffNum);
+        state.clefs.push({ staff: staffNum, sign, line });
       });
+      state.clefs.sort((a, b) => a.staff - b.staff);
+    }
+  }
+
+  /**
+   * Read an explicit hand direction from <direction><words>
+   * It applies to the following notes of its staff until the end of the measure
+   */
+  private readHandDirection(directionEl: XmlElement, part: PartInfo) {
+    const words = Array.from(directionEl.querySelectorAll('words'))
+      .map(w => w.textContent?.trim().toLowerCase() || '');
+    const staff = parseInt(directionEl.querySelector('staff')?.textContent || '1', 10) + part.staffOffset;
+    
+    for (const text of words) {
+      const compact = text.replace(/[\s.]/g, '');
+      if (['md', 'rh', 'ms', 'mg', 'lh'].includes(compact)) {
+        // m.s. is Italian mano sinistra
+        this.currentHandMarks.set(staff, compact === 'md' || compact === 'rh' ? 'RH' : 'LH');
+      }
+    }
+  }
+
+  /**
+   * Tempo from a <direction> or a bare <sound>: <sound tempo> is already in
+   * quarter notes per minute, a <metronome> mark is converted from its beat unit.
+   * Parts marking the same spot agree, so one entry per position is kept.
+   */
+  private readTempo(el: XmlElement, position: number, tempos: Map<string, TempoChange>) {
+    const sound = el.tagName === 'sound' ? el : el.querySelector('sound');
+    let bpm = parseFloat(sound?.getAttribute('tempo') ?? '');
+    
+    if (!(bpm > 0)) {
+      const metronome = el.querySelector('metronome');
+      const units = metronome?.querySelectorAll('beat-unit') ?? [];
+      const perMinute = parseFloat(metronome?.querySelector('per-minute')?.textContent?.replace(/[^\d.]/g, '') ?? '');
       
-      // Extract notes
-      const noteElements = measureEl.querySelectorAll('note');
-      let xmlIndex = 0;
+      // Metric modulations (two beat units) carry no number
+      if (units.length !== 1 || !(perMinute > 0)) return;
       
-      noteElements.forEach(noteEl => {
-        const note = this.parseNoteElement(noteEl, xmlIndex, currentKeySignature);
-        if (note && !note.isRest) {
-          notes.push(note);
-        }
-        
-        // Update beat position
-        if (!noteEl.querySelector('chord')) {
-          const duration = parseInt(noteEl.querySelector('duration')?.textContent || '0', 10);
-          this.currentBeat += duration / this.divisions;
-        }
-        
-        xmlIndex++;
-      });
-    });
+      const dots = metronome!.querySelectorAll('beat-unit-dot').length;
+      const quarters = (BEAT_UNIT_QUARTERS[units[0].textContent?.trim() ?? ''] ?? 1) * (2 - 1 / 2 ** dots);
+      bpm = perMinute * quarters;
+    }
     
-    return { notes, measures };
+    tempos.set(`${this.currentMeasure}:${position}`, {
+      measureNumber: this.currentMeasure,
+      beat: position,
+      bpm
+    });
+  }
+
+  /**
+   * Hand for a staff of the merged grand staff
+   * Top staff is RH and bottom staff LH; middle staves follow their clef,
+   * and a lone staff is split at middle C
+   */
+  private handForStaff(
+    staff: number,
+    totalStaves: number,
+    pitch: number,
+    clefs: { staff: number; sign: string; line: number }[]
+  ): Hand {
+    if (totalStaves === 1) return pitch >= 60 ? 'RH' : 'LH';
+    if (staff === 1) return 'RH';
+    if (staff === totalStaves) return 'LH';
+    
+    const clef = clefs.find(c => c.staff === staff);
+    if (clef?.sign === 'G') return 'RH';
+    if (clef?.sign === 'F') return 'LH';
+    return pitch >= 60 ? 'RH' : 'LH';
   }
 
-  private parseNoteElement(noteEl: Element, xmlIndex: number, keySignature: number): Note | null {
+  private parseNoteElement(
+    noteEl: XmlElement,
+    xmlIndex: number,
+    part: PartInfo,
+    totalStaves: number,
+    attributes: { keySignature: number; clefs: { staff: number; sign: string; line: number }[] }
+  ): Note | null {
     const isRest = noteEl.querySelector('rest') !== null;
     const isChord = noteEl.querySelector('chord') !== null;
     const isGrace = noteEl.querySelector('grace') !== null;
@@ -209,12 +514,12 @@ export class MusicXMLParser {
     const duration = parseInt(noteEl.querySelector('duration')?.textContent || '1', 10);
     const type = noteEl.querySelector('type')?.textContent || 'quarter';
     
-    // Get voice and staff
+    // Get voice and staff (numbered across the merged grand staff)
     const voice = parseInt(noteEl.querySelector('voice')?.textContent || '1', 10);
-    const staff = parseInt(noteEl.querySelector('staff')?.textContent || '1', 10);
+    const staff = parseInt(noteEl.querySelector('staff')?.textContent || '1', 10) + part.staffOffset;
     
     // Determine hand based on staff
-    const hand: Hand = staff === 1 ? 'RH' : 'LH';
+    const hand: Hand = this.handForStaff(staff, totalStaves, pitch, attributes.clefs);
     
     // Get stem direction
     const stemEl = noteEl.querySelector('stem');
@@ -226,15 +531,26 @@ export class MusicXMLParser {
     const ornaments = notations?.querySelector('ornaments');
     const technical = notations?.querySelector('technical');
     
-    // Slurs
+    // Slurs; a note between a slur's start and stop on its staff lies under it
     const slurs = notations?.querySelectorAll('slur') || [];
     let hasSlur = false;
     let slurStart = false;
     let slurStop = false;
+    const inSlur = slurs.length > 0 || [...this.openSlurs.values()].includes(staff);
+    const slurKey = (slur: XmlElement) => `${part.id}:${slur.getAttribute('number') || '1'}`;
     slurs.forEach(slur => {
       hasSlur = true;
-      if (slur.getAttribute('type') === 'start') slurStart = true;
-      if (slur.getAttribute('type') === 'stop') slurStop = true;
+      if (slur.getAttribute('type') === 'stop') {
+        slurStop = true;
+        this.openSlurs.delete(slurKey(slur));
+      }
+    });
+    // Starts after stops, so a slur chained on the same number stays open
+    slurs.forEach(slur => {
+      if (slur.getAttribute('type') === 'start') {
+        slurStart = true;
+        this.openSlurs.set(slurKey(slur), staff);
+      }
     });
     
     // Ties
@@ -249,25 +565,64 @@ export class MusicXMLParser {
     });
     
     // Articulations
-    const hasAccent = articulations?.querySelector('accent') !== null || 
-                      articulations?.querySelector('strong-accent') !== null;
-    const hasStaccato = articulations?.querySelector('staccato') !== null;
+    const hasAccent = !!(articulations?.querySelector('accent') || articulations?.querySelector('strong-accent'));
+    const hasStaccato = !!articulations?.querySelector('staccato');
     
     // Ornaments
-    const hasTrill = ornaments?.querySelector('trill-mark') !== null;
-    const hasMordent = ornaments?.querySelector('mordent') !== null || 
-                       ornaments?.querySelector('inverted-mordent') !== null;
-    const hasTurn = ornaments?.querySelector('turn') !== null || 
-                   ornaments?.querySelector('inverted-turn') !== null;
-    
-    // Existing fingering
-    const fingeringEl = technical?.querySelector('fingering');
+    const hasTrill = !!ornaments?.querySelector('trill-mark');
+    const hasMordent = !!(ornaments?.querySelector('mordent') || ornaments?.querySelector('inverted-mordent'));
+    const hasTurn = !!(ornaments?.querySelector('turn') || ornaments?.querySelector('inverted-turn'));
+    
+    const ornament = ornaments && pitchEl
+      ? this.readOrnament(ornaments, {
+          step,
+          octave,
+          pitch,
+          keySignature: attributes.keySignature,
+          measureAlters: this.measureAlters,
+          quarters: duration / this.divisions
+        })
+      : undefined;
+    if (pitchEl) {
+      this.measureAlters.set(`${step}${octave}`, alter);
+    }
+    
+    // Existing fingering; alternates, substitutions and any further fingerings are kept apart
     let fingering: Finger | undefined;
-    if (fingeringEl?.textContent) {
+    let alternateFingerings: Finger[] = [];
+    let substitution: Finger | undefined;
+    const sequence: Finger[] = [];
+    const alternateSequence: Finger[] = [];
+    technical?.querySelectorAll('fingering').forEach(fingeringEl => {
       const f = parseInt(fingeringEl.textContent, 10);
-      if (f >= 1 && f <= 5) {
+      if (!(f >= 1 && f <= 5)) return;
+      
+      if (fingeringEl.getAttribute('substitution') === 'yes') {
+        substitution = substitution ?? f as Finger;
+        return;
+      }
+      
+      const isAlternate = fingeringEl.getAttribute('alternate') === 'yes';
+      (isAlternate ? alternateSequence : sequence).push(f as Finger);
+      
+      if (fingering === undefined && !isAlternate) {
         fingering = f as Finger;
+      } else if (f !== fingering && !alternateFingerings.includes(f as Finger)) {
+        alternateFingerings.push(f as Finger);
       }
+    });
+    
+    // A fingering per note of the ornament's figure fingers the whole ornament
+    let ornamentFingering: OrnamentFingering | undefined;
+    if (ornament && ornament.figureLength > 1 && sequence.length === ornament.figureLength) {
+      fingering = sequence[ornamentRealizer.figure(ornament).indexOf(pitch)];
+      alternateFingerings = [];
+      ornamentFingering = {
+        fingers: ornamentRealizer.expandFigure(ornament, sequence),
+        alternate: alternateSequence.length === ornament.figureLength
+          ? ornamentRealizer.expandFigure(ornament, alternateSequence)
+          : undefined
+      };
     }
     
     // Dynamics
@@ -285,6 +640,8 @@ export class MusicXMLParser {
       voice,
       staff,
       hand,
+      partId: part.id,
+      handDirection: this.currentHandMarks.get(staff),
       measureNumber: this.currentMeasure,
       beat: this.currentBeat,
       isChord,
@@ -293,6 +650,7 @@ export class MusicXMLParser {
       hasSlur,
       slurStart,
       slurStop,
+      inSlur,
       hasTie,
       tieStart,
       tieStop,
@@ -301,13 +659,56 @@ export class MusicXMLParser {
       hasTrill,
       hasMordent,
       hasTurn,
+      ornament,
+      ornamentFingering,
       dynamic,
       stem,
       fingering,
+      alternateFingerings: alternateFingerings.length > 0 ? alternateFingerings : undefined,
+      substitution: fingering !== undefined && substitution !== fingering ? substitution : undefined,
       xmlIndex
     };
   }
 
+  /**
+   * Realize the first trill, mordent or turn of a note's <ornaments>
+   * An accidental mark placed below belongs to the lower neighbour; one
+   * without placement to the neighbour the ornament uses
+   */
+  private readOrnament(ornaments: XmlElement, note: OrnamentNote): Ornament | undefined {
+    const ornamentEl = Array.from(ornaments.children).find(el => el.tagName in ORNAMENT_TAGS);
+    if (!ornamentEl) return undefined;
+    
+    const marking: OrnamentMarking = { type: ORNAMENT_TAGS[ornamentEl.tagName] };
+    
+    ornaments.querySelectorAll('accidental-mark').forEach(markEl => {
+      const alter = ACCIDENTAL_MARK_ALTERS[markEl.textContent.trim()];
+      if (alter === undefined) return;
+      
+      const placement = markEl.getAttribute('placement');
+      const below = placement ? placement === 'below' : marking.type === 'mordent';
+      if (below) {
+        marking.lowerAlter = alter;
+      } else {
+        marking.upperAlter = alter;
+      }
+    });
+    
+    const startNote = ornamentEl.getAttribute('start-note');
+    if (startNote === 'upper' || startNote === 'main' || startNote === 'below') {
+      marking.startNote = startNote;
+    }
+    
+    const beats = parseFloat(ornamentEl.getAttribute('beats') || '');
+    if (beats >= 2) {
+      marking.beats = Math.round(beats);
+    }
+    
+    marking.long = ornamentEl.getAttribute('long') === 'yes';
+    
+    return ornamentRealizer.realize(marking, note);
+  }
+
   private stepToMidi(step: string, octave: number, alter: number): number {
     const stepMap: Record<string, number> = {
       'C': 0, 'D': 2, 'E': 4, 'F': 5, 'G': 7, 'A': 9, 'B': 11
@@ -317,66 +718,115 @@ export class MusicXMLParser {
 
   // Write fingering back to MusicXML
   writeFingeringToXML(originalXml: string, notes: Note[]): string {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(originalXml, 'text/xml');
+    const doc = XmlDocument.parse(originalXml);
     
     const parts = doc.querySelectorAll('part');
     if (parts.length === 0) return originalXml;
     
-    const part = parts[0];
-    const measureElements = part.querySelectorAll('measure');
-    
-    // Create a map of notes by measure and xmlIndex
+    // Create a map of notes by part, measure and xmlIndex
     const noteMap = new Map<string, Note>();
     notes.forEach(note => {
-      const key = `${note.measureNumber}-${note.xmlIndex}`;
+      const key = `${note.partId}-${note.measureNumber}-${note.xmlIndex}`;
       noteMap.set(key, note);
     });
     
-    measureElements.forEach((measureEl, measureIndex) => {
-      const measureNum = measureIndex + 1;
-      const noteElements = measureEl.querySelectorAll('note');
+    parts.forEach(part => {
+      const partId = part.getAttribute('id') || '';
+      const measureElements = part.querySelectorAll('measure');
       
-      noteElements.forEach((noteEl, xmlIndex) => {
-        const key = `${measureNum}-${xmlIndex}`;
-        const note = noteMap.get(key);
+      measureElements.forEach((measureEl, measureIndex) => {
+        const measureNum = measureIndex + 1;
+        const noteElements = Array.from(measureEl.children).filter(el => el.tagName === 'note');
         
-        if (note?.fingering && !noteEl.querySelector('rest')) {
-          // Find or create notations element
-          let notations = noteEl.querySelector('notations');
-          if (!notations) {
-            notations = doc.createElement('notations');
-            noteEl.appendChild(notations);
-          }
-          
-          // Find or create technical element
-          let technical = notations.querySelector('technical');
-          if (!technical) {
-            technical = doc.createElement('technical');
-            notations.appendChild(technical);
-          }
+        noteElements.forEach((noteEl, xmlIndex) => {
+          const key = `${partId}-${measureNum}-${xmlIndex}`;
+          const note = noteMap.get(key);
           
-          // Remove existing fingering
-          const existingFingering = technical.querySelector('fingering');
-          if (existingFingering) {
-            technical.removeChild(existingFingering);
+          if (note?.fingering && !noteEl.querySelector('rest')) {
+            this.writeNoteFingering(doc, noteEl, note);
           }
-          
-          // Add new fingering
-          const fingeringEl = doc.createElement('fingering');
-          fingeringEl.textContent = note.fingering.toString();
-          
-          // Set placement based on hand/staff
-          const placement = note.hand === 'RH' ? 'above' : 'below';
-          fingeringEl.setAttribute('placement', placement);
-          
-          technical.appendChild(fingeringEl);
-        }
+        });
       });
     });
     
-    const serializer = new XMLSerializer();
-    return serializer.serializeToString(doc);
+    return doc.toString();
+  }
+
+  private writeNoteFingering(doc: XmlDocument, noteEl: XmlElement, note: Note) {
+    // Find or create notations element
+    let notations = noteEl.querySelector('notations');
+    if (!notations) {
+      notations = doc.createElement('notations');
+      noteEl.appendChild(notations);
+    }
+    
+    // Find or create technical element
+    let technical = notations.querySelector('technical');
+    if (!technical) {
+      technical = doc.createElement('technical');
+      notations.appendChild(technical);
+    }
+    
+    // Set placement based on hand/staff
+    const placement = note.hand === 'RH' ? 'above' : 'below';
+    
+    if (note.ornament && note.ornamentFingering) {
+      this.writeOrnamentFingering(doc, technical, note.ornament, note.ornamentFingering, placement);
+      return;
+    }
+    
+    // Remove existing fingering and the substitution written after it
+    const existingFingering = technical.querySelector('fingering');
+    if (existingFingering) {
+      technical.removeChild(existingFingering);
+    }
+    technical.querySelectorAll('fingering')
+      .filter(el => el.getAttribute('substitution') === 'yes')
+      .forEach(el => technical.removeChild(el));
+    
+    // Add new fingering
+    const fingeringEl = doc.createElement('fingering');
+    fingeringEl.textContent = note.fingering!.toString();
+    fingeringEl.setAttribute('placement', placement);
+    
+    technical.appendChild(fingeringEl);
+    
+    // The finger that takes over the held key
+    if (note.substitution) {
+      const substitutionEl = doc.createElement('fingering');
+      substitutionEl.textContent = note.substitution.toString();
+      substitutionEl.setAttribute('substitution', 'yes');
+      substitutionEl.setAttribute('placement', placement);
+      technical.appendChild(substitutionEl);
+    }
+  }
+
+  /**
+   * Ornament fingering as a sequence, one <fingering> per note of the figure,
+   * followed by the second choice marked alternate
+   */
+  private writeOrnamentFingering(
+    doc: XmlDocument,
+    technical: XmlElement,
+    ornament: Ornament,
+    ornamentFingering: OrnamentFingering,
+    placement: 'above' | 'below'
+  ) {
+    technical.querySelectorAll('fingering').forEach(el => technical.removeChild(el));
+    
+    const figure = (fingers: Finger[]) => fingers.slice(0, ornament.figureLength);
+    const write = (fingers: Finger[], alternate: boolean) => fingers.forEach(finger => {
+      const fingeringEl = doc.createElement('fingering');
+      fingeringEl.textContent = finger.toString();
+      if (alternate) fingeringEl.setAttribute('alternate', 'yes');
+      fingeringEl.setAttribute('placement', placement);
+      technical.appendChild(fingeringEl);
+    });
+    
+    write(figure(ornamentFingering.fingers), false);
+    if (ornamentFingering.alternate) {
+      write(figure(ornamentFingering.alternate), true);
+    }
   }
 }
 
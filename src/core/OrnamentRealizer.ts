@@ -0,0 +1,136 @@
+import type { Finger, Ornament, OrnamentType } from '@/types';
+
+// What the score writes for an ornament, read by the parser
+export interface OrnamentMarking {
+  type: OrnamentType;
+  // Alterations from <accidental-mark>, by the neighbour they apply to
+  upperAlter?: number;
+  lowerAlter?: number;
+  // Trills only; MusicXML starts them on the upper note unless told otherwise
+  startNote?: 'upper' | 'main' | 'below';
+  // Number of trill notes, when the score gives it
+  beats?: number;
+  // Double mordent
+  long?: boolean;
+}
+
+// The written note and what decides the pitch of its neighbours
+export interface OrnamentNote {
+  step: string;
+  octave: number;
+  pitch: number;
+  keySignature: number;
+  // Alterations in force from earlier notes of the measure, keyed like "F4"
+  measureAlters: ReadonlyMap<string, number>;
+  // Written length in quarter notes
+  quarters: number;
+}
+
+const STEPS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const STEP_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+const SHARP_ORDER = 'FCGDAEB';
+const FLAT_ORDER = 'BEADGCF';
+
+/**
+ * Ornament realization
+ *
+ * Expands trills, mordents and turns into the pitches they are played as.
+ * Neighbour notes are diatonic: an accidental mark on the ornament wins,
+ * then an accidental earlier in the measure, then the key signature.
+ */
+export class OrnamentRealizer {
+  // Trill speed when the score does not give the number of notes: 32nds
+  private readonly trillNotesPerQuarter = 8;
+  private readonly minTrillNotes = 4;
+  private readonly maxTrillNotes = 16;
+
+  realize(marking: OrnamentMarking, note: OrnamentNote): Ornament {
+    const main = note.pitch;
+    const upper = this.neighbour(note, 1, marking.upperAlter);
+    const lower = this.neighbour(note, -1, marking.lowerAlter);
+    
+    switch (marking.type) {
+      case 'trill':
+        return this.realizeTrill(marking, note, main, upper, lower);
+      case 'mordent':
+        return {
+          type: marking.type,
+          pitches: marking.long ? [main, lower, main, lower, main] : [main, lower, main],
+          figureLength: 3
+        };
+      case 'inverted-mordent':
+        return {
+          type: marking.type,
+          pitches: marking.long ? [main, upper, main, upper, main] : [main, upper, main],
+          figureLength: 3
+        };
+      case 'turn':
+        return { type: marking.type, pitches: [upper, main, lower, main], figureLength: 4 };
+      case 'inverted-turn':
+        return { type: marking.type, pitches: [lower, main, upper, main], figureLength: 4 };
+    }
+  }
+
+  /**
+   * Pitches of the written figure: one trill cycle, or the whole mordent or turn
+   */
+  figure(ornament: Ornament): number[] {
+    return ornament.pitches.slice(0, ornament.figureLength);
+  }
+
+  /**
+   * Fingers for every played pitch from the fingers of the figure
+   */
+  expandFigure(ornament: Ornament, figureFingers: Finger[]): Finger[] {
+    const fingerOf = new Map<number, Finger>();
+    this.figure(ornament).forEach((pitch, k) => {
+      if (!fingerOf.has(pitch)) fingerOf.set(pitch, figureFingers[k]);
+    });
+    
+    return ornament.pitches.map(pitch => fingerOf.get(pitch) ?? figureFingers[0]);
+  }
+
+  /**
+   * Trills alternate with the upper neighbour and end on the written note
+   */
+  private realizeTrill(marking: OrnamentMarking, note: OrnamentNote, main: number, upper: number, lower: number): Ornament {
+    const count = marking.beats ?? Math.min(
+      Math.max(Math.round(note.quarters * this.trillNotesPerQuarter), this.minTrillNotes),
+      this.maxTrillNotes
+    );
+    
+    const startOnUpper = (marking.startNote ?? 'upper') === 'upper';
+    const pitches: number[] = [];
+    
+    // An even count from the upper note, an odd one from the main note, ends on the main note
+    const length = startOnUpper ? count + (count % 2) : count + 1 - (count % 2);
+    for (let k = 0; k < length; k++) {
+      pitches.push((k % 2 === 0) === startOnUpper ? upper : main);
+    }
+    
+    if (marking.startNote === 'below') {
+      return { type: 'trill', pitches: [lower, ...pitches], figureLength: 3 };
+    }
+    return { type: 'trill', pitches, figureLength: 2 };
+  }
+
+  /**
+   * Diatonic neighbour above (1) or below (-1) the written note
+   */
+  private neighbour(note: OrnamentNote, direction: 1 | -1, markedAlter?: number): number {
+    const index = STEPS.indexOf(note.step) + direction;
+    const step = STEPS[(index + 7) % 7];
+    const octave = note.octave + (index < 0 ? -1 : index > 6 ? 1 : 0);
+    
+    const alter = markedAlter ?? note.measureAlters.get(`${step}${octave}`) ?? this.keyAlter(step, note.keySignature);
+    return (octave + 1) * 12 + STEP_SEMITONES[STEPS.indexOf(step)] + alter;
+  }
+
+  private keyAlter(step: string, fifths: number): number {
+    if (fifths > 0 && SHARP_ORDER.indexOf(step) < fifths) return 1;
+    if (fifths < 0 && FLAT_ORDER.indexOf(step) < -fifths) return -1;
+    return 0;
+  }
+}
+
+export const ornamentRealizer = new OrnamentRealizer();
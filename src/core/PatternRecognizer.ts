@@ -1,4 +1,4 @@
-import type { Note, PatternSegment, PatternType, PatternFeatures } from '@/types';
+import type { Note, Hand, PatternSegment, PatternType, PatternFeatures } from '@/types';
 
 /**
  * Layer 1: Pattern Recognition via Decision Tree
@@ -22,7 +22,7 @@ export class PatternRecognizer {
     return [...rhPatterns, ...lhPatterns].sort((a, b) => a.startIndex - b.startIndex);
   }
 
-  private recognizeHandPatterns(notes: Note[], hand: string): PatternSegment[] {
+  private recognizeHandPatterns(notes: Note[], hand: Hand): PatternSegment[] {
     if (notes.length === 0) return [];
     
     const segments: PatternSegment[] = [];
@@ -42,6 +42,7 @@ export class PatternRecognizer {
       const result = this.classifyPattern(window, features);
       
       segments.push({
+        hand,
         startIndex: notes.indexOf(window[0]),
         endIndex: notes.indexOf(window[window.length - 1]),
         patternType: result.type,
@@ -170,8 +171,8 @@ export class PatternRecognizer {
       }
     }
     
-    // Arpeggio detection
-    if (features.leapRatio >= 0.5 && this.belongsToChord(features.pitches)) {
+    // Arpeggio detection: leaps, or broken thirds and fourths without a step
+    if ((features.leapRatio >= 0.5 || features.stepwiseRatio === 0) && this.belongsToChord(features.pitches)) {
       return this.classifyArpeggio(notes, features);
     }
     
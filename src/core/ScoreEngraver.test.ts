@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedScore } from '@/types';
+import { musicXMLParser } from './MusicXMLParser';
+import { scoreEngraver } from './ScoreEngraver';
+import { FingeringRenderer } from './FingeringRenderer';
+
+// A treble staff in D major with a flat and a natural, then a change to the bass clef
+function score(): ParsedScore {
+  const pitches = ['<step>D</step><octave>5</octave>', '<step>B</step><alter>-1</alter><octave>4</octave>',
+    '<step>F</step><octave>5</octave>', '<step>A</step><octave>4</octave>'];
+  const notes = pitches.map(pitch => `<note><pitch>${pitch}</pitch><duration>1</duration><type>quarter</type></note>`).join('');
+
+  return musicXMLParser.parseXML(
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise version="4.0">' +
+    '<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list><part id="P1">' +
+    '<measure number="1"><attributes><divisions>1</divisions><key><fifths>2</fifths></key>' +
+    '<time><beats>4</beats><beat-type>4</beat-type></time><clef><sign>G</sign><line>2</line></clef></attributes>' +
+    `${notes}</measure>` +
+    `<measure number="2"><attributes><clef><sign>F</sign><line>4</line></clef></attributes>${notes}</measure>` +
+    '</part></score-partwise>'
+  );
+}
+
+describe('ScoreEngraver glyphs', () => {
+  it('draws clefs and accidentals as outlines rather than music font text', () => {
+    const engraving = scoreEngraver.engrave(score());
+    const svg = new FingeringRenderer().renderScoreSVG(engraving, []);
+    
+    expect(svg).not.toMatch(/[\u{1D100}-\u{1D1FF}♭♮♯]/u);
+    expect(svg).not.toContain('Bravura');
+    expect(engraving.obstacles.some(o => o.kind === 'accidental')).toBe(true);
+  });
+});
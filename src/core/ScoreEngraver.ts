@@ -0,0 +1,1135 @@
+import type {
+  Note, MeasureInfo, ParsedScore, EngravedScore, EngravedNote, EngravedSystem, EngravedObstacle, ObstacleKind
+} from '@/types';
+
+const STEPS = 'CDEFGAB';
+
+// Length in quarter notes and beams (or flags) of each written note type
+const NOTE_TYPES: Record<string, { quarters: number; beams: number }> = {
+  breve: { quarters: 8, beams: 0 },
+  whole: { quarters: 4, beams: 0 },
+  half: { quarters: 2, beams: 0 },
+  quarter: { quarters: 1, beams: 0 },
+  eighth: { quarters: 0.5, beams: 1 },
+  '16th': { quarters: 0.25, beams: 2 },
+  '32nd': { quarters: 0.125, beams: 3 },
+  '64th': { quarters: 0.0625, beams: 4 }
+};
+
+// Key signature accidentals in order, as diatonic steps from C0 on a treble staff
+const SHARP_STEPS = [38, 35, 39, 36, 33, 37, 34];
+const FLAT_STEPS = [34, 37, 33, 36, 32, 35, 31];
+const SHARP_ORDER = 'FCGDAEB';
+// How far a clef moves the key signature from where it sits on a treble staff
+const CLEF_KEY_SHIFT: Record<string, number> = { G: 0, F: -14, C: -7 };
+
+// Clefs and accidentals are drawn as outlines rather than set in a music font,
+// so they look the same on screen, in SVG files and in the PDF
+interface Glyph {
+  // Outlines filled, and lines stroked at the given width, in staff spaces
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  // Extent around the origin as left, top, right, bottom
+  box: [number, number, number, number];
+}
+
+// Clefs have their origin on the line they name, centred across
+const CLEF_GLYPHS: Record<string, Glyph> = {
+  G: {
+    fill: dot(-0.45, 2.35, 0.32),
+    stroke: 'M0.15 0.55 C-0.55 0.5 -0.6 -0.55 0.05 -0.75 C0.85 -0.95 1.15 0.45 0.35 0.85 C-0.6 1.25 -1.3 0.45 -1.05 -0.35 ' +
+      'C-0.85 -1 -0.1 -1.6 0.3 -2.3 C0.65 -2.9 0.7 -3.9 0.35 -4.2 C0.05 -4.45 -0.35 -3.9 -0.35 -3.2 C-0.35 -2.4 0.05 -0.5 0.3 1.5 ' +
+      'C0.4 2.3 0.1 2.75 -0.4 2.7',
+    strokeWidth: 0.2,
+    box: [-1.25, -4.4, 1.1, 2.8]
+  },
+  F: {
+    fill: `${dot(-0.65, 0.1, 0.35)} ${dot(1.45, -0.5, 0.16)} ${dot(1.45, 0.5, 0.16)}`,
+    stroke: 'M-0.85 -0.05 C-0.85 -0.85 0 -1.15 0.5 -0.95 C1.1 -0.7 1.15 0.3 0.7 1 C0.3 1.6 -0.3 2.1 -1 2.5',
+    strokeWidth: 0.25,
+    box: [-1.1, -1.15, 1.65, 2.6]
+  },
+  C: {
+    fill: `${bar(-1, -2, -0.65, 2)} ${bar(-0.5, -2, -0.4, 2)} ${dot(0.2, -1.55, 0.28)} ${dot(0.2, 1.55, 0.28)}`,
+    stroke: 'M-0.4 -0.05 L-0.15 -0.5 C0.1 -0.2 0.9 -0.3 0.9 -1.1 C0.9 -1.8 0.2 -2.1 -0.05 -1.6 ' +
+      'M-0.4 0.05 L-0.15 0.5 C0.1 0.2 0.9 0.3 0.9 1.1 C0.9 1.8 0.2 2.1 -0.05 1.6',
+    strokeWidth: 0.18,
+    box: [-1, -2.05, 1, 2.05]
+  }
+};
+
+// Accidentals have their origin on the pitch, centred across; all end 0.5 to the right
+const ACCIDENTAL_GLYPHS: Record<number, Glyph> = {
+  [-2]: { fill: `${flat(-0.65)} ${flat(0)}`, box: [-1.05, -1.6, 0.5, 0.55] },
+  [-1]: { fill: flat(0), box: [-0.4, -1.6, 0.5, 0.55] },
+  0: {
+    fill: `${bar(-0.35, -1.4, -0.25, 0.5)} ${bar(0.25, -0.5, 0.35, 1.4)} ` +
+      'M-0.35 -0.3 L0.35 -0.5 L0.35 -0.22 L-0.35 -0.02 Z M-0.35 0.22 L0.35 0.02 L0.35 0.3 L-0.35 0.5 Z',
+    box: [-0.35, -1.4, 0.35, 1.4]
+  },
+  1: {
+    fill: `${bar(-0.28, -1.05, -0.18, 1.3)} ${bar(0.18, -1.3, 0.28, 1.05)} ` +
+      'M-0.5 -0.475 L0.5 -0.725 L0.5 -0.425 L-0.5 -0.175 Z M-0.5 0.425 L0.5 0.175 L0.5 0.475 L-0.5 0.725 Z',
+    box: [-0.5, -1.3, 0.5, 1.3]
+  },
+  2: {
+    fill: 'M-0.45 -0.45 L-0.15 -0.45 L0 -0.15 L0.15 -0.45 L0.45 -0.45 L0.45 -0.15 L0.15 0 L0.45 0.15 ' +
+      'L0.45 0.45 L0.15 0.45 L0 0.15 L-0.15 0.45 L-0.45 0.45 L-0.45 0.15 L-0.15 0 L-0.45 -0.15 Z',
+    box: [-0.45, -0.45, 0.45, 0.45]
+  }
+};
+
+const TEXT_FONT = 'Times New Roman, serif';
+
+interface Clef {
+  sign: string;
+  line: number;
+}
+
+interface Head {
+  note: Note;
+  index: number;
+  // Diatonic steps from C0
+  step: number;
+  x: number;
+  y: number;
+  accidental?: number;
+  accidentalX?: number;
+}
+
+// Notes of one staff and voice struck together
+interface Chord {
+  heads: Head[]; // lowest first
+  staff: number;
+  voice: number;
+  beat: number;
+  grace: boolean;
+  beams: number;
+  dots: number;
+  hollow: boolean;
+  stemmed: boolean;
+  quarters: number; // sounding length
+  x: number; // centre of its column
+  stem: 'up' | 'down';
+  stemX: number;
+  stemEnd: number;
+  // Chords under the same beam, this one included
+  beam?: Chord[];
+}
+
+// Chords of all staves at one onset
+interface Column {
+  key: number;
+  beat: number;
+  grace: boolean;
+  chords: Chord[];
+  // Room for accidentals and displaced heads in front of the notes, and space after them
+  lead: number;
+  space: number;
+  x: number;
+}
+
+// Width of the page and size of the staff, in the units of the drawing
+export interface EngravingOptions {
+  width: number;
+  staffSpace: number;
+  // Where the staves start and end; 4 and 2 staff spaces in from the edges by default
+  margins?: { left: number; right: number };
+}
+
+const DEFAULT_OPTIONS: EngravingOptions = { width: 1000, staffSpace: 10 };
+
+interface MeasureLayout {
+  info: MeasureInfo;
+  columns: Column[];
+  clefs: Clef[];
+  clefChanged: boolean[];
+  keyChanged: boolean;
+  previousKey: number;
+  timeChanged: boolean;
+  // Space after the notes, which justification stretches, and room that stays fixed
+  contentWidth: number;
+  fixedWidth: number;
+}
+
+/**
+ * Score engraving
+ *
+ * Lays a parsed score out as conventional notation: systems of staves with
+ * clefs, key and time signatures, noteheads, accidentals, stems, flags,
+ * beams, ties, ledger lines and barlines. Horizontal space follows the time
+ * between onsets and systems are filled greedily, then justified. Every note
+ * records where it was drawn, and every element the area it covers, so marks
+ * such as fingerings can be placed against the notes and clear of the rest.
+ */
+export class ScoreEngraver {
+  private staffSpace = DEFAULT_OPTIONS.staffSpace;
+  private pageWidth = DEFAULT_OPTIONS.width;
+  private margins = { left: 40, right: 20 };
+  // Between the staves of a system, and room above and below it for fingerings, in staff spaces
+  private readonly staffDistance = 7;
+  private readonly systemPadding = 6;
+  private readonly systemGap = 2;
+  // Areas covered so far, and the system being drawn
+  private obstacles: EngravedObstacle[] = [];
+  private system = 0;
+
+  engrave(score: ParsedScore, options: Partial<EngravingOptions> = {}): EngravedScore {
+    const { width, staffSpace, margins } = { ...DEFAULT_OPTIONS, ...options };
+    this.pageWidth = width;
+    this.staffSpace = staffSpace;
+    this.margins = margins ?? { left: 4 * staffSpace, right: 2 * staffSpace };
+    this.obstacles = [];
+    
+    const S = this.staffSpace;
+    const staffCount = Math.max(1, ...score.notes.map(n => n.staff), ...score.measures.flatMap(m => m.clefs.map(c => c.staff)));
+    const layouts = this.layoutMeasures(score, staffCount);
+    
+    const header: string[] = [];
+    const outputs: string[][] = [];
+    const engraved: EngravedNote[] = [];
+    const systems: EngravedSystem[] = [];
+    const heads = new Map<number, { head: Head; chord: Chord; system: number }>();
+    
+    let y = this.header(score, header);
+    
+    for (const line of this.breakSystems(layouts)) {
+      const systemIndex = systems.length;
+      this.system = systemIndex;
+      const out: string[] = [];
+      const staffTops = Array.from({ length: staffCount }, (_, k) => y + this.systemPadding * S + k * (4 + this.staffDistance) * S);
+      const top = y;
+      const bottom = staffTops[staffCount - 1] + (4 + this.systemPadding) * S;
+      const system: EngravedSystem = { top, bottom, staffTops, measures: [], svg: '' };
+      
+      const first = layouts[line[0]];
+      let x = this.margins.left;
+      this.drawSystemStart(first, staffTops, x, systemIndex === 0, out);
+      x += this.systemPrefixWidth(first, systemIndex === 0);
+      
+      const natural = line.reduce((sum, m) => sum + this.measureWidth(layouts[m], m === line[0]), 0);
+      const available = this.pageWidth - this.margins.right - x;
+      const isLast = line[line.length - 1] === layouts.length - 1;
+      const contentTotal = line.reduce((sum, m) => sum + layouts[m].contentWidth, 0);
+      // Spread the room left over across the notes; a short last system keeps natural spacing
+      const stretch = isLast && natural < available * 0.75
+        ? 1
+        : 1 + Math.max(available - natural, 0) / Math.max(contentTotal, 1);
+      
+      for (const m of line) {
+        const layout = layouts[m];
+        const start = x;
+        if (m !== line[0]) x = this.drawMeasureChanges(layout, staffTops, x, out);
+        x = this.placeColumns(layout, staffTops, x, stretch);
+        
+        for (const column of layout.columns) {
+          for (const chord of column.chords) {
+            chord.heads.forEach(head => heads.set(head.index, { head, chord, system: systemIndex }));
+          }
+        }
+        this.drawMeasureNotes(layout, staffTops, out);
+        
+        // Barline through the whole system
+        const lastStaff = staffTops[staffCount - 1] + 4 * S;
+        if (m === layouts.length - 1) {
+          out.push(svgLine(x - 6, staffTops[0], x - 6, lastStaff, 1));
+          out.push(svgRect(x - 3, staffTops[0], 3, lastStaff - staffTops[0]));
+        } else {
+          out.push(svgLine(x, staffTops[0], x, lastStaff, 1));
+        }
+        system.measures.push({ number: layout.info.number, x: start, width: x - start });
+      }
+      
+      staffTops.forEach(staffTop => {
+        for (let k = 0; k < 5; k++) out.push(svgLine(this.margins.left, staffTop + k * S, x, staffTop + k * S, 0.8));
+        this.cover('staff', this.margins.left, staffTop, x, staffTop + 4 * S);
+      });
+      systems.push(system);
+      outputs.push(out);
+      y = bottom + this.systemGap * S;
+    }
+    
+    this.drawTies(score.notes, heads, systems, outputs);
+    this.drawSlurs(heads, systems, outputs);
+    systems.forEach((system, k) => { system.svg = outputs[k].join(''); });
+    
+    heads.forEach(({ head, chord, system }, index) => {
+      engraved.push({
+        noteIndex: index,
+        system,
+        staff: chord.staff,
+        x: r(head.x),
+        y: r(head.y),
+        stem: chord.stemmed ? chord.stem : undefined,
+        column: r(chord.x)
+      });
+    });
+    engraved.sort((a, b) => a.noteIndex - b.noteIndex);
+    
+    return {
+      width: this.pageWidth,
+      height: Math.max(y, 2 * S),
+      staffSpace: S,
+      systems,
+      notes: engraved,
+      obstacles: this.obstacles,
+      header: header.join(''),
+      svg: header.join('') + systems.map(s => s.svg).join('')
+    };
+  }
+
+  /**
+   * Chords and onsets of every measure, with the clef, key and time
+   * changes drawn at its start
+   */
+  private layoutMeasures(score: ParsedScore, staffCount: number): MeasureLayout[] {
+    const infos = score.measures.length > 0
+      ? score.measures
+      : [...new Set(score.notes.map(n => n.measureNumber))].sort((a, b) => a - b).map(number => ({
+        number, divisions: score.divisions, timeSignature: [4, 4] as [number, number], keySignature: 0, clefs: []
+      }));
+    
+    const byMeasure = new Map<number, { note: Note; index: number }[]>();
+    score.notes.forEach((note, index) => {
+      if (note.isRest) return;
+      if (!byMeasure.has(note.measureNumber)) byMeasure.set(note.measureNumber, []);
+      byMeasure.get(note.measureNumber)!.push({ note, index });
+    });
+    
+    let previous: MeasureLayout | null = null;
+    return infos.map(info => {
+      const clefs = Array.from({ length: staffCount }, (_, k) => {
+        const clef = info.clefs.find(c => c.staff === k + 1);
+        return clef ? { sign: clef.sign, line: clef.line } : (k === 0 ? { sign: 'G', line: 2 } : { sign: 'F', line: 4 });
+      });
+      const chords = this.buildChords(byMeasure.get(info.number) ?? [], info);
+      
+      const layout: MeasureLayout = {
+        info,
+        columns: this.buildColumns(chords, info),
+        clefs,
+        clefChanged: clefs.map((c, k) => !!previous && (previous.clefs[k].sign !== c.sign || previous.clefs[k].line !== c.line)),
+        keyChanged: !!previous && previous.info.keySignature !== info.keySignature,
+        previousKey: previous?.info.keySignature ?? 0,
+        timeChanged: !previous || previous.info.timeSignature.join('/') !== info.timeSignature.join('/'),
+        contentWidth: 0,
+        fixedWidth: 0
+      };
+      layout.columns.forEach(column => {
+        if (column.grace) layout.fixedWidth += column.space;
+        else layout.contentWidth += column.space;
+        layout.fixedWidth += column.lead;
+      });
+      previous = layout;
+      return layout;
+    });
+  }
+
+  private buildChords(entries: { note: Note; index: number }[], info: MeasureInfo): Chord[] {
+    const chords: Chord[] = [];
+    const lastByVoice = new Map<string, Chord>();
+    // Accidentals in force, by staff and written pitch, starting from the key signature
+    const alters = new Map<string, number>();
+    
+    for (const { note, index } of entries) {
+      const voiceKey = `${note.staff}|${note.voice}`;
+      const step = note.octave * 7 + STEPS.indexOf(note.step);
+      const pitchKey = `${note.staff}|${note.step}${note.octave}`;
+      const inForce = alters.get(pitchKey) ?? keyAlter(note.step, info.keySignature);
+      const head: Head = {
+        note,
+        index,
+        step,
+        x: 0,
+        y: 0,
+        accidental: note.alter !== inForce && !note.tieStop ? note.alter : undefined
+      };
+      alters.set(pitchKey, note.alter);
+      
+      const last = lastByVoice.get(voiceKey);
+      if (note.isChord && last) {
+        last.heads.push(head);
+        continue;
+      }
+      
+      const type = NOTE_TYPES[note.type] ?? NOTE_TYPES.quarter;
+      const quarters = note.isGrace ? 0 : note.duration / (info.divisions || 1);
+      const ratio = quarters / type.quarters;
+      const chord: Chord = {
+        heads: [head],
+        staff: note.staff,
+        voice: note.voice,
+        beat: note.beat,
+        grace: note.isGrace,
+        beams: type.beams,
+        dots: Math.abs(ratio - 1.75) < 0.01 ? 2 : Math.abs(ratio - 1.5) < 0.01 ? 1 : 0,
+        hollow: type.quarters >= 2,
+        stemmed: type.quarters < 4,
+        quarters,
+        x: 0,
+        stem: 'up',
+        stemX: 0,
+        stemEnd: 0
+      };
+      chords.push(chord);
+      lastByVoice.set(voiceKey, chord);
+    }
+    
+    chords.forEach(chord => chord.heads.sort((a, b) => a.step - b.step));
+    return chords;
+  }
+
+  /**
+   * Onsets of a measure across all staves; grace notes get narrow
+   * columns just before the note they lead into
+   */
+  private buildColumns(chords: Chord[], info: MeasureInfo): Column[] {
+    const S = this.staffSpace;
+    const keyed = new Map<number, Column>();
+    const pendingGraces = new Map<string, Chord[]>();
+    
+    const place = (chord: Chord, key: number) => {
+      if (!keyed.has(key)) {
+        keyed.set(key, { key, beat: chord.beat, grace: chord.grace, chords: [], lead: 0, space: 0, x: 0 });
+      }
+      keyed.get(key)!.chords.push(chord);
+    };
+    
+    for (const chord of chords) {
+      const voiceKey = `${chord.staff}|${chord.voice}`;
+      const beatKey = Math.round(chord.beat * 1000) / 1000;
+      if (chord.grace) {
+        pendingGraces.set(voiceKey, [...(pendingGraces.get(voiceKey) ?? []), chord]);
+        continue;
+      }
+      const graces = pendingGraces.get(voiceKey) ?? [];
+      graces.forEach((grace, k) => place(grace, beatKey - (graces.length - k) * 1e-4));
+      pendingGraces.delete(voiceKey);
+      place(chord, beatKey);
+    }
+    pendingGraces.forEach(graces => graces.forEach((grace, k) => {
+      place(grace, Math.round(grace.beat * 1000) / 1000 + (k + 1) * 1e-4);
+    }));
+    
+    const columns = [...keyed.values()].sort((a, b) => a.key - b.key);
+    const measureLength = info.timeSignature[0] * 4 / info.timeSignature[1];
+    const mains = columns.filter(c => !c.grace);
+    
+    columns.forEach(column => {
+      const accidentals = Math.max(0, ...column.chords.map(chord => this.arrangeAccidentals(chord)));
+      const displaced = column.chords.some(chord => this.hasSeconds(chord));
+      column.lead = (accidentals > 0 ? 0.4 * S + accidentals * S : 0) + (displaced ? S : 0);
+      
+      if (column.grace) {
+        column.space = 1.6 * S;
+        return;
+      }
+      // Space grows with the square root of the time to the next onset
+      const next = mains[mains.indexOf(column) + 1];
+      const gap = Math.max((next ? next.beat : Math.max(measureLength, column.beat + this.longest(column))) - column.beat, 0.125);
+      const dots = Math.max(0, ...column.chords.map(c => c.dots));
+      column.space = (1.2 + 1.8 * Math.sqrt(gap)) * S + dots * 0.6 * S;
+    });
+    
+    return columns;
+  }
+
+  private longest(column: Column): number {
+    return Math.max(...column.chords.map(c => c.quarters));
+  }
+
+  private hasSeconds(chord: Chord): boolean {
+    return chord.heads.some((h, i) => i > 0 && h.step - chord.heads[i - 1].step === 1);
+  }
+
+  /**
+   * Sets each accidental's column from the notehead, top down, so that
+   * accidentals within a sixth of each other do not overlap; returns the
+   * number of columns used
+   */
+  private arrangeAccidentals(chord: Chord): number {
+    const marked = chord.heads.filter(h => h.accidental !== undefined).reverse();
+    const columns: number[][] = [];
+    
+    marked.forEach(head => {
+      let c = columns.findIndex(steps => steps.every(s => Math.abs(s - head.step) > 5));
+      if (c < 0) {
+        c = columns.length;
+        columns.push([]);
+      }
+      columns[c].push(head.step);
+      head.accidentalX = c;
+    });
+    
+    return columns.length;
+  }
+
+  // Measures of each system, as indices into the layouts
+  private breakSystems(layouts: MeasureLayout[]): number[][] {
+    const available = this.pageWidth - this.margins.left - this.margins.right;
+    const lines: number[][] = [];
+    let current: number[] = [];
+    let used = 0;
+    
+    layouts.forEach((layout, m) => {
+      const width = this.measureWidth(layout, current.length === 0);
+      if (current.length > 0 && used + width > available) {
+        lines.push(current);
+        current = [];
+      }
+      used = current.length === 0
+        ? this.systemPrefixWidth(layout, m === 0) + this.measureWidth(layout, true)
+        : used + width;
+      current.push(m);
+    });
+    if (current.length > 0) lines.push(current);
+    
+    return lines;
+  }
+
+  // Natural width of a measure; changes at a system start go into the system's prefix
+  private measureWidth(layout: MeasureLayout, atSystemStart: boolean): number {
+    return (atSystemStart ? 0 : this.changesWidth(layout)) + 1.2 * this.staffSpace + layout.fixedWidth + layout.contentWidth;
+  }
+
+  private systemPrefixWidth(layout: MeasureLayout, isFirst: boolean): number {
+    const S = this.staffSpace;
+    const key = Math.abs(layout.info.keySignature);
+    return 3.6 * S + (key > 0 ? key * S + 0.6 * S : 0) + (isFirst || layout.timeChanged ? 2.6 * S : 0);
+  }
+
+  private changesWidth(layout: MeasureLayout): number {
+    const S = this.staffSpace;
+    let width = 0;
+    if (layout.clefChanged.some(Boolean)) width += 2.6 * S;
+    if (layout.keyChanged) width += Math.max(Math.abs(layout.info.keySignature), Math.abs(layout.previousKey)) * S + 0.6 * S;
+    if (layout.timeChanged) width += 2.6 * S;
+    return width;
+  }
+
+  private header(score: ParsedScore, out: string[]): number {
+    const S = this.staffSpace;
+    if (!score.title && !score.composer) return S;
+    
+    if (score.title) out.push(svgText(this.pageWidth / 2, 3 * S, escape(score.title), 2.2 * S, 'middle', TEXT_FONT));
+    if (score.composer) out.push(svgText(this.pageWidth - this.margins.right, 5.5 * S, escape(score.composer), 1.3 * S, 'end', TEXT_FONT));
+    return 6 * S;
+  }
+
+  // Brace, clefs, key signature and (when due) time signature
+  private drawSystemStart(layout: MeasureLayout, staffTops: number[], x: number, isFirst: boolean, out: string[]) {
+    const S = this.staffSpace;
+    const lastBottom = staffTops[staffTops.length - 1] + 4 * S;
+    
+    out.push(svgLine(x, staffTops[0], x, lastBottom, 1));
+    if (staffTops.length > 1) out.push(brace(x - 0.6 * S, staffTops[0], lastBottom, S));
+    if (!isFirst) {
+      const number = String(layout.info.number);
+      out.push(svgText(x, staffTops[0] - 1.5 * S, number, 1.1 * S, 'start', TEXT_FONT, 'italic'));
+      this.cover('text', x, staffTops[0] - 2.4 * S, x + number.length * 0.6 * S, staffTops[0] - 1.3 * S);
+    }
+    
+    let cursor = x + 0.6 * S;
+    staffTops.forEach((top, k) => this.drawClef(layout.clefs[k], top, cursor + 1.2 * S, 4 * S, out));
+    cursor += 3 * S;
+    cursor = this.drawKey(layout, staffTops, cursor, layout.info.keySignature, false, out);
+    if (isFirst || layout.timeChanged) this.drawTime(layout.info, staffTops, cursor, out);
+  }
+
+  // Clef, key and time changes at the start of a measure inside a system
+  private drawMeasureChanges(layout: MeasureLayout, staffTops: number[], x: number, out: string[]): number {
+    const S = this.staffSpace;
+    let cursor = x;
+    
+    if (layout.clefChanged.some(Boolean)) {
+      staffTops.forEach((top, k) => {
+        if (layout.clefChanged[k]) this.drawClef(layout.clefs[k], top, cursor + 1.2 * S, 3 * S, out);
+      });
+      cursor += 2.6 * S;
+    }
+    if (layout.keyChanged) {
+      // A change to no key cancels the old one with naturals
+      const cancel = layout.info.keySignature === 0;
+      cursor = this.drawKey(layout, staffTops, cursor + 0.3 * S, cancel ? layout.previousKey : layout.info.keySignature, cancel, out);
+    }
+    if (layout.timeChanged) {
+      this.drawTime(layout.info, staffTops, cursor, out);
+      cursor += 2.6 * S;
+    }
+    return cursor;
+  }
+
+  private drawClef(clef: Clef, staffTop: number, x: number, size: number, out: string[]) {
+    const glyph = CLEF_GLYPHS[clef.sign];
+    if (!glyph) return;
+    const S = this.staffSpace;
+    const y = staffTop + (5 - clef.line) * S;
+    this.drawGlyph(glyph, x, y, size / (4 * S), 'text', out);
+  }
+
+  // A glyph at the given fraction of its full size, covering its extent
+  private drawGlyph(glyph: Glyph, x: number, y: number, scale: number, kind: ObstacleKind | null, out: string[]) {
+    const unit = this.staffSpace * scale;
+    out.push(svgGlyph(glyph, x, y, unit));
+    if (!kind) return;
+    const [left, top, right, bottom] = glyph.box;
+    this.cover(kind, x + left * unit, y + top * unit, x + right * unit, y + bottom * unit);
+  }
+
+  private drawKey(layout: MeasureLayout, staffTops: number[], x: number, fifths: number, naturals: boolean, out: string[]): number {
+    const S = this.staffSpace;
+    const count = Math.min(Math.abs(fifths), 7);
+    if (count === 0) return x;
+    
+    const steps = fifths > 0 ? SHARP_STEPS : FLAT_STEPS;
+    const glyph = ACCIDENTAL_GLYPHS[naturals ? 0 : Math.sign(fifths)];
+    staffTops.forEach((top, k) => {
+      const clef = layout.clefs[k];
+      for (let i = 0; i < count; i++) {
+        const y = this.stepY(steps[i] + (CLEF_KEY_SHIFT[clef.sign] ?? 0), clef, top);
+        this.drawGlyph(glyph, x + (i + 0.5) * S, y, 1, null, out);
+      }
+    });
+    return x + count * S + 0.6 * S;
+  }
+
+  private drawTime(info: MeasureInfo, staffTops: number[], x: number, out: string[]) {
+    const S = this.staffSpace;
+    const [beats, beatType] = info.timeSignature;
+    staffTops.forEach(top => {
+      out.push(svgText(x + 1.1 * S, top + S, String(beats), 2.2 * S, 'middle', TEXT_FONT, 'bold', 'central'));
+      out.push(svgText(x + 1.1 * S, top + 3 * S, String(beatType), 2.2 * S, 'middle', TEXT_FONT, 'bold', 'central'));
+    });
+  }
+
+  // x of every column and head, then stems and beams
+  private placeColumns(layout: MeasureLayout, staffTops: number[], x: number, stretch: number): number {
+    const S = this.staffSpace;
+    let cursor = x + 1.2 * S;
+    
+    layout.columns.forEach(column => {
+      cursor += column.lead;
+      column.x = cursor;
+      column.chords.forEach(chord => {
+        const clef = layout.clefs[chord.staff - 1];
+        chord.x = cursor;
+        chord.heads.forEach(head => {
+          head.x = cursor;
+          head.y = this.stepY(head.step, clef, staffTops[chord.staff - 1]);
+        });
+      });
+      cursor += column.space * (column.grace ? 1 : stretch);
+    });
+    
+    this.setStems(layout, staffTops);
+    return cursor;
+  }
+
+  /**
+   * Stem directions and lengths; notes of one beat in one voice are beamed
+   * together and share a direction
+   */
+  private setStems(layout: MeasureLayout, staffTops: number[]) {
+    const S = this.staffSpace;
+    const [beats, beatType] = layout.info.timeSignature;
+    // Compound meters beam by dotted quarter
+    const beamUnit = beatType >= 8 && beats % 3 === 0 ? 1.5 * 8 / beatType : 4 / beatType;
+    
+    const voices = new Map<string, Chord[]>();
+    layout.columns.forEach(column => column.chords.forEach(chord => {
+      const key = `${chord.staff}|${chord.voice}`;
+      if (!voices.has(key)) voices.set(key, []);
+      voices.get(key)!.push(chord);
+    }));
+    const voicesOnStaff = (staff: number) => [...voices.keys()].filter(k => k.startsWith(`${staff}|`)).length;
+    
+    voices.forEach(chords => {
+      const groups: Chord[][] = [];
+      chords.forEach((chord, i) => {
+        const prev = chords[i - 1];
+        const group = groups[groups.length - 1];
+        const joins = prev && group?.includes(prev) && chord.beams > 0 && !chord.grace && !prev.grace &&
+          Math.floor((chord.beat + 1e-6) / beamUnit) === Math.floor((prev.beat + 1e-6) / beamUnit) &&
+          Math.abs(prev.beat + prev.quarters - chord.beat) < 1e-3;
+        if (joins) group.push(chord);
+        else groups.push([chord]);
+      });
+      
+      groups.forEach(group => {
+        const staffTop = staffTops[group[0].staff - 1];
+        const direction = this.stemDirection(group, layout.clefs[group[0].staff - 1], voicesOnStaff(group[0].staff));
+        group.forEach(chord => this.placeStem(chord, direction, staffTop));
+        if (group.length > 1) this.alignBeam(group, direction, S);
+      });
+    });
+  }
+
+  private stemDirection(group: Chord[], clef: Clef, voiceCount: number): 'up' | 'down' {
+    const written = group[0].heads.find(h => h.note.stem === 'up' || h.note.stem === 'down')?.note.stem;
+    if (written) return written;
+    if (voiceCount > 1) return group[0].voice % 2 === 1 ? 'up' : 'down';
+    
+    const middle = this.bottomLineStep(clef) + 4;
+    const highest = Math.max(...group.flatMap(c => c.heads.map(h => h.step)));
+    const lowest = Math.min(...group.flatMap(c => c.heads.map(h => h.step)));
+    return highest - middle >= middle - lowest ? 'down' : 'up';
+  }
+
+  private placeStem(chord: Chord, direction: 'up' | 'down', staffTop: number) {
+    const S = this.staffSpace;
+    const scale = chord.grace ? 0.65 : 1;
+    const rx = 0.6 * S * scale;
+    const column = chord.heads[0].x;
+    const middle = staffTop + 2 * S;
+    const length = (3.5 + Math.max(chord.beams - 1, 0) * 0.75) * S * scale;
+    const ys = chord.heads.map(h => h.y);
+    
+    chord.stem = direction;
+    if (direction === 'up') {
+      chord.stemX = column + rx - 0.5;
+      chord.stemEnd = chord.grace ? Math.min(...ys) - length : Math.min(Math.min(...ys) - length, middle);
+    } else {
+      chord.stemX = column - rx + 0.5;
+      chord.stemEnd = chord.grace ? Math.max(...ys) + length : Math.max(Math.max(...ys) + length, middle);
+    }
+  }
+
+  // One straight beam over the group, its slope limited to a staff space
+  private alignBeam(group: Chord[], direction: 'up' | 'down', S: number) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const dx = last.stemX - first.stemX || 1;
+    const slope = Math.max(-S / dx, Math.min(S / dx, (last.stemEnd - first.stemEnd) / dx));
+    const offsets = group.map(c => c.stemEnd - slope * (c.stemX - first.stemX));
+    const start = direction === 'up' ? Math.min(...offsets) : Math.max(...offsets);
+    
+    group.forEach(chord => {
+      chord.stemEnd = start + slope * (chord.stemX - first.stemX);
+      chord.beam = group;
+    });
+  }
+
+  private drawMeasureNotes(layout: MeasureLayout, staffTops: number[], out: string[]) {
+    const S = this.staffSpace;
+    
+    layout.columns.forEach(column => column.chords.forEach(chord => {
+      const staffTop = staffTops[chord.staff - 1];
+      const clef = layout.clefs[chord.staff - 1];
+      const scale = chord.grace ? 0.65 : 1;
+      
+      this.displaceSeconds(chord, column.x, scale);
+      this.drawLedgerLines(chord, clef, staffTop, scale, out);
+      this.drawArticulations(chord, out);
+      
+      chord.heads.forEach(head => {
+        if (head.accidental !== undefined) {
+          const ax = column.x - (0.6 * scale + 0.9 + (head.accidentalX ?? 0)) * S - (this.hasSeconds(chord) && chord.stem === 'down' ? S : 0);
+          const glyph = ACCIDENTAL_GLYPHS[head.accidental];
+          if (glyph) this.drawGlyph(glyph, ax, head.y, scale, 'accidental', out);
+        }
+        out.push(notehead(head.x, head.y, chord.hollow, !chord.stemmed, S * scale, head.index));
+        this.cover('notehead', head.x - 0.7 * S * scale, head.y - 0.5 * S * scale, head.x + 0.7 * S * scale, head.y + 0.5 * S * scale);
+        
+        for (let d = 0; d < chord.dots; d++) {
+          const onLine = (head.step - this.bottomLineStep(clef)) % 2 === 0;
+          const dy = onLine ? -S / 2 : 0;
+          out.push(`<circle cx="${r(column.x + (1.1 + d * 0.5) * S)}" cy="${r(head.y + dy)}" r="${r(0.18 * S)}" fill="currentColor"/>`);
+        }
+      });
+      
+      if (!chord.stemmed) return;
+      const ys = chord.heads.map(h => h.y);
+      const from = chord.stem === 'up' ? Math.max(...ys) : Math.min(...ys);
+      out.push(svgLine(chord.stemX, from, chord.stemX, chord.stemEnd, 1.1 * scale));
+      this.cover('stem', chord.stemX - 1, from, chord.stemX + 1, chord.stemEnd);
+      
+      if (chord.beam) {
+        if (chord.beam[0] === chord) this.drawBeams(chord.beam, out);
+        return;
+      }
+      for (let k = 0; k < chord.beams; k++) out.push(flag(chord.stemX, chord.stemEnd, chord.stem, k, S * scale));
+      if (chord.beams > 0) {
+        const reach = (3 + (chord.beams - 1) * 0.8) * S * scale * (chord.stem === 'up' ? 1 : -1);
+        this.cover('flag', chord.stemX, chord.stemEnd, chord.stemX + 1.4 * S * scale, chord.stemEnd + reach);
+      }
+      if (chord.grace && chord.beams > 0) {
+        // Acciaccatura slash
+        const sy = chord.stemEnd + (chord.stem === 'up' ? 1.6 : -1.6) * S * scale;
+        out.push(svgLine(chord.stemX - 0.6 * S * scale, sy + 0.6 * S, chord.stemX + 0.9 * S * scale, sy - 0.6 * S, 0.8));
+      }
+    }));
+
+  }
+
+  private drawBeams(group: Chord[], out: string[]) {
+    const S = this.staffSpace;
+    const thickness = 0.5 * S;
+    const direction = group[0].stem === 'up' ? 1 : -1;
+    const first = group[0];
+    const last = group[group.length - 1];
+    const slope = (last.stemEnd - first.stemEnd) / ((last.stemX - first.stemX) || 1);
+    // Further beams lie inside the first, towards the noteheads
+    const segment = (x1: number, x2: number, level: number) => {
+      const y1 = first.stemEnd + slope * (x1 - first.stemX) + direction * level * 0.75 * S;
+      const y2 = y1 + slope * (x2 - x1);
+      const t = direction * thickness;
+      out.push(`<polygon points="${r(x1)},${r(y1)} ${r(x2)},${r(y2)} ${r(x2)},${r(y2 + t)} ${r(x1)},${r(y1 + t)}" fill="currentColor"/>`);
+      this.coverPath('beam', [[x1, y1 + t / 2], [x2, y2 + t / 2]], thickness);
+    };
+    
+    segment(first.stemX, last.stemX, 0);
+    
+    const levels = Math.max(...group.map(c => c.beams));
+    for (let level = 1; level < levels; level++) {
+      group.forEach((chord, i) => {
+        if (chord.beams <= level) return;
+        const next = group[i + 1];
+        const prev = group[i - 1];
+        if (next && next.beams > level) {
+          segment(chord.stemX, next.stemX, level);
+        } else if (!(prev && prev.beams > level)) {
+          // Broken beam: a stub towards the neighbour
+          segment(chord.stemX, chord.stemX + (next ? 1 : -1) * 1.2 * S, level);
+        }
+      });
+    }
+  }
+
+  // Heads a second apart sit on opposite sides of the stem
+  private displaceSeconds(chord: Chord, x: number, scale: number) {
+    const width = 1.2 * this.staffSpace * scale - 1;
+    const heads = chord.stem === 'up' ? chord.heads : [...chord.heads].reverse();
+    let previous: Head | null = null;
+    let previousShifted = false;
+    
+    heads.forEach(head => {
+      const shifted = !!previous && Math.abs(head.step - previous.step) === 1 && !previousShifted;
+      head.x = shifted ? x + (chord.stem === 'up' ? width : -width) : x;
+      previous = head;
+      previousShifted = shifted;
+    });
+  }
+
+  private drawLedgerLines(chord: Chord, clef: Clef, staffTop: number, scale: number, out: string[]) {
+    const S = this.staffSpace;
+    const bottom = this.bottomLineStep(clef);
+    const xs = chord.heads.map(h => h.x);
+    const left = Math.min(...xs) - 1.0 * S * scale;
+    const right = Math.max(...xs) + 1.0 * S * scale;
+    const highest = chord.heads[chord.heads.length - 1].step;
+    const lowest = chord.heads[0].step;
+    
+    for (let step = bottom + 10; step <= highest; step += 2) {
+      const y = this.stepY(step, clef, staffTop);
+      out.push(svgLine(left, y, right, y, 0.9));
+      this.cover('ledger', left, y - 1, right, y + 1);
+    }
+    for (let step = bottom - 2; step >= lowest; step -= 2) {
+      const y = this.stepY(step, clef, staffTop);
+      out.push(svgLine(left, y, right, y, 0.9));
+      this.cover('ledger', left, y - 1, right, y + 1);
+    }
+  }
+
+  // Arcs from each tied note to the next note of its pitch on its staff, drawn with its system
+  private drawTies(
+    notes: Note[],
+    heads: Map<number, { head: Head; chord: Chord; system: number }>,
+    systems: EngravedSystem[],
+    outputs: string[][]
+  ) {
+    const S = this.staffSpace;
+    
+    heads.forEach(({ head, chord, system }, index) => {
+      if (!head.note.tieStart) return;
+      const target = notes.findIndex((n, j) => j > index && n.pitch === head.note.pitch && n.staff === head.note.staff && n.tieStop);
+      const end = heads.get(target);
+      if (!end) return;
+      
+      const side = chord.stem === 'up' ? 1 : -1;
+      const y = head.y + side * 0.7 * S;
+      if (end.system === system) {
+        this.drawTie(system, head.x + 0.8 * S, end.head.x - 0.8 * S, y, side, outputs);
+      } else {
+        // Across a line break: to the end of this system and from the start of the next
+        this.drawTie(system, head.x + 0.8 * S, this.pageWidth - this.margins.right, y, side, outputs);
+        const endY = end.head.y + side * 0.7 * S;
+        const startX = systems[end.system].measures[0]?.x ?? this.margins.left;
+        this.drawTie(end.system, startX, end.head.x - 0.8 * S, endY, side, outputs);
+      }
+    });
+  }
+
+  private drawTie(system: number, x1: number, x2: number, y: number, side: number, outputs: string[][]) {
+    const S = this.staffSpace;
+    const height = Math.min(1.2 * S, Math.max(0.5 * S, (x2 - x1) / 8)) * side;
+    const mid = (x1 + x2) / 2;
+    
+    outputs[system].push(
+      `<path d="M${r(x1)} ${r(y)} Q${r(mid)} ${r(y + height * 2)} ${r(x2)} ${r(y)} Q${r(mid)} ${r(y + height * 1.6)} ${r(x1)} ${r(y)}Z" fill="currentColor"/>`
+    );
+    this.system = system;
+    this.coverPath('tie', curvePoints([[x1, y], [mid, y + height * 2], [x2, y]]), 0.3 * S);
+  }
+
+  /**
+   * Slurs from each slur start to the next slur stop in its voice, on the
+   * notehead side when both ends have stems up and above otherwise, arched
+   * to clear the notes they pass over
+   */
+  private drawSlurs(heads: Map<number, { head: Head; chord: Chord; system: number }>, systems: EngravedSystem[], outputs: string[][]) {
+    const indices = [...heads.keys()].sort((a, b) => a - b);
+    const chordsOn = new Map<string, Set<Chord>>();
+    indices.forEach(index => {
+      const { chord, system } = heads.get(index)!;
+      const key = `${system}|${chord.staff}`;
+      if (!chordsOn.has(key)) chordsOn.set(key, new Set());
+      chordsOn.get(key)!.add(chord);
+    });
+    
+    const open = new Map<string, { chord: Chord; system: number }>();
+    indices.forEach(index => {
+      const { head, chord, system } = heads.get(index)!;
+      const voice = `${chord.staff}|${chord.voice}`;
+      const start = open.get(voice);
+      if (head.note.slurStop && start && start.chord !== chord) {
+        open.delete(voice);
+        this.drawSlur(start, { chord, system }, systems, chordsOn, outputs);
+      }
+      if (head.note.slurStart) open.set(voice, { chord, system });
+    });
+  }
+
+  private drawSlur(
+    from: { chord: Chord; system: number },
+    to: { chord: Chord; system: number },
+    systems: EngravedSystem[],
+    chordsOn: Map<string, Set<Chord>>,
+    outputs: string[][]
+  ) {
+    const S = this.staffSpace;
+    const side = from.chord.stemmed && to.chord.stemmed && from.chord.stem === 'up' && to.chord.stem === 'up' ? 1 : -1;
+    // Clear of the outer head, or of the stem tip where the stem points the slur's way
+    const end = (chord: Chord) => {
+      const atStem = chord.stemmed && (chord.stem === 'up' ? -1 : 1) === side;
+      const ys = chord.heads.map(h => h.y);
+      const y = atStem ? chord.stemEnd : side < 0 ? Math.min(...ys) : Math.max(...ys);
+      return { x: atStem ? chord.stemX : chord.x, y: y + side * 0.8 * S };
+    };
+    const a = end(from.chord);
+    const b = end(to.chord);
+    const staff = from.chord.staff;
+    
+    if (from.system === to.system) {
+      this.drawSlurSegment(from.system, staff, a, b, side, chordsOn, outputs);
+    } else {
+      this.drawSlurSegment(from.system, staff, a, { x: this.pageWidth - this.margins.right, y: a.y }, side, chordsOn, outputs);
+      const startX = systems[to.system].measures[0]?.x ?? this.margins.left;
+      this.drawSlurSegment(to.system, staff, { x: startX, y: b.y }, b, side, chordsOn, outputs);
+    }
+  }
+
+  private drawSlurSegment(
+    system: number,
+    staff: number,
+    a: { x: number; y: number },
+    b: { x: number; y: number },
+    side: number,
+    chordsOn: Map<string, Set<Chord>>,
+    outputs: string[][]
+  ) {
+    const S = this.staffSpace;
+    const span = Math.max(b.x - a.x, 1);
+    let height = Math.min(2 * S, Math.max(0.8 * S, span / 10));
+    
+    // The arch rises 4t(1-t) of its height at t along the way; raise it until it passes every chord
+    chordsOn.get(`${system}|${staff}`)?.forEach(chord => {
+      if (chord.x <= a.x + 0.5 * S || chord.x >= b.x - 0.5 * S) return;
+      const t = Math.min(Math.max((chord.x - a.x) / span, 0.1), 0.9);
+      const ys = [...chord.heads.map(h => h.y), ...(chord.stemmed ? [chord.stemEnd] : [])];
+      const extreme = side < 0 ? Math.min(...ys) - 0.8 * S : Math.max(...ys) + 0.8 * S;
+      const baseline = a.y + (b.y - a.y) * t;
+      height = Math.max(height, (extreme - baseline) * side / (4 * t * (1 - t)));
+    });
+    height = Math.min(height, 6 * S);
+    
+    const outer = side * height * 4 / 3;
+    const inner = side * (height * 4 / 3 - 0.3 * S);
+    const c1 = { x: a.x + (b.x - a.x) / 4, y: a.y + (b.y - a.y) / 4 };
+    const c2 = { x: a.x + (b.x - a.x) * 3 / 4, y: a.y + (b.y - a.y) * 3 / 4 };
+    outputs[system].push(
+      `<path d="M${r(a.x)} ${r(a.y)} C${r(c1.x)} ${r(c1.y + outer)} ${r(c2.x)} ${r(c2.y + outer)} ${r(b.x)} ${r(b.y)} ` +
+      `C${r(c2.x)} ${r(c2.y + inner)} ${r(c1.x)} ${r(c1.y + inner)} ${r(a.x)} ${r(a.y)}Z" fill="currentColor"/>`
+    );
+    this.system = system;
+    this.coverPath('slur', curvePoints([[a.x, a.y], [c1.x, c1.y + outer], [c2.x, c2.y + outer], [b.x, b.y]]), 0.3 * S);
+  }
+
+  // Staccato dots and accents on the notehead side, away from the stem
+  private drawArticulations(chord: Chord, out: string[]) {
+    const staccato = chord.heads.some(h => h.note.hasStaccato);
+    const accent = chord.heads.some(h => h.note.hasAccent);
+    if (!staccato && !accent) return;
+    
+    const S = this.staffSpace;
+    const side = chord.stemmed && chord.stem === 'up' ? 1 : -1;
+    const ys = chord.heads.map(h => h.y);
+    let y = (side < 0 ? Math.min(...ys) : Math.max(...ys)) + side * S;
+    
+    if (staccato) {
+      out.push(`<circle cx="${r(chord.x)}" cy="${r(y)}" r="${r(0.2 * S)}" fill="currentColor"/>`);
+      this.cover('articulation', chord.x - 0.3 * S, y - 0.3 * S, chord.x + 0.3 * S, y + 0.3 * S);
+      y += side * S;
+    }
+    if (accent) {
+      out.push(
+        `<path d="M${r(chord.x - 0.7 * S)} ${r(y - 0.35 * S)}L${r(chord.x + 0.7 * S)} ${r(y)}L${r(chord.x - 0.7 * S)} ${r(y + 0.35 * S)}" ` +
+        `fill="none" stroke="currentColor" stroke-width="${r(0.15 * S)}"/>`
+      );
+      this.cover('articulation', chord.x - 0.8 * S, y - 0.45 * S, chord.x + 0.8 * S, y + 0.45 * S);
+    }
+  }
+
+  // Box between two corners, in the system being drawn
+  private cover(kind: ObstacleKind, x1: number, y1: number, x2: number, y2: number) {
+    this.obstacles.push({
+      system: this.system,
+      kind,
+      x: r(Math.min(x1, x2)),
+      y: r(Math.min(y1, y2)),
+      width: r(Math.abs(x2 - x1)),
+      height: r(Math.abs(y2 - y1))
+    });
+  }
+
+  // Boxes along a line through the points, a staff space wide or less, so slanted and curved lines stay tight
+  private coverPath(kind: ObstacleKind, points: [number, number][], thickness: number) {
+    const S = this.staffSpace;
+    for (let i = 1; i < points.length; i++) {
+      const [x1, y1] = points[i - 1];
+      const [x2, y2] = points[i];
+      const pieces = Math.max(1, Math.ceil(Math.abs(x2 - x1) / S));
+      for (let k = 0; k < pieces; k++) {
+        const ya = y1 + (y2 - y1) * k / pieces;
+        const yb = y1 + (y2 - y1) * (k + 1) / pieces;
+        this.cover(
+          kind,
+          x1 + (x2 - x1) * k / pieces, Math.min(ya, yb) - thickness / 2,
+          x1 + (x2 - x1) * (k + 1) / pieces, Math.max(ya, yb) + thickness / 2
+        );
+      }
+    }
+  }
+
+  private bottomLineStep(clef: Clef): number {
+    // Reference pitch of the clef, on the clef's line
+    const reference = clef.sign === 'F' ? 3 * 7 + 3 : clef.sign === 'C' ? 4 * 7 : 4 * 7 + 4;
+    return reference - 2 * (clef.line - 1);
+  }
+
+  private stepY(step: number, clef: Clef, staffTop: number): number {
+    return staffTop + 4 * this.staffSpace - (step - this.bottomLineStep(clef)) * this.staffSpace / 2;
+  }
+}
+
+// Alteration the key signature gives a step
+function keyAlter(step: string, fifths: number): number {
+  const position = SHARP_ORDER.indexOf(step);
+  if (fifths > 0) return position < fifths ? 1 : 0;
+  if (fifths < 0) return 6 - position < -fifths ? -1 : 0;
+  return 0;
+}
+
+const r = (value: number) => Math.round(value * 10) / 10;
+
+function escape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function svgLine(x1: number, y1: number, x2: number, y2: number, width: number): string {
+  return `<line x1="${r(x1)}" y1="${r(y1)}" x2="${r(x2)}" y2="${r(y2)}" stroke="currentColor" stroke-width="${width}"/>`;
+}
+
+function svgRect(x: number, y: number, width: number, height: number): string {
+  return `<rect x="${r(x)}" y="${r(y)}" width="${r(width)}" height="${r(height)}" fill="currentColor"/>`;
+}
+
+function svgText(
+  x: number, y: number, content: string, size: number, anchor: 'start' | 'middle' | 'end', font: string,
+  style?: 'bold' | 'italic', baseline?: 'central'
+): string {
+  const weight = style === 'bold' ? ' font-weight="bold"' : style === 'italic' ? ' font-style="italic"' : '';
+  const align = baseline ? ` dominant-baseline="${baseline}"` : '';
+  return `<text x="${r(x)}" y="${r(y)}" font-family="${font}" font-size="${r(size)}" text-anchor="${anchor}"${align}${weight} fill="currentColor">${content}</text>`;
+}
+
+function svgGlyph(glyph: Glyph, x: number, y: number, unit: number): string {
+  const stroke = glyph.stroke
+    ? `<path d="${glyph.stroke}" fill="none" stroke="currentColor" stroke-width="${glyph.strokeWidth}" stroke-linecap="round"/>`
+    : '';
+  return `<g transform="translate(${r(x)} ${r(y)}) scale(${r(unit)})"><path d="${glyph.fill}" fill="currentColor"/>${stroke}</g>`;
+}
+
+// Glyph outlines are built when the module loads, before r() is defined
+function hundredths(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A circle as a glyph outline
+function dot(cx: number, cy: number, radius: number): string {
+  const [x1, x2, y1, y2] = [cx - radius, cx + radius, cy - radius, cy + radius].map(hundredths);
+  const k = 0.55 * radius;
+  const [kx1, kx2, ky1, ky2] = [cx - k, cx + k, cy - k, cy + k].map(hundredths);
+  return `M${x2} ${cy} C${x2} ${ky2} ${kx2} ${y2} ${cx} ${y2} C${kx1} ${y2} ${x1} ${ky2} ${x1} ${cy} ` +
+    `C${x1} ${ky1} ${kx1} ${y1} ${cx} ${y1} C${kx2} ${y1} ${x2} ${ky1} ${x2} ${cy} Z`;
+}
+
+function bar(x1: number, y1: number, x2: number, y2: number): string {
+  return `M${x1} ${y1} L${x2} ${y1} L${x2} ${y2} L${x1} ${y2} Z`;
+}
+
+// A flat with its stem at the given offset
+function flat(dx: number): string {
+  const x = (value: number) => hundredths(dx + value);
+  return `${bar(x(-0.4), -1.6, x(-0.28), 0.55)} M${x(-0.28)} 0.55 C${x(0.2)} 0.25 ${x(0.6)} -0.05 ${x(0.45)} -0.35 ` +
+    `C${x(0.3)} -0.6 ${x(-0.05)} -0.5 ${x(-0.28)} -0.2 L${x(-0.28)} -0.05 C${x(-0.1)} -0.3 ${x(0.2)} -0.35 ${x(0.25)} -0.2 ` +
+    `C${x(0.3)} -0.02 ${x(0.05)} 0.2 ${x(-0.28)} 0.4 Z`;
+}
+
+function notehead(x: number, y: number, hollow: boolean, whole: boolean, S: number, index: number): string {
+  const rx = (whole ? 0.75 : 0.6) * S;
+  const ry = (whole ? 0.45 : 0.42) * S;
+  const rotate = whole ? '' : ` transform="rotate(-20 ${r(x)} ${r(y)})"`;
+  const paint = hollow
+    ? `fill="transparent" stroke="currentColor" stroke-width="${r(whole ? 0.22 * S : 0.16 * S)}"`
+    : 'fill="currentColor"';
+  return `<ellipse class="notehead" data-note="${index}" cx="${r(x)}" cy="${r(y)}" rx="${r(rx)}" ry="${r(ry)}"${rotate} ${paint}/>`;
+}
+
+function flag(x: number, y: number, stem: 'up' | 'down', level: number, S: number): string {
+  const d = stem === 'up' ? 1 : -1;
+  const y0 = y + d * level * 0.8 * S;
+  return `<path d="M${r(x)} ${r(y0)} c${r(0.2 * S)} ${r(d * 1.2 * S)} ${r(1.4 * S)} ${r(d * 1.4 * S)} ${r(0.9 * S)} ${r(d * 3 * S)}" fill="none" stroke="currentColor" stroke-width="${r(0.16 * S)}"/>`;
+}
+
+// Points along a Bézier curve, by repeated interpolation between its control points
+function curvePoints(controls: [number, number][], steps = 8): [number, number][] {
+  return Array.from({ length: steps + 1 }, (_, k) => {
+    const t = k / steps;
+    let points = controls;
+    while (points.length > 1) {
+      points = points.slice(1).map(([x, y], i) => [points[i][0] + (x - points[i][0]) * t, points[i][1] + (y - points[i][1]) * t]);
+    }
+    return points[0];
+  });
+}
+
+function brace(x: number, top: number, bottom: number, S: number): string {
+  const mid = (top + bottom) / 2;
+  const h = bottom - top;
+  return `<path d="M${r(x)} ${r(top)} C${r(x - 1.4 * S)} ${r(top + h * 0.15)} ${r(x + 0.2 * S)} ${r(mid - h * 0.2)} ${r(x - 1.0 * S)} ${r(mid)} ` +
+    `C${r(x + 0.2 * S)} ${r(mid + h * 0.2)} ${r(x - 1.4 * S)} ${r(bottom - h * 0.15)} ${r(x)} ${r(bottom)}" fill="none" stroke="currentColor" stroke-width="2"/>`;
+}
+
+export const scoreEngraver = new ScoreEngraver();
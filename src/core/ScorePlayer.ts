@@ -0,0 +1,310 @@
+import type { Hand, ParsedScore, PlaybackSettings } from '@/types';
+import { TempoMap } from './TempoMap';
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  tempo: 100,
+  mute: { RH: false, LH: false },
+  solo: null,
+  loop: null
+};
+
+// Notes are handed to the audio clock this far ahead, checked this often (seconds)
+const LOOKAHEAD = 0.1;
+const SCHEDULE_INTERVAL = 0.025;
+
+// Grace notes are played this long each, just before their beat
+const GRACE_SECONDS = 0.08;
+
+// Time a released note takes to die away
+const RELEASE_SECONDS = 0.4;
+
+// Fundamental and a quieter octave for some brightness
+const PARTIALS: { multiple: number; type: OscillatorType; level: number }[] = [
+  { multiple: 1, type: 'triangle', level: 1 },
+  { multiple: 2, type: 'sine', level: 0.3 }
+];
+
+// A note as played, in seconds of the score at its marked tempo
+interface PlayedNote {
+  noteIndex: number;
+  hand: Hand;
+  start: number;
+  end: number;
+  // Tied notes sound on to the end of the last note of the tie
+  release: number;
+  // Struck in turn over the note; several for an ornament, none for the rest of a tie
+  pitches: number[];
+}
+
+// A played note on the audio clock
+interface ScheduledNote {
+  noteIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface PlaybackCallbacks {
+  // Indices of the notes sounding, whenever they change
+  onNotes: (noteIndices: number[]) => void;
+  onEnd: () => void;
+}
+
+/**
+ * Score playback in the browser
+ *
+ * Plays the notes through a small Web Audio synth at the score's tempo
+ * markings, scaled by the tempo setting. Notes are handed to the audio
+ * clock a little ahead of time, so tempo, muting and solo take effect
+ * within a fraction of a second. Muted hands are silent but still followed
+ * by the cursor, so they can be played along.
+ */
+export class ScorePlayer {
+  private context: AudioContext | null = null;
+  private master: AudioNode | null = null;
+  // Everything of the current run sounds through this, cut off on stop
+  private output: GainNode | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private callbacks: PlaybackCallbacks | null = null;
+  private settings: PlaybackSettings = DEFAULT_PLAYBACK_SETTINGS;
+  private tempoMap = new TempoMap();
+  private notes: PlayedNote[] = [];
+  private scheduled: ScheduledNote[] = [];
+  private sounding: number[] = [];
+  // Next note to schedule; the audio time a point of the score falls on
+  private next = 0;
+  private anchor = { audio: 0, score: 0 };
+  private range = { start: 0, end: 0 };
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Play from the start, or round the loop when one is set
+   */
+  async play(score: ParsedScore, settings: PlaybackSettings, callbacks: PlaybackCallbacks): Promise<void> {
+    this.stop();
+    
+    const context = this.audioContext();
+    await context.resume();
+    
+    this.tempoMap = new TempoMap(score.measures, score.tempos);
+    this.notes = this.arrange(score);
+    this.settings = settings;
+    this.callbacks = callbacks;
+    this.range = this.rangeOf(settings);
+    
+    this.output = context.createGain();
+    this.output.connect(this.master!);
+    this.seek(context.currentTime + LOOKAHEAD, this.range.start);
+    
+    this.timer = setInterval(() => this.tick(), SCHEDULE_INTERVAL * 1000);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer === null) return;
+    
+    clearInterval(this.timer);
+    this.timer = null;
+    this.output?.disconnect();
+    this.output = null;
+    this.scheduled = [];
+    this.sounding = [];
+    
+    const callbacks = this.callbacks;
+    this.callbacks = null;
+    callbacks?.onEnd();
+  }
+
+  /**
+   * Settings changed while playing; a loop that no longer holds the
+   * current point starts over from its first measure
+   */
+  update(settings: PlaybackSettings): void {
+    const previous = this.settings;
+    this.settings = settings;
+    if (!this.context || this.timer === null) return;
+    
+    const now = this.context.currentTime;
+    if (settings.tempo !== previous.tempo) {
+      this.anchor = { audio: now, score: this.anchor.score + (now - this.anchor.audio) * previous.tempo / 100 };
+    }
+    
+    this.range = this.rangeOf(settings);
+    const position = this.scoreTime(now);
+    if (position < this.range.start || position >= this.range.end) {
+      this.seek(now + LOOKAHEAD, this.range.start);
+    }
+  }
+
+  /**
+   * Notes in the order they start, with tied notes joined and ornaments
+   * and grace notes spelled out in time
+   */
+  private arrange(score: ParsedScore): PlayedNote[] {
+    const divisions = new Map(score.measures.map(m => [m.number, m.divisions]));
+    const notes: PlayedNote[] = [];
+    const graces: { note: PlayedNote; key: string }[] = [];
+    // Struck notes whose tie continues, by hand and pitch
+    const ties = new Map<string, PlayedNote>();
+    
+    score.notes.forEach((note, noteIndex) => {
+      if (note.isRest) return;
+      
+      const start = this.tempoMap.secondsAt(note.measureNumber, note.beat);
+      const pitches = note.ornament?.pitches ?? [note.pitch];
+      if (note.isGrace) {
+        const grace = { noteIndex, hand: note.hand, start, end: start, release: start, pitches };
+        graces.push({ note: grace, key: `${note.hand}|${start}` });
+        notes.push(grace);
+        return;
+      }
+      
+      const quarters = note.duration / (divisions.get(note.measureNumber) || score.divisions || 1);
+      const end = this.tempoMap.secondsAt(note.measureNumber, note.beat + quarters);
+      const key = `${note.hand}|${note.pitch}`;
+      const tiedTo = note.tieStop ? ties.get(key) : undefined;
+      
+      const played = { noteIndex, hand: note.hand, start, end, release: end, pitches: tiedTo ? [] : pitches };
+      if (tiedTo) tiedTo.release = end;
+      if (note.tieStart) {
+        ties.set(key, tiedTo ?? played);
+      } else {
+        ties.delete(key);
+      }
+      notes.push(played);
+    });
+    
+    // Grace notes take turns just before the beat they are written at
+    const groups = new Map<string, PlayedNote[]>();
+    graces.forEach(({ note, key }) => {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(note);
+    });
+    groups.forEach(group => group.forEach((note, k) => {
+      note.start = Math.max(note.start - (group.length - k) * GRACE_SECONDS, 0);
+      note.end = note.release = note.start + GRACE_SECONDS;
+    }));
+    
+    return notes.sort((a, b) => a.start - b.start);
+  }
+
+  private tick(): void {
+    const context = this.context!;
+    const now = context.currentTime;
+    const horizon = now + LOOKAHEAD;
+    
+    for (;;) {
+      const note = this.notes[this.next];
+      if (!note || note.start >= this.range.end) {
+        // Round the loop again, or let the last notes ring out
+        const rangeEnd = this.audioTime(this.range.end);
+        if (!this.settings.loop || rangeEnd >= horizon) break;
+        this.seek(rangeEnd, this.range.start);
+        continue;
+      }
+      
+      if (this.audioTime(note.start) >= horizon) break;
+      this.schedule(note);
+      this.next++;
+    }
+    
+    // The cursor follows the notes sounding now
+    this.scheduled = this.scheduled.filter(s => s.end > now);
+    const sounding = this.scheduled.filter(s => s.start <= now).map(s => s.noteIndex);
+    if (sounding.length !== this.sounding.length || sounding.some((n, k) => n !== this.sounding[k])) {
+      this.sounding = sounding;
+      this.callbacks?.onNotes(sounding);
+    }
+    
+    const finished = !this.settings.loop && now >= this.audioTime(this.range.end) + RELEASE_SECONDS;
+    if (finished) this.stop();
+  }
+
+  private schedule(note: PlayedNote): void {
+    const start = this.audioTime(note.start);
+    const end = this.audioTime(Math.min(note.end, this.range.end));
+    this.scheduled.push({ noteIndex: note.noteIndex, start, end });
+    
+    const { mute, solo } = this.settings;
+    const audible = solo ? solo === note.hand : !mute[note.hand];
+    if (!audible || note.pitches.length === 0) return;
+    
+    const release = this.audioTime(Math.min(note.release, this.range.end));
+    const step = (end - start) / note.pitches.length;
+    note.pitches.forEach((pitch, k) => {
+      const last = k === note.pitches.length - 1;
+      this.strike(pitch, start + k * step, last ? release : start + (k + 1) * step);
+    });
+  }
+
+  // A piano-like tone: struck quickly, dying away while held, damped on release
+  private strike(pitch: number, start: number, end: number): void {
+    const context = this.context!;
+    const frequency = 440 * 2 ** ((pitch - 69) / 12);
+    
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(0.25, start + 0.005);
+    envelope.gain.setTargetAtTime(0.06, start + 0.005, 0.5);
+    envelope.gain.setTargetAtTime(0, Math.max(end, start + 0.005), 0.05);
+    envelope.connect(this.output!);
+    
+    PARTIALS.forEach(partial => {
+      const oscillator = context.createOscillator();
+      oscillator.type = partial.type;
+      oscillator.frequency.value = frequency * partial.multiple;
+      
+      const gain = context.createGain();
+      gain.gain.value = partial.level;
+      oscillator.connect(gain).connect(envelope);
+      oscillator.start(start);
+      oscillator.stop(end + RELEASE_SECONDS);
+    });
+  }
+
+  // Carry on from a point of the score at the given audio time
+  private seek(audio: number, score: number): void {
+    this.anchor = { audio, score };
+    this.next = this.notes.findIndex(n => n.start >= score);
+    if (this.next < 0) this.next = this.notes.length;
+  }
+
+  // Whole score, or the looped measures
+  private rangeOf(settings: PlaybackSettings): { start: number; end: number } {
+    if (settings.loop) {
+      const [from, to] = settings.loop;
+      return {
+        start: this.tempoMap.secondsAt(from, 0),
+        end: this.tempoMap.secondsAt(to, 0) + this.tempoMap.measureSeconds(to)
+      };
+    }
+    return { start: 0, end: Math.max(0, ...this.notes.map(n => n.release)) };
+  }
+
+  private audioTime(score: number): number {
+    return this.anchor.audio + (score - this.anchor.score) * 100 / this.settings.tempo;
+  }
+
+  private scoreTime(audio: number): number {
+    return this.anchor.score + (audio - this.anchor.audio) * this.settings.tempo / 100;
+  }
+
+  private audioContext(): AudioContext {
+    if (!this.context) {
+      if (typeof AudioContext === 'undefined') {
+        throw new Error('Playback is not supported in this browser.');
+      }
+      this.context = new AudioContext();
+      
+      // Keeps full chords from clipping
+      const compressor = this.context.createDynamicsCompressor();
+      compressor.connect(this.context.destination);
+      this.master = compressor;
+    }
+    return this.context;
+  }
+}
+
+export const scorePlayer = new ScorePlayer();
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Finger, ParsedScore, PrintSettings } from '@/types';
+import { musicXMLParser } from './MusicXMLParser';
+import { fingeringRenderer } from './FingeringRenderer';
+import { ScorePrinter, DEFAULT_PRINT_SETTINGS } from './ScorePrinter';
+
+// A fingered treble staff in D major with a flat, a natural and a clef change, repeated over the given number of measures
+function score(measures: number): ParsedScore {
+  const body = Array.from({ length: measures }, (_, m) =>
+    `<measure number="${m + 1}">` +
+    (m === 0
+      ? '<attributes><divisions>1</divisions><key><fifths>2</fifths></key><time><beats>4</beats><beat-type>4</beat-type></time>' +
+        '<clef><sign>G</sign><line>2</line></clef></attributes>'
+      : m === 1 ? '<attributes><clef><sign>F</sign><line>4</line></clef></attributes>' : '') +
+    ['<step>D</step><octave>5</octave>', '<step>B</step><alter>-1</alter><octave>4</octave>',
+      '<step>F</step><octave>5</octave>', '<step>A</step><octave>4</octave>']
+      .map(pitch => `<note><pitch>${pitch}</pitch><duration>1</duration><type>quarter</type></note>`).join('') +
+    '</measure>'
+  ).join('');
+
+  const parsed = musicXMLParser.parseXML(
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise version="4.0">' +
+    '<work><work-title>Étude (No. 1)</work-title></work>' +
+    '<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>' +
+    `<part id="P1">${body}</part></score-partwise>`
+  );
+  parsed.notes.forEach((n, i) => { n.fingering = ((i % 5) + 1) as Finger; });
+  return parsed;
+}
+
+function writePDF(measures: number, settings: PrintSettings = DEFAULT_PRINT_SETTINGS) {
+  const printer = new ScorePrinter();
+  const pages = printer.renderPages(score(measures), settings);
+  const bytes = new Uint8Array(printer.writePDF(pages, settings.pageSize, 'Étude'));
+  return { pages, pdf: Array.from(bytes, b => String.fromCharCode(b)).join('') };
+}
+
+describe('ScorePrinter.writePDF', () => {
+  it('draws every page as vector content, without images', () => {
+    const { pages, pdf } = writePDF(60);
+    
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pdf).toContain(`/Count ${pages.length}`);
+    expect(pdf).not.toContain('/Image');
+    expect(pdf).toMatch(/ c /);
+    expect(pdf).toContain('/BaseFont /Times-Roman /Encoding /WinAnsiEncoding');
+    
+    // Title in WinAnsi with its parentheses escaped, and the page number of page 2
+    expect(pdf).toContain('(\\311tude \\(No. 1\\)) Tj');
+    expect(pdf).toContain('(2) Tj');
+  });
+
+  it('lists every object at its offset', () => {
+    const { pdf } = writePDF(20);
+    const [, start] = /startxref\n(\d+)/.exec(pdf)!;
+    const [, count] = /xref\n0 (\d+)\n/.exec(pdf.slice(Number(start)))!;
+    const offsets = pdf.slice(Number(start)).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    
+    expect(offsets).toHaveLength(Number(count) - 1);
+    offsets.forEach((offset, k) => expect(pdf.startsWith(`${k + 1} 0 obj\n`, offset)).toBe(true));
+  });
+
+  it('sets fingerings in the standard font nearest their family', () => {
+    const settings = { ...DEFAULT_PRINT_SETTINGS, fingeringFont: { family: 'Arial, Helvetica, sans-serif', size: 10 } };
+    expect(writePDF(4, settings).pdf).toContain('/BaseFont /Helvetica ');
+    
+    const courier = { ...DEFAULT_PRINT_SETTINGS, fingeringFont: { family: 'Courier New, monospace', size: 10 } };
+    expect(writePDF(4, courier).pdf).toContain('/BaseFont /Courier ');
+  });
+
+  it('keeps the transparency of color-mode circles', () => {
+    fingeringRenderer.setColorMode(true);
+    try {
+      expect(writePDF(4).pdf).toMatch(/\/Type \/ExtGState \/ca 0\.13/);
+    } finally {
+      fingeringRenderer.setColorMode(false);
+    }
+  });
+});
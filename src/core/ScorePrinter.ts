@@ -0,0 +1,566 @@
+import JSZip from 'jszip';
+import type { ParsedScore, PageSize, PrintSettings, PrintedPage, EngravedScore, FingeringPlacement } from '@/types';
+import { scoreEngraver } from './ScoreEngraver';
+import { fingeringRenderer } from './FingeringRenderer';
+import { XmlDocument, XmlElement } from './XmlDocument';
+
+// Paper sizes in millimetres
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 }
+};
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  pageSize: 'a4',
+  margins: { top: 15, right: 15, bottom: 15, left: 15 },
+  staffSize: 7,
+  fingeringFont: { family: 'Times New Roman, serif', size: 9 }
+};
+
+// Pages are drawn in CSS pixels, so point sizes of fonts print true
+const PX_PER_MM = 96 / 25.4;
+const PT_PER_MM = 72 / 25.4;
+const PT_PER_PX = 72 / 96;
+
+// Standard PDF fonts, which every reader has, in place of the families pages are set in
+const PDF_FONTS: { match: RegExp; regular: string; bold: string; italic: string; boldItalic: string }[] = [
+  { match: /courier|mono/i, regular: 'Courier', bold: 'Courier-Bold', italic: 'Courier-Oblique', boldItalic: 'Courier-BoldOblique' },
+  { match: /arial|helvetica|sans-serif/i, regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique', boldItalic: 'Helvetica-BoldOblique' },
+  { match: /./, regular: 'Times-Roman', bold: 'Times-Bold', italic: 'Times-Italic', boldItalic: 'Times-BoldItalic' }
+];
+
+// Widths of the printable ASCII characters in thousandths of the font size, for anchoring text
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+  921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+  333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+  500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541
+];
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters of WinAnsiEncoding outside Latin-1, by their code
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8A,
+  '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B, 'œ': 0x9C, 'ž': 0x9E, 'Ÿ': 0x9F
+};
+
+// Baseline of text centred on its y, below the centre by this much of the font size
+const CENTRAL_BASELINE = 0.34;
+
+// Bézier control point distance for a quarter circle of radius 1
+const KAPPA = 0.5523;
+
+/**
+ * Print layout of the fingered score
+ *
+ * Engraves the score to the width between the page margins at the chosen
+ * staff size, places the fingerings in the chosen font, and fills pages
+ * with whole systems. Pages come out as standalone SVG, and as a PDF drawn
+ * from the same SVG in vector outlines and text.
+ */
+export class ScorePrinter {
+  renderPages(score: ParsedScore, settings: PrintSettings): PrintedPage[] {
+    const paper = PAGE_SIZES[settings.pageSize];
+    const width = paper.width * PX_PER_MM;
+    const height = paper.height * PX_PER_MM;
+    const margins = {
+      top: settings.margins.top * PX_PER_MM,
+      right: settings.margins.right * PX_PER_MM,
+      bottom: settings.margins.bottom * PX_PER_MM,
+      left: settings.margins.left * PX_PER_MM
+    };
+    
+    // Staves run from margin to margin; the brace and measure numbers sit in the left margin
+    const engraving = scoreEngraver.engrave(score, {
+      width,
+      staffSpace: settings.staffSize * PX_PER_MM / 4,
+      margins: { left: margins.left, right: margins.right }
+    });
+    const placements = fingeringRenderer.calculatePlacements(score.notes, engraving, settings.fingeringFont);
+    const bySystem = this.placementsBySystem(engraving, placements);
+    
+    // Vertical offset of every system, page by page
+    const pages: string[][] = [];
+    let content: string[] = [engraving.header ? shift(margins.top, engraving.header) : ''];
+    let cursor = margins.top + (engraving.systems[0]?.top ?? 0);
+    
+    engraving.systems.forEach((system, k) => {
+      const systemHeight = system.bottom - system.top;
+      if (k > 0 && cursor + systemHeight > height - margins.bottom) {
+        pages.push(content);
+        content = [];
+        cursor = margins.top;
+      }
+      const fingerings = fingeringRenderer.renderFingerings(bySystem.get(k) ?? []);
+      content.push(shift(cursor - system.top, system.svg + fingerings));
+      cursor += systemHeight;
+    });
+    pages.push(content);
+    
+    return pages.map((content, k) => {
+      // Page numbers from the second page on, centred in the bottom margin
+      const number = k > 0
+        ? `<text x="${r(width / 2)}" y="${r(height - margins.bottom / 2)}" font-family="Times New Roman, serif" font-size="10pt" text-anchor="middle" dominant-baseline="central" fill="currentColor">${k + 1}</text>`
+        : '';
+      return {
+        width: r(width),
+        height: r(height),
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${paper.width}mm" height="${paper.height}mm" ` +
+          `viewBox="0 0 ${r(width)} ${r(height)}" color="#000000">` +
+          `<rect width="100%" height="100%" fill="#ffffff"/>${content.join('')}${number}</svg>`
+      };
+    });
+  }
+
+  /**
+   * Page SVGs zipped as name_p1.svg, name_p2.svg, ...
+   */
+  async writeSVGArchive(pages: PrintedPage[], baseName: string): Promise<ArrayBuffer> {
+    const zip = new JSZip();
+    pages.forEach((page, k) => zip.file(`${baseName}_p${k + 1}.svg`, page.svg));
+    return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * A PDF of the pages, each filling a page of the chosen size. Text is set
+   * in the standard PDF font nearest its family (Times, Helvetica or
+   * Courier), as those need not be embedded.
+   */
+  writePDF(pages: PrintedPage[], pageSize: PageSize, title = ''): ArrayBuffer {
+    const paper = PAGE_SIZES[pageSize];
+    const width = r(paper.width * PT_PER_MM);
+    const height = r(paper.height * PT_PER_MM);
+    
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? Uint8Array.from(data, c => c.charCodeAt(0)) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+    
+    // Pages drawn first, to learn the fonts and transparencies they use
+    const resources = new PdfResources();
+    const contents = pages.map(page => new PdfPageContent(resources).draw(page, height));
+    
+    // Catalog, page tree, document info and the resources all pages share, then a page and its contents for every page
+    const fontIds = resources.fonts.map((_, k) => 5 + k);
+    const alphaIds = resources.alphas.map((_, k) => 5 + fontIds.length + k);
+    const pageId = (k: number) => 5 + fontIds.length + alphaIds.length + 2 * k;
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pages.map((_, k) => `${pageId(k)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    object(3, `<< /Title ${pdfText(title)} /Producer (Piano Fingering Planner) >>`);
+    object(4, `<< /Font << ${resources.fonts.map((_, k) => `/F${k + 1} ${fontIds[k]} 0 R`).join(' ')} >> ` +
+      `/ExtGState << ${resources.alphas.map((_, k) => `/A${k + 1} ${alphaIds[k]} 0 R`).join(' ')} >> >>`);
+    resources.fonts.forEach((font, k) => {
+      object(fontIds[k], `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`);
+    });
+    resources.alphas.forEach((alpha, k) => object(alphaIds[k], `<< /Type /ExtGState ${alpha} >>`));
+    
+    contents.forEach((content, k) => {
+      const id = pageId(k);
+      object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources 4 0 R /Contents ${id + 1} 0 R >>`);
+      object(id + 1, `<< /Length ${content.length} >>`, Uint8Array.from(content, c => c.charCodeAt(0)));
+    });
+    
+    const count = pageId(pages.length);
+    const xref = length;
+    write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+    
+    const pdf = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      pdf.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return pdf.buffer;
+  }
+
+  private placementsBySystem(engraving: EngravedScore, placements: FingeringPlacement[]): Map<number, FingeringPlacement[]> {
+    const systemOf = new Map(engraving.notes.map(e => [e.noteIndex, e.system]));
+    const bySystem = new Map<number, FingeringPlacement[]>();
+    
+    placements.forEach(p => {
+      const system = systemOf.get(p.noteIndex);
+      if (system === undefined) return;
+      if (!bySystem.has(system)) bySystem.set(system, []);
+      bySystem.get(system)!.push(p);
+    });
+    return bySystem;
+  }
+}
+
+// Fonts and transparencies the pages use, named /F1, /F2, ... and /A1, /A2, ... in order of first use
+class PdfResources {
+  readonly fonts: string[] = [];
+  // Graphics state entries, as "/ca 0.5" for fills and "/CA 0.5" for strokes
+  readonly alphas: string[] = [];
+
+  font(name: string): string {
+    return `/F${this.number(this.fonts, name)}`;
+  }
+
+  alpha(entry: string): string {
+    return `/A${this.number(this.alphas, entry)}`;
+  }
+
+  private number(list: string[], value: string): number {
+    if (!list.includes(value)) list.push(value);
+    return list.indexOf(value) + 1;
+  }
+}
+
+// Presentation attributes an element takes from its parents
+interface SvgStyle {
+  color: string;
+  fill: string;
+  stroke: string;
+  strokeWidth: string;
+  lineCap: string;
+  fontFamily: string;
+  fontSize: string;
+  fontWeight: string;
+  fontStyle: string;
+  textAnchor: string;
+  baseline: string;
+}
+
+const SVG_STYLE_ATTRIBUTES: [keyof SvgStyle, string][] = [
+  ['color', 'color'], ['fill', 'fill'], ['stroke', 'stroke'], ['strokeWidth', 'stroke-width'], ['lineCap', 'stroke-linecap'],
+  ['fontFamily', 'font-family'], ['fontSize', 'font-size'], ['fontWeight', 'font-weight'], ['fontStyle', 'font-style'],
+  ['textAnchor', 'text-anchor'], ['baseline', 'dominant-baseline']
+];
+
+const INITIAL_SVG_STYLE: SvgStyle = {
+  color: '#000000', fill: '#000000', stroke: 'none', strokeWidth: '1', lineCap: 'butt', fontFamily: 'serif',
+  fontSize: '16', fontWeight: 'normal', fontStyle: 'normal', textAnchor: 'start', baseline: 'auto'
+};
+
+interface PdfColor {
+  rgb: [number, number, number];
+  alpha: number;
+}
+
+/**
+ * Content stream of one page, drawn from its SVG
+ *
+ * Covers the SVG the engraver and the fingering renderer write: groups
+ * with transforms, lines, rects, circles, ellipses, polygons, paths and
+ * single lines of text.
+ */
+class PdfPageContent {
+  private out: string[] = [];
+  private width = 0;
+  private height = 0;
+
+  constructor(private resources: PdfResources) {}
+
+  // Operators of the page, for a PDF page the given number of points high
+  draw(page: PrintedPage, pageHeight: number): string {
+    this.width = page.width;
+    this.height = page.height;
+    
+    // Pixels to points, with y running down the page as in SVG
+    this.out = [`${PT_PER_PX} 0 0 ${-PT_PER_PX} 0 ${pageHeight} cm`];
+    const svg = XmlDocument.parse(page.svg).documentElement;
+    if (svg) this.drawElement(svg, INITIAL_SVG_STYLE);
+    return this.out.join('\n');
+  }
+
+  private drawElement(element: XmlElement, inherited: SvgStyle) {
+    const style = { ...inherited };
+    SVG_STYLE_ATTRIBUTES.forEach(([key, attribute]) => {
+      const value = element.getAttribute(attribute);
+      if (value !== null) style[key] = value;
+    });
+    
+    const transform = element.getAttribute('transform');
+    if (transform) this.out.push(`q ${transformOperators(transform)}`);
+    
+    if (element.tagName === 'svg' || element.tagName === 'g') {
+      element.children.forEach(child => this.drawElement(child, style));
+    } else if (element.tagName === 'text') {
+      this.drawText(element, style);
+    } else {
+      const path = this.shapePath(element);
+      if (path) this.paint(path, style);
+    }
+    
+    if (transform) this.out.push('Q');
+  }
+
+  private shapePath(element: XmlElement): string | null {
+    const value = (name: string, reference = 0) => svgLength(element.getAttribute(name), reference);
+    
+    switch (element.tagName) {
+      case 'rect':
+        return `${point(value('x', this.width), value('y', this.height), value('width', this.width), value('height', this.height))} re`;
+      case 'line':
+        return `${point(value('x1'), value('y1'))} m ${point(value('x2'), value('y2'))} l`;
+      case 'circle':
+        return ellipsePath(value('cx'), value('cy'), value('r'), value('r'));
+      case 'ellipse':
+        return ellipsePath(value('cx'), value('cy'), value('rx'), value('ry'));
+      case 'polygon':
+      case 'polyline': {
+        const numbers = (element.getAttribute('points') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+        const operators: string[] = [];
+        for (let i = 0; i + 1 < numbers.length; i += 2) operators.push(`${point(numbers[i], numbers[i + 1])} ${i === 0 ? 'm' : 'l'}`);
+        if (element.tagName === 'polygon') operators.push('h');
+        return operators.join(' ') || null;
+      }
+      case 'path':
+        return pathOperators(element.getAttribute('d') ?? '') || null;
+      default:
+        return null;
+    }
+  }
+
+  private paint(path: string, style: SvgStyle) {
+    const fill = parseColor(style.fill, style.color);
+    const stroke = parseColor(style.stroke, style.color);
+    if (!fill && !stroke) return;
+    
+    const operators = ['q'];
+    if (fill) operators.push(this.colorOperators(fill, false));
+    if (stroke) {
+      operators.push(this.colorOperators(stroke, true), `${r(parseFloat(style.strokeWidth) || 0)} w`);
+      if (style.lineCap === 'round') operators.push('1 J');
+    }
+    operators.push(path, fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q');
+    this.out.push(operators.join(' '));
+  }
+
+  private drawText(element: XmlElement, style: SvgStyle) {
+    const content = element.textContent.replace(/\s+/g, ' ').trim();
+    const color = parseColor(style.fill, style.color);
+    if (!content || !color) return;
+    
+    // Sizes in points print at that size; plain numbers are pixels
+    const size = style.fontSize.endsWith('pt') ? parseFloat(style.fontSize) / PT_PER_PX : parseFloat(style.fontSize);
+    const bold = style.fontWeight === 'bold' || parseInt(style.fontWeight, 10) >= 600;
+    const italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+    const family = PDF_FONTS.find(f => f.match.test(style.fontFamily))!;
+    const font = bold ? (italic ? family.boldItalic : family.bold) : italic ? family.italic : family.regular;
+    
+    const width = textWidth(content, font) * size;
+    const shift = style.textAnchor === 'middle' ? width / 2 : style.textAnchor === 'end' ? width : 0;
+    const drop = style.baseline === 'central' || style.baseline === 'middle' ? CENTRAL_BASELINE * size : 0;
+    const x = svgLength(element.getAttribute('x'), this.width) - shift;
+    const y = svgLength(element.getAttribute('y'), this.height) + drop;
+    
+    // Text is flipped back upright against the page's downward y
+    this.out.push(`q ${this.colorOperators(color, false)} BT ${this.resources.font(font)} ${r(size)} Tf ` +
+      `1 0 0 -1 ${point(x, y)} Tm ${pdfString(content)} Tj ET Q`);
+  }
+
+  private colorOperators(color: PdfColor, stroke: boolean): string {
+    const rgb = `${color.rgb.map(c => Math.round(c / 255 * 1000) / 1000).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+    if (color.alpha >= 1) return rgb;
+    return `${rgb} ${this.resources.alpha(`${stroke ? '/CA' : '/ca'} ${r(color.alpha)}`)} gs`;
+  }
+}
+
+const r = (value: number) => Math.round(value * 100) / 100;
+
+const point = (...values: number[]) => values.map(r).join(' ');
+
+function shift(y: number, content: string): string {
+  return `<g transform="translate(0 ${r(y)})">${content}</g>`;
+}
+
+// Pixels, or a percentage of the given length
+function svgLength(value: string | null, reference: number): number {
+  if (!value) return 0;
+  return value.endsWith('%') ? parseFloat(value) * reference / 100 : parseFloat(value);
+}
+
+// #rgb, #rrggbb or #rrggbbaa, black or white; null when nothing is painted
+function parseColor(value: string, currentColor: string): PdfColor | null {
+  if (value === 'none' || value === 'transparent') return null;
+  if (value === 'currentColor') return parseColor(currentColor, '#000000');
+  if (value === 'white') return { rgb: [255, 255, 255], alpha: 1 };
+  
+  let hex = /^#([0-9a-f]+)$/i.exec(value)?.[1] ?? '000000';
+  if (hex.length === 3 || hex.length === 4) hex = hex.replace(/./g, c => c + c);
+  const channel = (k: number) => parseInt(hex.slice(2 * k, 2 * k + 2), 16);
+  const alpha = hex.length === 8 ? channel(3) / 255 : 1;
+  return alpha > 0 ? { rgb: [channel(0), channel(1), channel(2)], alpha } : null;
+}
+
+// SVG transform functions as PDF transformation matrices, applied in the same order
+function transformOperators(transform: string): string {
+  const matrices: number[][] = [];
+  for (const [, name, args] of transform.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const [a = 0, b, c] = args.split(/[\s,]+/).filter(Boolean).map(Number);
+    if (name === 'translate') {
+      matrices.push([1, 0, 0, 1, a, b ?? 0]);
+    } else if (name === 'scale') {
+      matrices.push([a, 0, 0, b ?? a, 0, 0]);
+    } else if (name === 'rotate') {
+      const angle = a * Math.PI / 180;
+      const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+      const [cx, cy] = [b ?? 0, c ?? 0];
+      matrices.push([cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]);
+    } else if (name === 'matrix') {
+      matrices.push(args.split(/[\s,]+/).filter(Boolean).map(Number));
+    }
+  }
+  return matrices.map(m => `${m.map(v => Math.round(v * 10000) / 10000).join(' ')} cm`).join(' ');
+}
+
+// Path data as PDF path operators, quadratic curves raised to cubic ones and arcs drawn straight
+function pathOperators(d: string): string {
+  const tokens = d.match(/[a-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const operators: string[] = [];
+  let command = '';
+  let i = 0;
+  let [x, y, startX, startY] = [0, 0, 0, 0];
+  // Last control point, for the smooth curves that mirror it
+  let cubic: [number, number] | null = null;
+  let quadratic: [number, number] | null = null;
+  
+  const next = () => Number(tokens[i++]);
+  const curve = (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) => {
+    operators.push(`${point(x1, y1, x2, y2, x3, y3)} c`);
+    [x, y] = [x3, y3];
+  };
+  const quadraticCurve = (qx: number, qy: number, x3: number, y3: number) => {
+    curve(x + 2 / 3 * (qx - x), y + 2 / 3 * (qy - y), x3 + 2 / 3 * (qx - x3), y3 + 2 / 3 * (qy - y3), x3, y3);
+  };
+  
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) command = tokens[i++];
+    const [dx, dy] = command === command.toLowerCase() ? [x, y] : [0, 0];
+    const lastCubic: [number, number] | null = cubic;
+    const lastQuadratic: [number, number] | null = quadratic;
+    cubic = quadratic = null;
+    
+    switch (command.toUpperCase()) {
+      case 'M':
+        [x, y] = [startX, startY] = [next() + dx, next() + dy];
+        operators.push(`${point(x, y)} m`);
+        // Further pairs draw lines
+        command = command === 'm' ? 'l' : 'L';
+        break;
+      case 'L':
+        [x, y] = [next() + dx, next() + dy];
+        operators.push(`${point(x, y)} l`);
+        break;
+      case 'H':
+        x = next() + dx;
+        operators.push(`${point(x, y)} l`);
+        break;
+      case 'V':
+        y = next() + dy;
+        operators.push(`${point(x, y)} l`);
+        break;
+      case 'C': {
+        const [x1, y1, x2, y2, x3, y3] = [next() + dx, next() + dy, next() + dx, next() + dy, next() + dx, next() + dy];
+        curve(x1, y1, x2, y2, x3, y3);
+        cubic = [x2, y2];
+        break;
+      }
+      case 'S': {
+        const [x1, y1] = lastCubic ? [2 * x - lastCubic[0], 2 * y - lastCubic[1]] : [x, y];
+        const [x2, y2, x3, y3] = [next() + dx, next() + dy, next() + dx, next() + dy];
+        curve(x1, y1, x2, y2, x3, y3);
+        cubic = [x2, y2];
+        break;
+      }
+      case 'Q': {
+        const [qx, qy, x3, y3] = [next() + dx, next() + dy, next() + dx, next() + dy];
+        quadraticCurve(qx, qy, x3, y3);
+        quadratic = [qx, qy];
+        break;
+      }
+      case 'T': {
+        const [qx, qy]: [number, number] = lastQuadratic ? [2 * x - lastQuadratic[0], 2 * y - lastQuadratic[1]] : [x, y];
+        quadraticCurve(qx, qy, next() + dx, next() + dy);
+        quadratic = [qx, qy];
+        break;
+      }
+      case 'A':
+        i += 5;
+        [x, y] = [next() + dx, next() + dy];
+        operators.push(`${point(x, y)} l`);
+        break;
+      case 'Z':
+        operators.push('h');
+        [x, y] = [startX, startY];
+        command = '';
+        break;
+      default:
+        // Numbers without a command before them
+        i++;
+    }
+  }
+  return operators.join(' ');
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): string {
+  const [kx, ky] = [rx * KAPPA, ry * KAPPA];
+  return `${point(cx + rx, cy)} m ` +
+    `${point(cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry)} c ${point(cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy)} c ` +
+    `${point(cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry)} c ${point(cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy)} c h`;
+}
+
+// Width of text in a standard font, as a fraction of the font size
+function textWidth(text: string, font: string): number {
+  const widths = font.startsWith('Helvetica') ? HELVETICA_WIDTHS : TIMES_WIDTHS;
+  let width = 0;
+  for (const c of text) {
+    const code = c.charCodeAt(0);
+    width += font.startsWith('Courier') ? 600 : widths[code - 32] ?? widths[0x6E - 32];
+  }
+  return width / 1000;
+}
+
+// A PDF string in WinAnsiEncoding, with characters outside it as question marks
+function pdfString(text: string): string {
+  let out = '(';
+  for (const c of text) {
+    const code = WIN_ANSI[c] ?? (c.charCodeAt(0) < 0x100 ? c.charCodeAt(0) : 0x3F);
+    if (c === '(' || c === ')' || c === '\\') {
+      out += `\\${c}`;
+    } else if (code < 0x20 || code > 0x7E) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += c;
+    }
+  }
+  return `${out})`;
+}
+
+// A PDF text string in UTF-16, which covers any title
+function pdfText(value: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  return `<${hex}>`;
+}
+
+export const scorePrinter = new ScorePrinter();
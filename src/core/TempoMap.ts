@@ -0,0 +1,90 @@
+import type { MeasureInfo, TempoChange } from '@/types';
+
+// Tempo before the first marking, in quarter notes per minute
+export const DEFAULT_TEMPO = 120;
+
+// A stretch of the score at one tempo, positions in quarter notes from the start
+interface TempoSegment {
+  start: number;
+  startSeconds: number;
+  bpm: number;
+}
+
+/**
+ * Score time in seconds
+ *
+ * Measures are laid end to end by their time signatures and every tempo
+ * marking holds until the next one. Without measures, 4/4 is assumed.
+ */
+export class TempoMap {
+  private readonly measureStarts: number[] = [];
+  private readonly measureLengths: number[] = [];
+  private readonly segments: TempoSegment[] = [];
+
+  constructor(measures: MeasureInfo[] = [], tempos: TempoChange[] = []) {
+    let start = 0;
+    for (const measure of measures) {
+      const [beats, beatType] = measure.timeSignature;
+      this.measureStarts[measure.number] = start;
+      this.measureLengths[measure.number] = beats * 4 / beatType;
+      start += this.measureLengths[measure.number];
+    }
+    
+    this.segments.push({ start: 0, startSeconds: 0, bpm: DEFAULT_TEMPO });
+    
+    const changes = [...tempos].sort((a, b) => a.measureNumber - b.measureNumber || a.beat - b.beat);
+    for (const change of changes) {
+      const position = this.quartersAt(change.measureNumber, change.beat);
+      const last = this.segments[this.segments.length - 1];
+      const segment = { start: position, startSeconds: this.toSeconds(last, position), bpm: change.bpm };
+      
+      // A marking at the very start replaces the default
+      if (position <= last.start) {
+        this.segments[this.segments.length - 1] = { ...segment, start: last.start, startSeconds: last.startSeconds };
+      } else {
+        this.segments.push(segment);
+      }
+    }
+  }
+
+  /**
+   * Seconds from the start of the score to a beat of a measure
+   */
+  secondsAt(measureNumber: number, beat: number): number {
+    const position = this.quartersAt(measureNumber, beat);
+    return this.toSeconds(this.segmentAt(position), position);
+  }
+
+  /**
+   * Tempo in force at a beat of a measure
+   */
+  tempoAt(measureNumber: number, beat: number): number {
+    return this.segmentAt(this.quartersAt(measureNumber, beat)).bpm;
+  }
+
+  /**
+   * Length of a measure in seconds
+   */
+  measureSeconds(measureNumber: number): number {
+    const length = this.measureLengths[measureNumber] ?? 4;
+    return this.secondsAt(measureNumber, length) - this.secondsAt(measureNumber, 0);
+  }
+  
+  private segmentAt(position: number): TempoSegment {
+    let segment = this.segments[0];
+    for (const s of this.segments) {
+      if (s.start > position) break;
+      segment = s;
+    }
+    return segment;
+  }
+
+  private quartersAt(measureNumber: number, beat: number): number {
+    const start = this.measureStarts[measureNumber] ?? (measureNumber - 1) * 4;
+    return start + beat;
+  }
+
+  private toSeconds(segment: TempoSegment, position: number): number {
+    return segment.startSeconds + (position - segment.start) * 60 / segment.bpm;
+  }
+}
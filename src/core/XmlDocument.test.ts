@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { XmlDocument } from './XmlDocument';
+
+describe('XmlDocument entities', () => {
+  it('resolves entities declared in the internal DOCTYPE subset', () => {
+    const doc = XmlDocument.parse(
+      '<?xml version="1.0"?>' +
+      '<!DOCTYPE score-partwise [<!ENTITY composer "J. S. Bach"><!ENTITY work \'Prelude by &composer; &#169;\'>]>' +
+      '<score-partwise><work title="&work;">&work; &amp; &lt;1&gt;</work></score-partwise>'
+    );
+    const work = doc.querySelector('work')!;
+
+    expect(work.textContent).toBe('Prelude by J. S. Bach © & <1>');
+    expect(work.getAttribute('title')).toBe('Prelude by J. S. Bach ©');
+  });
+
+  it('writes resolved text back without double escaping', () => {
+    const doc = XmlDocument.parse('<!DOCTYPE a [<!ENTITY who "Clara">]><a>by &who; &amp; co</a>');
+    expect(doc.toString()).toBe('<!DOCTYPE a [<!ENTITY who "Clara">]><a>by Clara &amp; co</a>');
+  });
+
+  it('rejects entities the document does not declare', () => {
+    expect(() => XmlDocument.parse('<a>&nbsp;</a>')).toThrow('Undefined entity &nbsp;');
+    expect(() => XmlDocument.parse('<a b="&foo;"/>')).toThrow('Undefined entity &foo;');
+    expect(() => XmlDocument.parse('<a>&constructor;</a>')).toThrow('Undefined entity');
+  });
+
+  it('rejects entities that expand without end', () => {
+    expect(() => XmlDocument.parse('<!DOCTYPE a [<!ENTITY x "&x;">]><a>&x;</a>')).toThrow('refers to itself');
+
+    const levels = ['<!ENTITY e0 "xxxxxxxxxx">'];
+    for (let k = 1; k <= 7; k++) levels.push(`<!ENTITY e${k} "${`&e${k - 1};`.repeat(10)}">`);
+    expect(() => XmlDocument.parse(`<!DOCTYPE a [${levels.join('')}]><a>&e7;</a>`)).toThrow('Entity expansion too large');
+  });
+});
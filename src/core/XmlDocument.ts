@@ -0,0 +1,452 @@
+/**
+ * Minimal XML document model used instead of the browser DOM
+ *
+ * DOMParser/XMLSerializer only exist in the main browser thread, so the
+ * parser could not run in a worker or in Node. This reads and writes the
+ * XML MusicXML needs (elements, attributes, text, CDATA, comments,
+ * processing instructions and the DOCTYPE, with the entities its internal
+ * subset declares) and offers the small part of the DOM interface the
+ * parser uses, including querySelector with descendant and attribute
+ * selectors.
+ */
+export class XmlDocument {
+  // Prolog (declaration, DOCTYPE, comments), the root element, and anything after it
+  readonly nodes: XmlNode[] = [];
+
+  get documentElement(): XmlElement | null {
+    return this.nodes.find((n): n is XmlElement => n instanceof XmlElement) ?? null;
+  }
+
+  static parse(xml: string): XmlDocument {
+    return new XmlReader(xml).read();
+  }
+
+  createElement(name: string): XmlElement {
+    return new XmlElement(name);
+  }
+
+  querySelector(selector: string): XmlElement | null {
+    return this.documentElement?.matchSelf(selector) ?? null;
+  }
+
+  querySelectorAll(selector: string): XmlElement[] {
+    const root = this.documentElement;
+    if (!root) return [];
+    return root.matches(selector) ? [root, ...root.querySelectorAll(selector)] : root.querySelectorAll(selector);
+  }
+
+  toString(): string {
+    return this.nodes.map(node => node.toString()).join('');
+  }
+}
+
+export class XmlElement {
+  readonly attributes = new Map<string, string>();
+  readonly childNodes: XmlNode[] = [];
+  parentElement: XmlElement | null = null;
+
+  constructor(readonly tagName: string) {}
+
+  get children(): XmlElement[] {
+    return this.childNodes.filter((n): n is XmlElement => n instanceof XmlElement);
+  }
+
+  get firstElementChild(): XmlElement | null {
+    return this.children[0] ?? null;
+  }
+
+  get textContent(): string {
+    return this.childNodes.map(node => node instanceof XmlMarkup ? '' : node.textContent).join('');
+  }
+
+  set textContent(text: string) {
+    this.childNodes.forEach(node => {
+      if (node instanceof XmlElement) node.parentElement = null;
+    });
+    this.childNodes.length = 0;
+    this.childNodes.push(new XmlText(text));
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributes.set(name, value);
+  }
+
+  appendChild<T extends XmlNode>(node: T): T {
+    if (node instanceof XmlElement) {
+      node.parentElement?.removeChild(node);
+      node.parentElement = this;
+    }
+    this.childNodes.push(node);
+    return node;
+  }
+
+  insertBefore<T extends XmlNode>(node: T, reference: XmlNode | null): T {
+    const index = reference ? this.childNodes.indexOf(reference) : -1;
+    if (index === -1) return this.appendChild(node);
+    
+    if (node instanceof XmlElement) {
+      node.parentElement?.removeChild(node);
+      node.parentElement = this;
+    }
+    this.childNodes.splice(index, 0, node);
+    return node;
+  }
+
+  removeChild<T extends XmlNode>(node: T): T {
+    const index = this.childNodes.indexOf(node);
+    if (index !== -1) this.childNodes.splice(index, 1);
+    if (node instanceof XmlElement) node.parentElement = null;
+    return node;
+  }
+
+  /**
+   * First descendant matching a selector
+   * Supported: tag names, `*`, `[attr]`, `[attr="value"]` and the descendant combinator
+   */
+  querySelector(selector: string): XmlElement | null {
+    const found: XmlElement[] = [];
+    this.collect(parseSelector(selector), found, true);
+    return found[0] ?? null;
+  }
+
+  querySelectorAll(selector: string): XmlElement[] {
+    const found: XmlElement[] = [];
+    this.collect(parseSelector(selector), found, false);
+    return found;
+  }
+
+  matches(selector: string): boolean {
+    return matchesSteps(this, parseSelector(selector));
+  }
+
+  /**
+   * This element when it matches, otherwise its first matching descendant
+   */
+  matchSelf(selector: string): XmlElement | null {
+    return this.matches(selector) ? this : this.querySelector(selector);
+  }
+
+  toString(): string {
+    const attributes = Array.from(this.attributes, ([name, value]) => ` ${name}="${escapeXml(value, true)}"`).join('');
+    if (this.childNodes.length === 0) {
+      return `<${this.tagName}${attributes}/>`;
+    }
+    return `<${this.tagName}${attributes}>${this.childNodes.map(n => n.toString()).join('')}</${this.tagName}>`;
+  }
+
+  // Depth-first in document order; returns true once the first match is found when firstOnly
+  private collect(steps: SelectorStep[], found: XmlElement[], firstOnly: boolean): boolean {
+    for (const child of this.childNodes) {
+      if (!(child instanceof XmlElement)) continue;
+      
+      if (matchesSteps(child, steps)) {
+        found.push(child);
+        if (firstOnly) return true;
+      }
+      if (child.childNodes.length > 0 && child.collect(steps, found, firstOnly)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+export class XmlText {
+  // raw is kept for CDATA sections so they are written back unchanged
+  constructor(public text: string, readonly raw: string | null = null) {}
+
+  get textContent(): string {
+    return this.text;
+  }
+
+  toString(): string {
+    return this.raw ?? escapeXml(this.text, false);
+  }
+}
+
+/**
+ * Markup without text content, written back verbatim:
+ * XML declaration, DOCTYPE, comments and processing instructions
+ */
+export class XmlMarkup {
+  constructor(readonly raw: string) {}
+
+  toString(): string {
+    return this.raw;
+  }
+}
+
+export type XmlNode = XmlElement | XmlText | XmlMarkup;
+
+/**
+ * Single-pass reader; throws on malformed documents with the line number
+ */
+class XmlReader {
+  private pos = 0;
+  // General entities declared in the DOCTYPE's internal subset, by name
+  private readonly entities = new Map<string, string>();
+
+  constructor(private readonly xml: string) {}
+
+  read(): XmlDocument {
+    const doc = new XmlDocument();
+    const stack: XmlElement[] = [];
+    const xml = this.xml;
+    
+    // Byte order mark
+    if (xml.charCodeAt(0) === 0xfeff) this.pos = 1;
+    
+    while (this.pos < xml.length) {
+      const parent = stack[stack.length - 1];
+      const lt = xml.indexOf('<', this.pos);
+      
+      // Text up to the next tag
+      const textEnd = lt === -1 ? xml.length : lt;
+      if (textEnd > this.pos) {
+        const raw = xml.slice(this.pos, textEnd);
+        if (parent) {
+          parent.childNodes.push(new XmlText(this.decodeEntities(raw)));
+        } else if (raw.trim()) {
+          this.fail('Text outside the root element');
+        } else {
+          doc.nodes.push(new XmlMarkup(raw));
+        }
+        this.pos = textEnd;
+        continue;
+      }
+      
+      if (xml.startsWith('<!--', this.pos)) {
+        this.addMarkup(doc, parent, this.until('-->'));
+      } else if (xml.startsWith('<![CDATA[', this.pos)) {
+        if (!parent) this.fail('CDATA outside the root element');
+        const raw = this.until(']]>');
+        parent.childNodes.push(new XmlText(raw.slice(9, -3), raw));
+      } else if (xml.startsWith('<?', this.pos)) {
+        this.addMarkup(doc, parent, this.until('?>'));
+      } else if (xml.startsWith('<!DOCTYPE', this.pos)) {
+        this.addMarkup(doc, parent, this.readDoctype());
+      } else if (xml.startsWith('</', this.pos)) {
+        const end = this.until('>');
+        const name = end.slice(2, -1).trim();
+        const open = stack.pop();
+        if (!open || open.tagName !== name) {
+          this.fail(`Unexpected closing tag </${name}>${open ? `, expected </${open.tagName}>` : ''}`);
+        }
+      } else {
+        const { element, selfClosing } = this.readStartTag();
+        if (parent) {
+          parent.appendChild(element);
+        } else if (doc.documentElement) {
+          this.fail('More than one root element');
+        } else {
+          doc.nodes.push(element);
+        }
+        if (!selfClosing) stack.push(element);
+      }
+    }
+    
+    if (stack.length > 0) {
+      this.fail(`Missing closing tag </${stack[stack.length - 1].tagName}>`);
+    }
+    if (!doc.documentElement) {
+      this.fail('No root element');
+    }
+    
+    return doc;
+  }
+
+  private addMarkup(doc: XmlDocument, parent: XmlElement | undefined, raw: string) {
+    (parent ? parent.childNodes : doc.nodes).push(new XmlMarkup(raw));
+  }
+
+  private readStartTag(): { element: XmlElement; selfClosing: boolean } {
+    const xml = this.xml;
+    const start = this.pos;
+    this.pos++;
+    
+    const name = this.readName();
+    const element = new XmlElement(name);
+    
+    while (true) {
+      this.skipSpace();
+      const c = xml[this.pos];
+      
+      if (c === '>') {
+        this.pos++;
+        return { element, selfClosing: false };
+      }
+      if (c === '/' && xml[this.pos + 1] === '>') {
+        this.pos += 2;
+        return { element, selfClosing: true };
+      }
+      if (c === undefined) {
+        this.pos = start;
+        this.fail(`Unterminated tag <${name}`);
+      }
+      
+      const attrName = this.readName();
+      this.skipSpace();
+      if (xml[this.pos] !== '=') this.fail(`Missing value for attribute ${attrName}`);
+      this.pos++;
+      this.skipSpace();
+      
+      const quote = xml[this.pos];
+      if (quote !== '"' && quote !== "'") this.fail(`Unquoted value for attribute ${attrName}`);
+      const valueEnd = xml.indexOf(quote, this.pos + 1);
+      if (valueEnd === -1) this.fail(`Unterminated value for attribute ${attrName}`);
+      
+      element.attributes.set(attrName, this.decodeEntities(xml.slice(this.pos + 1, valueEnd)));
+      this.pos = valueEnd + 1;
+    }
+  }
+
+  // DOCTYPE may carry an internal subset in [...]
+  private readDoctype(): string {
+    const xml = this.xml;
+    const start = this.pos;
+    let depth = 0;
+    
+    for (let i = start; i < xml.length; i++) {
+      const c = xml[i];
+      if (c === '[') depth++;
+      else if (c === ']') depth--;
+      else if (c === '>' && depth === 0) {
+        this.pos = i + 1;
+        const raw = xml.slice(start, this.pos);
+        this.declareEntities(raw);
+        return raw;
+      }
+    }
+    
+    return this.fail('Unterminated DOCTYPE');
+  }
+
+  // <!ENTITY name "text"> declarations; external and parameter entities are not read
+  private declareEntities(doctype: string) {
+    const subset = doctype.replace(/<!--[\s\S]*?-->/g, '');
+    for (const match of subset.matchAll(/<!ENTITY\s+([^\s%"']+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g)) {
+      const [, name, double, single] = match;
+      if (!this.entities.has(name)) this.entities.set(name, double ?? single);
+    }
+  }
+
+  /**
+   * Text with character and entity references replaced; a reference to an
+   * entity the document does not declare is an error, as it would be lost
+   */
+  private decodeEntities(text: string, expanding: string[] = []): string {
+    if (!text.includes('&')) return text;
+    
+    const decoded = text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_:][\w.:-]*);/g, (_, body: string) => {
+      if (body.startsWith('#x')) return String.fromCodePoint(parseInt(body.slice(2), 16));
+      if (body.startsWith('#')) return String.fromCodePoint(parseInt(body.slice(1), 10));
+      const value = predefinedEntities.get(body) ?? this.entities.get(body);
+      if (value === undefined) this.fail(`Undefined entity &${body};`);
+      if (predefinedEntities.has(body)) return value;
+      if (expanding.includes(body)) this.fail(`Entity &${body}; refers to itself`);
+      return this.decodeEntities(value, [...expanding, body]);
+    });
+    
+    if (decoded.length > MAX_EXPANDED_TEXT) this.fail('Entity expansion too large');
+    return decoded;
+  }
+
+  private readName(): string {
+    namePattern.lastIndex = this.pos;
+    const match = namePattern.exec(this.xml);
+    if (!match) this.fail('Expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace() {
+    const xml = this.xml;
+    while (this.pos < xml.length && xml.charCodeAt(this.pos) <= 32) this.pos++;
+  }
+
+  // Raw text from the current position up to and including the terminator
+  private until(terminator: string): string {
+    const end = this.xml.indexOf(terminator, this.pos);
+    if (end === -1) this.fail(`Missing ${terminator}`);
+    const raw = this.xml.slice(this.pos, end + terminator.length);
+    this.pos = end + terminator.length;
+    return raw;
+  }
+
+  private fail(message: string): never {
+    const line = this.xml.slice(0, this.pos).split('\n').length;
+    throw new Error(`${message} (line ${line})`);
+  }
+}
+
+const namePattern = /[^\s/>=<"']+/y;
+
+interface SelectorStep {
+  tagName: string | null;
+  attribute: { name: string; value: string | null } | null;
+}
+
+const selectorCache = new Map<string, SelectorStep[]>();
+
+function parseSelector(selector: string): SelectorStep[] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const steps = selector.trim().split(/\s+/).map(part => {
+    const match = /^([^[\s]+)?(?:\[([^\]=\s]+)(?:=["']?([^"'\]]*)["']?)?\])?$/.exec(part);
+    if (!match) throw new Error(`Unsupported selector: ${selector}`);
+    
+    const [, tagName, attrName, attrValue] = match;
+    return {
+      tagName: tagName && tagName !== '*' ? tagName : null,
+      attribute: attrName ? { name: attrName, value: attrValue ?? null } : null
+    };
+  });
+
+  selectorCache.set(selector, steps);
+  return steps;
+}
+
+function matchesStep(el: XmlElement, step: SelectorStep): boolean {
+  if (step.tagName && el.tagName !== step.tagName) return false;
+  if (step.attribute) {
+    const value = el.getAttribute(step.attribute.name);
+    if (value === null) return false;
+    if (step.attribute.value !== null && value !== step.attribute.value) return false;
+  }
+  return true;
+}
+
+// Last step matches the element, earlier steps match ancestors in order
+function matchesSteps(el: XmlElement, steps: SelectorStep[]): boolean {
+  if (!matchesStep(el, steps[steps.length - 1])) return false;
+
+  let ancestor = el.parentElement;
+  for (let k = steps.length - 2; k >= 0; k--) {
+    while (ancestor && !matchesStep(ancestor, steps[k])) {
+      ancestor = ancestor.parentElement;
+    }
+    if (!ancestor) return false;
+    ancestor = ancestor.parentElement;
+  }
+
+  return true;
+}
+
+const predefinedEntities = new Map([
+  ['lt', '<'], ['gt', '>'], ['amp', '&'], ['quot', '"'], ['apos', "'"]
+]);
+
+// Declared entities may nest; this keeps a document from expanding without bound
+const MAX_EXPANDED_TEXT = 1000000;
+
+function escapeXml(text: string, inAttribute: boolean): string {
+  if (!/[&<>"]/.test(text)) return text;
+
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return inAttribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
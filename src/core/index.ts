@@ -1,4 +1,16 @@
 export { MusicXMLParser, musicXMLParser } from './MusicXMLParser';
+export { MidiImporter, midiImporter, DEFAULT_SPLIT_POINT } from './MidiImporter';
 export { PatternRecognizer, patternRecognizer } from './PatternRecognizer';
-export { FingeringPlanner, fingeringPlanner } from './FingeringPlanner';
+export {
+  FingeringPlanner, fingeringPlanner, HAND_PROFILES, MIN_HAND_SPAN, MAX_HAND_SPAN
+} from './FingeringPlanner';
 export { FingeringRenderer, fingeringRenderer } from './FingeringRenderer';
+export { ScoreEngraver, scoreEngraver } from './ScoreEngraver';
+export { ScorePrinter, scorePrinter, PAGE_SIZES, DEFAULT_PRINT_SETTINGS } from './ScorePrinter';
+export { ScorePlayer, scorePlayer, DEFAULT_PLAYBACK_SETTINGS } from './ScorePlayer';
+export { HandAssigner, handAssigner } from './HandAssigner';
+export { OrnamentRealizer, ornamentRealizer } from './OrnamentRealizer';
+export { TempoMap, DEFAULT_TEMPO } from './TempoMap';
+export { DifficultyAnalyzer, difficultyAnalyzer, DIFFICULTY_GRADES } from './DifficultyAnalyzer';
+export { CostModel, DEFAULT_COST_PROFILE, DEFAULT_TRANSITION_WEIGHTS } from './CostModel';
+export { XmlDocument, XmlElement } from './XmlDocument';
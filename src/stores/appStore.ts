@@ -1,19 +1,33 @@
 import { defineStore } from 'pinia';
-import { ref, computed } from 'vue';
+import { ref, computed, toRaw } from 'vue';
 import type { 
   ParsedScore, PatternSegment, FingeringSolution, 
-  FingeringPlacement, Toast, Finger, Note 
+  FingeringPlacement, Toast, Finger, Note, Hand, AnalysisProgress, HandSize, HandProfile,
+  CostProfile, FingeringAlternative, DifficultyReport, PrintSettings, PlaybackSettings 
 } from '@/types';
 import { 
   musicXMLParser, 
-  patternRecognizer, 
   fingeringPlanner, 
-  fingeringRenderer 
+  fingeringRenderer,
+  scoreEngraver,
+  scorePrinter,
+  scorePlayer,
+  difficultyAnalyzer,
+  CostModel,
+  HAND_PROFILES,
+  MIN_HAND_SPAN,
+  MAX_HAND_SPAN,
+  DEFAULT_PRINT_SETTINGS,
+  DEFAULT_PLAYBACK_SETTINGS
 } from '@/core';
+import { analysisClient, AnalysisCancelledError } from '@/workers/analysisClient';
 
 export const useAppStore = defineStore('app', () => {
   // State
   const originalXml = ref<string | null>(null);
+  // Uploaded .mxl archive, rebuilt on compressed export
+  const originalArchive = ref<ArrayBuffer | null>(null);
+  const exportFormat = ref<'musicxml' | 'mxl'>('musicxml');
   const fileName = ref<string>('');
   const parsedScore = ref<ParsedScore | null>(null);
   const patterns = ref<PatternSegment[]>([]);
@@ -21,10 +35,37 @@ export const useAppStore = defineStore('app', () => {
   const placements = ref<FingeringPlacement[]>([]);
   const isProcessing = ref(false);
   const processingStep = ref('');
+  // Share of the background analysis done (0-1), null when none is running
+  const progress = ref<number | null>(null);
   const error = ref<string | null>(null);
   const darkMode = ref(false);
   const colorMode = ref(false);
   const difficultyLevel = ref<'beginner' | 'intermediate' | 'advanced'>('intermediate');
+  // Player's hand size; scales the span limits used in planning
+  const handProfile = ref<HandProfile>(HAND_PROFILES.average);
+  // Custom cost rule settings, null for the built-in ones
+  const costProfile = ref<CostProfile | null>(null);
+  // Fingers kept fixed during planning, keyed by note id
+  const lockedFingerings = ref(new Map<string, Finger>());
+  // Re-plan the neighbourhood of a manual edit instead of leaving conflicts
+  const reflowMode = ref(false);
+  const reflowedNoteIds = ref(new Set<string>());
+  // Cheapest fingerings of a selected passage, and the one shown in place of the current
+  const alternatives = ref<FingeringAlternative[]>([]);
+  const previewedAlternative = ref<FingeringAlternative | null>(null);
+  const difficultyReport = ref<DifficultyReport | null>(null);
+  const printSettings = ref<PrintSettings>({
+    ...DEFAULT_PRINT_SETTINGS,
+    margins: { ...DEFAULT_PRINT_SETTINGS.margins },
+    fingeringFont: { ...DEFAULT_PRINT_SETTINGS.fingeringFont }
+  });
+  const playbackSettings = ref<PlaybackSettings>({
+    ...DEFAULT_PLAYBACK_SETTINGS,
+    mute: { ...DEFAULT_PLAYBACK_SETTINGS.mute }
+  });
+  const isPlaying = ref(false);
+  // Indices of the notes sounding in playback
+  const playingNotes = ref(new Set<number>());
   const toasts = ref<Toast[]>([]);
   
   // Computed
@@ -41,6 +82,47 @@ export const useAppStore = defineStore('app', () => {
     parsedScore.value?.notes.filter(n => n.hand === 'LH') || []
   );
   
+  const lockedCount = computed(() => lockedFingerings.value.size);
+  
+  // Uploaded file name without its extension, for the names of downloads
+  const baseName = computed(() => fileName.value.replace(/\.(mxl|musicxml|xml|midi?)$/i, ''));
+  
+  // Notation of the score; the layout does not depend on the fingering
+  const engraving = computed(() => 
+    parsedScore.value ? scoreEngraver.engrave(toRaw(parsedScore.value)) : null
+  );
+  
+  // Engraved score with the fingerings placed on it
+  const scoreSVG = computed(() => 
+    engraving.value ? fingeringRenderer.renderScoreSVG(engraving.value, placements.value) : ''
+  );
+  
+  // Fingers of the previewed alternative, keyed by note id
+  const previewFingerings = computed(() => {
+    const preview = new Map<string, Finger>();
+    const alternative = previewedAlternative.value;
+    const notes = parsedScore.value?.notes;
+    if (!alternative || !notes) return preview;
+    
+    alternative.indices.forEach((i, n) => preview.set(notes[i].id, alternative.fingering[n]));
+    return preview;
+  });
+  
+  // Substitutions of the previewed alternative, keyed by note id
+  const previewSubstitutions = computed(() => {
+    const preview = new Map<string, Finger | undefined>();
+    const alternative = previewedAlternative.value;
+    const notes = parsedScore.value?.notes;
+    if (!alternative || !notes) return preview;
+    
+    alternative.indices.forEach((i, n) => preview.set(notes[i].id, alternative.substitutions[n]));
+    return preview;
+  });
+  
+  const reassignedNotes = computed(() => 
+    parsedScore.value?.notes.filter(n => n.handReassigned) || []
+  );
+  
   const patternSummary = computed(() => {
     const summary: Record<string, number> = {};
     patterns.value.forEach(p => {
@@ -51,72 +133,55 @@ export const useAppStore = defineStore('app', () => {
 
   // Actions
   async function uploadFile(file: File) {
+    stopPlayback();
     isProcessing.value = true;
-    processingStep.value = 'Parsing MusicXML...';
+    processingStep.value = /\.midi?$/i.test(file.name) ? 'Importing MIDI...' : 'Parsing MusicXML...';
     error.value = null;
+    progress.value = 0;
     
     try {
-      // Read and parse file
-      const xmlContent = await readFileContent(file);
-      originalXml.value = xmlContent;
+      // Read and parse the file and fix hands the staff mapping gets wrong, all in the worker
+      const { score: parsed, reassigned, xml, archive } = await analysisClient.parse(file, reportProgress);
+      originalXml.value = xml;
+      originalArchive.value = archive;
       fileName.value = file.name;
       
-      // Parse MusicXML
-      const parsed = musicXMLParser.parseXML(xmlContent);
+      // Export in the format that was uploaded unless changed
+      exportFormat.value = archive ? 'mxl' : 'musicxml';
+      
       parsedScore.value = parsed;
+      difficultyReport.value = null;
+      
+      // Fingerings written in the score are kept as fixed constraints
+      lockedFingerings.value = new Map(
+        parsed.notes
+          .filter(n => n.fingering !== undefined)
+          .map(n => [n.id, n.fingering!] as [string, Finger])
+      );
       
       addToast('success', `Successfully loaded "${parsed.title}" with ${parsed.notes.length} notes`);
+      if (lockedFingerings.value.size > 0) {
+        addToast('info', `Keeping ${lockedFingerings.value.size} fingerings from the score`);
+      }
+      if (reassigned.length > 0) {
+        addToast('warning', `Moved ${reassigned.length} notes to the other hand (cross-staff or hand-crossing)`);
+      }
       
     } catch (err) {
+      if (err instanceof AnalysisCancelledError) {
+        addToast('info', 'Upload cancelled');
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Failed to parse file';
       error.value = message;
       addToast('error', message);
     } finally {
       isProcessing.value = false;
       processingStep.value = '';
+      progress.value = null;
     }
   }
 
-  async function readFileContent(file: File): Promise<string> {
-    const fileName = file.name.toLowerCase();
-    
-    if (fileName.endsWith('.mxl')) {
-      // Handle compressed MXL
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
-      const contents = await zip.loadAsync(file);
-      
-      // Find container.xml
-      const containerFile = contents.file('META-INF/container.xml');
-      if (containerFile) {
-        const containerXml = await containerFile.async('string');
-        const parser = new DOMParser();
-        const containerDoc = parser.parseFromString(containerXml, 'text/xml');
-        const rootFile = containerDoc.querySelector('rootfile');
-        if (rootFile) {
-          const fullPath = rootFile.getAttribute('full-path');
-          if (fullPath) {
-            const musicXmlFile = contents.file(fullPath);
-            if (musicXmlFile) {
-              return musicXmlFile.async('string');
-            }
-          }
-        }
-      }
-      
-      // Fallback: find any XML file
-      for (const [path, zipEntry] of Object.entries(contents.files)) {
-        if (path.endsWith('.xml') && !path.startsWith('META-INF') && !zipEntry.dir) {
-          return (zipEntry as any).async('string');
-        }
-      }
-      
-      throw new Error('Could not find MusicXML content in MXL file');
-    }
-    
-    return file.text();
-  }
-
   async function generateFingering() {
     if (!parsedScore.value) {
       addToast('error', 'Please upload a score first');
@@ -125,47 +190,77 @@ export const useAppStore = defineStore('app', () => {
     
     isProcessing.value = true;
     error.value = null;
+    progress.value = 0;
     
     try {
-      // Step 1: Pattern Recognition
+      // Steps 1-2: Pattern recognition and planning run in the worker
       processingStep.value = 'Analyzing musical patterns...';
-      await delay(100); // Allow UI update
+      const score = toRaw(parsedScore.value);
       
-      const recognizedPatterns = patternRecognizer.recognizePatterns(parsedScore.value.notes);
-      patterns.value = recognizedPatterns;
+      const { patterns: recognizedPatterns, solution } = await analysisClient.plan({
+        notes: score.notes,
+        timing: { measures: score.measures, tempos: score.tempos },
+        difficultyLevel: difficultyLevel.value,
+        handProfile: toRaw(handProfile.value),
+        costProfile: toRaw(costProfile.value),
+        lockedFingerings: toRaw(lockedFingerings.value)
+      }, reportProgress);
       
-      // Step 2: Fingering Planning
-      processingStep.value = 'Planning optimal fingering...';
-      await delay(100);
-      
-      fingeringPlanner.setDifficultyLevel(difficultyLevel.value);
-      const solution = fingeringPlanner.planFingering(parsedScore.value.notes, recognizedPatterns);
+      patterns.value = recognizedPatterns;
       fingeringSolution.value = solution;
+      reflowedNoteIds.value = new Set();
+      clearAlternatives();
       
       // Apply fingering to notes
       parsedScore.value.notes.forEach((note, i) => {
         note.fingering = solution.fingering[i];
+        note.ornamentFingering = solution.ornamentFingerings?.[i];
+        note.substitution = solution.substitutions?.[i];
       });
+      refreshDifficultyReport();
       
       // Step 3: Calculate placements
       processingStep.value = 'Calculating display positions...';
-      await delay(100);
+      progress.value = 1;
       
-      fingeringRenderer.setColorMode(colorMode.value);
-      placements.value = fingeringRenderer.calculatePlacements(parsedScore.value.notes);
+      refreshPlacements();
       
       addToast('success', `Generated fingering for ${parsedScore.value.notes.length} notes`);
       
     } catch (err) {
+      if (err instanceof AnalysisCancelledError) {
+        addToast('info', 'Fingering generation cancelled');
+        return;
+      }
       const message = err instanceof Error ? err.message : 'Failed to generate fingering';
       error.value = message;
       addToast('error', message);
     } finally {
       isProcessing.value = false;
       processingStep.value = '';
+      progress.value = null;
     }
   }
 
+  function reportProgress(update: AnalysisProgress) {
+    progress.value = update.fraction;
+    
+    // Parsing keeps the step set when the upload started
+    if (update.stage === 'parsing') return;
+    
+    if (update.stage === 'patterns') {
+      processingStep.value = 'Analyzing musical patterns...';
+    } else if (update.measure) {
+      processingStep.value = `Planning ${update.hand} fingering... measure ${update.measure}/${update.totalMeasures}`;
+    } else {
+      processingStep.value = `Planning ${update.hand} fingering...`;
+    }
+  }
+
+  function cancelAnalysis() {
+    analysisClient.cancel();
+  }
+
   function updateNoteFingering(noteIndex: number, finger: Finger) {
     if (!parsedScore.value || !fingeringSolution.value) return;
     
@@ -173,16 +268,200 @@ export const useAppStore = defineStore('app', () => {
     if (note) {
       note.fingering = finger;
       fingeringSolution.value.fingering[noteIndex] = finger;
+      setSubstitution(noteIndex, undefined);
+      
+      // A manual edit pins the note for the next planning run
+      lockedFingerings.value.set(note.id, finger);
+      reflowedNoteIds.value = new Set();
+      clearAlternatives();
+      
+      const changed = reflowMode.value ? reflowAroundNote(noteIndex) : 0;
+      refreshOrnamentFingerings();
+      refreshDifficultyReport();
       
       // Recalculate placements
-      fingeringRenderer.setColorMode(colorMode.value);
-      placements.value = fingeringRenderer.calculatePlacements(parsedScore.value.notes);
+      refreshPlacements();
+      
+      if (changed > 0) {
+        addToast('info', `Updated note ${noteIndex + 1} to finger ${finger}, re-flowed ${changed} neighbouring notes`);
+      } else {
+        addToast('info', `Updated note ${noteIndex + 1} to finger ${finger}`);
+      }
+    }
+  }
+
+  function reflowAroundNote(noteIndex: number): number {
+    if (!parsedScore.value || !fingeringSolution.value) return 0;
+    
+    const notes = parsedScore.value.notes;
+    const solution = fingeringSolution.value;
+    
+    configurePlanner();
+    const result = fingeringPlanner.replanAround(
+      notes,
+      patterns.value,
+      noteIndex,
+      solution.fingering,
+      { lockedFingerings: lockedFingerings.value, timing: parsedScore.value }
+    );
+    
+    result.replannedIndices.forEach((i, w) => {
+      solution.explanations[i] = result.explanations[w];
+      setSubstitution(i, result.substitutions[w]);
+    });
+    
+    result.changedIndices.forEach(i => {
+      notes[i].fingering = result.fingering[i];
+      solution.fingering[i] = result.fingering[i];
+    });
+    
+    reflowedNoteIds.value = new Set(result.changedIndices.map(i => notes[i].id));
+    return result.changedIndices.length;
+  }
+
+  // The note and the solution keep the same substitution
+  function setSubstitution(noteIndex: number, substitution: Finger | undefined) {
+    if (!parsedScore.value || !fingeringSolution.value) return;
+    
+    const solution = fingeringSolution.value;
+    if (!solution.substitutions) solution.substitutions = new Array(solution.fingering.length);
+    solution.substitutions[noteIndex] = substitution;
+    parsedScore.value.notes[noteIndex].substitution = substitution;
+  }
+
+  // Edits are re-planned here on the main thread with the worker's settings
+  function configurePlanner() {
+    fingeringPlanner.setDifficultyLevel(difficultyLevel.value);
+    fingeringPlanner.setHandProfile(toRaw(handProfile.value));
+    fingeringPlanner.setCostProfile(toRaw(costProfile.value));
+  }
+
+  // Ornaments are re-fingered from the finger of their written note
+  function refreshOrnamentFingerings() {
+    if (!parsedScore.value || !fingeringSolution.value) return;
+    
+    const notes = parsedScore.value.notes;
+    if (!notes.some(n => n.ornament)) return;
+    
+    configurePlanner();
+    const ornamentFingerings = fingeringPlanner.planOrnaments(notes, fingeringSolution.value.fingering);
+    notes.forEach((note, i) => {
+      if (note.ornament) note.ornamentFingering = ornamentFingerings[i];
+    });
+    fingeringSolution.value.ornamentFingerings = ornamentFingerings;
+  }
+
+  // The report follows every change to the fingering
+  function refreshDifficultyReport() {
+    if (!parsedScore.value || !fingeringSolution.value) return;
+    
+    const score = toRaw(parsedScore.value);
+    configurePlanner();
+    const steps = fingeringPlanner.scoreSteps(
+      score.notes,
+      toRaw(patterns.value),
+      toRaw(fingeringSolution.value).fingering,
+      score.notes.map(n => n.substitution),
+      score
+    );
+    difficultyReport.value = difficultyAnalyzer.analyze(score.notes, steps, score);
+  }
+
+  // Fingering positions on the engraved score
+  function refreshPlacements() {
+    fingeringRenderer.setColorMode(colorMode.value);
+    if (!parsedScore.value || !engraving.value) return;
+    
+    placements.value = fingeringRenderer.calculatePlacements(toRaw(parsedScore.value).notes, engraving.value);
+  }
+
+  function findAlternatives(hand: Hand, fromMeasure: number, toMeasure: number, count = 3) {
+    if (!parsedScore.value || !fingeringSolution.value) return;
+    
+    configurePlanner();
+    alternatives.value = fingeringPlanner.planAlternatives(
+      parsedScore.value.notes,
+      patterns.value,
+      hand,
+      [Math.min(fromMeasure, toMeasure), Math.max(fromMeasure, toMeasure)],
+      fingeringSolution.value.fingering,
+      count,
+      { lockedFingerings: lockedFingerings.value, timing: parsedScore.value }
+    );
+    previewedAlternative.value = null;
+    
+    if (alternatives.value.length === 0) {
+      addToast('warning', `No ${hand} notes in the selected measures`);
+    } else if (alternatives.value.length < count) {
+      addToast('info', `Only ${alternatives.value.length} of ${count} options possible around the fixed notes`);
+    }
+  }
+
+  function previewAlternative(alternative: FingeringAlternative | null) {
+    previewedAlternative.value = alternative;
+  }
+
+  function adoptAlternative(alternative: FingeringAlternative) {
+    if (!parsedScore.value || !fingeringSolution.value) return;
+    
+    const notes = parsedScore.value.notes;
+    const solution = fingeringSolution.value;
+    let changed = 0;
+    
+    // Adopted fingers are pinned like manual edits
+    alternative.indices.forEach((i, n) => {
+      const finger = alternative.fingering[n];
+      const substitution = alternative.substitutions[n];
+      if (notes[i].fingering !== finger || notes[i].substitution !== substitution) changed++;
       
-      addToast('info', `Updated note ${noteIndex + 1} to finger ${finger}`);
+      notes[i].fingering = finger;
+      solution.fingering[i] = finger;
+      setSubstitution(i, substitution);
+      solution.explanations[i] = alternative.explanations[n];
+      lockedFingerings.value.set(notes[i].id, finger);
+    });
+    
+    reflowedNoteIds.value = new Set();
+    clearAlternatives();
+    refreshOrnamentFingerings();
+    refreshDifficultyReport();
+    
+    refreshPlacements();
+    
+    addToast('success', `Adopted option ${alternative.rank + 1}: ${changed} notes changed, ${alternative.indices.length} pinned`);
+  }
+
+  function clearAlternatives() {
+    alternatives.value = [];
+    previewedAlternative.value = null;
+  }
+
+  function setReflowMode(enabled: boolean) {
+    reflowMode.value = enabled;
+    reflowedNoteIds.value = new Set();
+  }
+
+  function isNoteLocked(note: Note): boolean {
+    return lockedFingerings.value.has(note.id);
+  }
+
+  function toggleNoteLock(noteIndex: number) {
+    const note = parsedScore.value?.notes[noteIndex];
+    if (!note) return;
+    
+    if (lockedFingerings.value.has(note.id)) {
+      lockedFingerings.value.delete(note.id);
+    } else if (note.fingering) {
+      lockedFingerings.value.set(note.id, note.fingering);
     }
   }
 
-  function downloadMusicXML() {
+  function clearLockedFingerings() {
+    lockedFingerings.value.clear();
+    addToast('info', 'Cleared all fixed fingerings');
+  }
+
+  async function downloadMusicXML() {
     if (!originalXml.value || !parsedScore.value) {
       addToast('error', 'No score to download');
       return;
@@ -194,22 +473,145 @@ export const useAppStore = defineStore('app', () => {
         parsedScore.value.notes
       );
       
-      const blob = new Blob([annotatedXml], { type: 'application/xml' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = fileName.value.replace(/\.(mxl|musicxml|xml)$/i, '_fingered.musicxml');
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      addToast('success', 'Downloaded annotated MusicXML file');
+      if (exportFormat.value === 'mxl') {
+        // Rebuild the uploaded archive, or package a plain upload as a new one
+        const archive = await musicXMLParser.writeMXL(
+          annotatedXml,
+          originalArchive.value,
+          `${baseName.value}.musicxml`
+        );
+        saveFile(new Blob([archive], { type: 'application/vnd.recordare.musicxml' }), `${baseName.value}_fingered.mxl`);
+        addToast('success', 'Downloaded annotated compressed MusicXML (.mxl) file');
+      } else {
+        saveFile(new Blob([annotatedXml], { type: 'application/xml' }), `${baseName.value}_fingered.musicxml`);
+        addToast('success', 'Downloaded annotated MusicXML file');
+      }
     } catch (err) {
       addToast('error', 'Failed to download file');
     }
   }
 
+  function downloadDifficultyReport(format: 'json' | 'csv') {
+    if (!difficultyReport.value) {
+      addToast('error', 'Generate fingering first');
+      return;
+    }
+    
+    const report = toRaw(difficultyReport.value);
+    
+    if (format === 'csv') {
+      saveFile(new Blob([difficultyAnalyzer.toCSV(report)], { type: 'text/csv' }), `${baseName.value}_difficulty.csv`);
+    } else {
+      saveFile(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), `${baseName.value}_difficulty.json`);
+    }
+    addToast('success', `Downloaded difficulty report (.${format})`);
+  }
+
+  async function downloadScore(format: 'svg' | 'pdf') {
+    if (!parsedScore.value || !fingeringSolution.value) {
+      addToast('error', 'Generate fingering first');
+      return;
+    }
+    
+    try {
+      const settings = toRaw(printSettings.value);
+      const pages = scorePrinter.renderPages(toRaw(parsedScore.value), settings);
+      
+      if (format === 'svg') {
+        if (pages.length === 1) {
+          saveFile(new Blob([pages[0].svg], { type: 'image/svg+xml' }), `${baseName.value}_fingered.svg`);
+        } else {
+          const archive = await scorePrinter.writeSVGArchive(pages, `${baseName.value}_fingered`);
+          saveFile(new Blob([archive], { type: 'application/zip' }), `${baseName.value}_fingered_svg.zip`);
+        }
+      } else {
+        const pdf = scorePrinter.writePDF(pages, settings.pageSize, parsedScore.value.title || baseName.value);
+        saveFile(new Blob([pdf], { type: 'application/pdf' }), `${baseName.value}_fingered.pdf`);
+      }
+      addToast('success', `Downloaded fingered score (.${format}, ${pages.length} page${pages.length === 1 ? '' : 's'})`);
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to export score');
+    }
+  }
+
+  // Lengths out of range are pulled into it; entries that are not numbers keep the current value
+  function setPrintSettings(settings: Partial<PrintSettings>) {
+    const current = printSettings.value;
+    const next = { ...current, ...settings };
+    const clamp = (value: number, min: number, max: number, fallback: number) =>
+      Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+    
+    printSettings.value = {
+      pageSize: next.pageSize,
+      margins: {
+        top: clamp(next.margins.top, 5, 40, current.margins.top),
+        right: clamp(next.margins.right, 5, 40, current.margins.right),
+        bottom: clamp(next.margins.bottom, 5, 40, current.margins.bottom),
+        left: clamp(next.margins.left, 5, 40, current.margins.left)
+      },
+      staffSize: clamp(next.staffSize, 4, 12, current.staffSize),
+      fingeringFont: {
+        family: next.fingeringFont.family,
+        size: clamp(next.fingeringFont.size, 6, 16, current.fingeringFont.size)
+      }
+    };
+  }
+
+  async function startPlayback() {
+    if (!parsedScore.value) return;
+    
+    try {
+      await scorePlayer.play(toRaw(parsedScore.value), toRaw(playbackSettings.value), {
+        onNotes: indices => { playingNotes.value = new Set(indices); },
+        onEnd: () => {
+          isPlaying.value = false;
+          playingNotes.value = new Set();
+        }
+      });
+      isPlaying.value = true;
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Playback failed');
+    }
+  }
+
+  function stopPlayback() {
+    scorePlayer.stop();
+  }
+
+  // Applied while playing; the tempo stays within 25-200% and the loop within the score
+  function setPlaybackSettings(settings: Partial<PlaybackSettings>) {
+    const current = playbackSettings.value;
+    const next = { ...current, ...settings };
+    const last = Math.max(measureCount.value, 1);
+    const measure = (value: number) => Math.min(Math.max(Math.round(value), 1), last);
+    const loop = next.loop && next.loop.every(Number.isFinite)
+      ? [measure(Math.min(...next.loop)), measure(Math.max(...next.loop))] as [number, number]
+      : next.loop && current.loop;
+    
+    playbackSettings.value = {
+      tempo: Number.isFinite(next.tempo) ? Math.min(Math.max(Math.round(next.tempo), 25), 200) : current.tempo,
+      mute: { ...next.mute },
+      solo: next.solo,
+      loop
+    };
+    scorePlayer.update(toRaw(playbackSettings.value));
+  }
+
+  function saveFile(blob: Blob, name: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  function setExportFormat(format: 'musicxml' | 'mxl') {
+    exportFormat.value = format;
+  }
+
   function toggleDarkMode() {
     darkMode.value = !darkMode.value;
     document.documentElement.classList.toggle('dark', darkMode.value);
@@ -217,17 +619,43 @@ export const useAppStore = defineStore('app', () => {
 
   function toggleColorMode() {
     colorMode.value = !colorMode.value;
-    fingeringRenderer.setColorMode(colorMode.value);
-    
-    if (parsedScore.value) {
-      placements.value = fingeringRenderer.calculatePlacements(parsedScore.value.notes);
-    }
+    refreshPlacements();
   }
 
   function setDifficultyLevel(level: 'beginner' | 'intermediate' | 'advanced') {
     difficultyLevel.value = level;
   }
 
+  function setHandSize(size: HandSize) {
+    // Custom starts from the spans currently in use
+    handProfile.value = size === 'custom'
+      ? { size, maxSpan: { ...handProfile.value.maxSpan } }
+      : HAND_PROFILES[size];
+  }
+
+  function setHandSpan(hand: Hand, span: number) {
+    if (!Number.isFinite(span)) return;
+    
+    const clamped = Math.min(Math.max(Math.round(span), MIN_HAND_SPAN), MAX_HAND_SPAN);
+    handProfile.value = {
+      size: 'custom',
+      maxSpan: { ...handProfile.value.maxSpan, [hand]: clamped }
+    };
+  }
+
+  async function loadCostProfile(file: File) {
+    try {
+      costProfile.value = CostModel.parseProfile(await file.text());
+      addToast('success', `Loaded cost profile "${costProfile.value.name}"`);
+    } catch (err) {
+      addToast('error', err instanceof Error ? err.message : 'Failed to load cost profile');
+    }
+  }
+
+  function clearCostProfile() {
+    costProfile.value = null;
+  }
+
   function addToast(type: Toast['type'], message: string, duration = 4000) {
     const id = Date.now().toString();
     toasts.value.push({ id, type, message, duration });
@@ -245,22 +673,27 @@ export const useAppStore = defineStore('app', () => {
   }
 
   function reset() {
+    analysisClient.cancel();
+    stopPlayback();
     originalXml.value = null;
+    originalArchive.value = null;
     fileName.value = '';
     parsedScore.value = null;
     patterns.value = [];
     fingeringSolution.value = null;
+    difficultyReport.value = null;
     placements.value = [];
+    lockedFingerings.value = new Map();
+    reflowedNoteIds.value = new Set();
+    clearAlternatives();
     error.value = null;
   }
 
-  function delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   return {
     // State
     originalXml,
+    originalArchive,
+    exportFormat,
     fileName,
     parsedScore,
     patterns,
@@ -268,10 +701,23 @@ export const useAppStore = defineStore('app', () => {
     placements,
     isProcessing,
     processingStep,
+    progress,
     error,
     darkMode,
     colorMode,
     difficultyLevel,
+    handProfile,
+    costProfile,
+    lockedFingerings,
+    reflowMode,
+    reflowedNoteIds,
+    alternatives,
+    previewedAlternative,
+    difficultyReport,
+    printSettings,
+    playbackSettings,
+    isPlaying,
+    playingNotes,
     toasts,
     
     // Computed
@@ -281,16 +727,42 @@ export const useAppStore = defineStore('app', () => {
     measureCount,
     rhNotes,
     lhNotes,
+    lockedCount,
+    engraving,
+    scoreSVG,
+    previewFingerings,
+    previewSubstitutions,
+    reassignedNotes,
     patternSummary,
     
     // Actions
     uploadFile,
     generateFingering,
+    cancelAnalysis,
     updateNoteFingering,
+    setReflowMode,
+    findAlternatives,
+    previewAlternative,
+    adoptAlternative,
+    clearAlternatives,
+    isNoteLocked,
+    toggleNoteLock,
+    clearLockedFingerings,
     downloadMusicXML,
+    downloadDifficultyReport,
+    downloadScore,
+    setPrintSettings,
+    startPlayback,
+    stopPlayback,
+    setPlaybackSettings,
+    setExportFormat,
     toggleDarkMode,
     toggleColorMode,
     setDifficultyLevel,
+    setHandSize,
+    setHandSpan,
+    loadCostProfile,
+    clearCostProfile,
     addToast,
     removeToast,
     reset
@@ -30,8 +30,11 @@ export interface Note {
   duration: number; // in divisions
   type: string; // whole, half, quarter, eighth, 16th
   voice: number;
-  staff: number; // 1 = treble, 2 = bass
+  staff: number; // 1 = treble, 2 = bass (numbered across merged piano parts)
   hand: Hand;
+  partId: string; // <part id> the note was read from
+  handDirection?: Hand; // explicit m.d./m.g. or r.h./l.h. marking in force
+  handReassigned?: { from: Hand; reason: string }; // set when moved away from its staff's hand
   measureNumber: number;
   beat: number;
   isChord: boolean;
@@ -42,6 +45,7 @@ export interface Note {
   hasSlur: boolean;
   slurStart: boolean;
   slurStop: boolean;
+  inSlur?: boolean; // from a slur's start to its stop, inclusive
   hasTie: boolean;
   tieStart: boolean;
   tieStop: boolean;
@@ -52,6 +56,9 @@ export interface Note {
   hasTrill: boolean;
   hasMordent: boolean;
   hasTurn: boolean;
+  // The ornament realized as the pitches it is played as
+  ornament?: Ornament;
+  ornamentFingering?: OrnamentFingering;
   
   // Dynamics
   dynamic?: string;
@@ -61,11 +68,32 @@ export interface Note {
   
   // Fingering (if already present or assigned)
   fingering?: Finger;
+  // Further fingers the score accepts for this note (<fingering alternate="yes">)
+  alternateFingerings?: Finger[];
+  // Finger that silently takes over while the note is held (<fingering substitution="yes">)
+  substitution?: Finger;
   
   // Position in XML for writing back
   xmlIndex: number;
 }
 
+export type OrnamentType = 'trill' | 'mordent' | 'inverted-mordent' | 'turn' | 'inverted-turn';
+
+// An ornament expanded from the key signature and its accidental marks
+export interface Ornament {
+  type: OrnamentType;
+  // Played pitches in order, the written note included
+  pitches: number[];
+  // Leading pitches written as the fingering figure: one trill cycle, a whole mordent or turn
+  figureLength: number;
+}
+
+// Fingers of an ornament's played pitches; the second choice is written as alternate
+export interface OrnamentFingering {
+  fingers: Finger[];
+  alternate?: Finger[];
+}
+
 // Chord representation (multiple notes at same time)
 export interface Chord {
   notes: Note[];
@@ -77,6 +105,8 @@ export interface Chord {
 
 // Pattern segment from Layer 1
 export interface PatternSegment {
+  hand: Hand;
+  // Indices into the notes of that hand
   startIndex: number;
   endIndex: number;
   patternType: PatternType;
@@ -107,6 +137,8 @@ export interface FingeringState {
   cost: number;
   parent: FingeringState | null;
   reasons: string[];
+  // What each cost rule added for the step into this note
+  contributions: RuleContribution[];
 }
 
 // Fingering solution
@@ -115,6 +147,143 @@ export interface FingeringSolution {
   totalCost: number;
   path: FingeringState[];
   explanations: string[];
+  // Aligned with fingering; set for ornamented notes
+  ornamentFingerings?: (OrnamentFingering | undefined)[];
+  // Aligned with fingering; set for held notes that change finger
+  substitutions?: (Finger | undefined)[];
+}
+
+// Weighted cost of one rule for one planning decision
+export interface RuleContribution {
+  rule: string;
+  cost: number;
+}
+
+// Cost of playing one sonority of one hand, coming from the one before it
+export interface StepCost {
+  hand: Hand;
+  measureNumber: number;
+  beat: number;
+  // Global note indices of the sonority
+  indices: number[];
+  cost: number;
+  contributions: RuleContribution[];
+  reasons: string[];
+}
+
+// How hard one hand's part of a measure is to play with its fingering
+export interface HandDifficulty {
+  level: number; // 0 (Initial) to 9 (Diploma), as DifficultyReport.level
+  strain: number; // penalties of the cost rules, summed
+  notesPerSecond: number; // notes and chords struck
+  // Largest penalties by rule, largest first
+  rules: RuleContribution[];
+}
+
+export interface MeasureDifficulty {
+  measureNumber: number;
+  hands: Record<Hand, HandDifficulty>;
+}
+
+// One of the hardest steps of a piece
+export interface DifficultySpot {
+  hand: Hand;
+  measureNumber: number;
+  beat: number;
+  noteIndices: number[];
+  strain: number;
+  rules: RuleContribution[];
+  reasons: string[];
+}
+
+// Playability of a fingered piece
+export interface DifficultyReport {
+  level: number; // 0 (Initial) to 9 (Diploma), of the harder hand
+  grade: string; // level as a syllabus grade, such as "Grade 5"
+  hands: Record<Hand, number>;
+  measures: MeasureDifficulty[];
+  hardestSpots: DifficultySpot[];
+}
+
+// Overrides of one cost rule; anything left out keeps its default
+export interface CostRuleSettings {
+  enabled?: boolean;
+  weight?: number;
+  params?: Record<string, number>;
+}
+
+// Planner cost model settings, loadable from JSON
+export interface CostProfile {
+  name: string;
+  description?: string;
+  rules?: Record<string, CostRuleSettings>;
+  // Finger transition counts, keyed like "1->2"
+  transitionWeights?: Record<string, number>;
+  // Learned per hand: share of each finger pair ("1->2") among steps of one signed interval ("+2")
+  intervalStats?: Partial<Record<Hand, Record<string, Record<string, number>>>>;
+  // Learned per hand: share of each finger ("1"-"5") on black and on white keys
+  keyColorStats?: Partial<Record<Hand, Record<KeyColor, Record<string, number>>>>;
+}
+
+export type KeyColor = 'black' | 'white';
+
+// Named hand sizes; custom uses measured spans
+export type HandSize = 'child' | 'small' | 'average' | 'large' | 'custom';
+
+// Widest comfortable 1-5 stretch of each hand, in semitones
+export interface HandProfile {
+  size: HandSize;
+  maxSpan: Record<Hand, number>;
+}
+
+// Options for a planning run
+export interface PlanningOptions {
+  // Fingers that must be kept, keyed by note id (from the score or pinned by the user)
+  lockedFingerings?: ReadonlyMap<string, Finger>;
+  // Sonorities re-planned on each side of an edited note
+  reflowWindow?: number;
+  // Called whenever planning of a hand reaches a new measure
+  onProgress?: (hand: Hand, measureNumber: number) => void;
+  // Measures and tempo markings, so costs follow how fast the notes go
+  timing?: ScoreTiming;
+}
+
+// Progress of a background analysis run
+export interface AnalysisProgress {
+  stage: 'parsing' | 'patterns' | 'planning';
+  hand?: Hand;
+  measure?: number;
+  totalMeasures?: number;
+  fraction: number; // 0-1 for the whole run
+}
+
+// Result of re-planning around a manual edit
+export interface ReflowResult {
+  fingering: Finger[];
+  changedIndices: number[];
+  replannedIndices: number[];
+  // Aligned with replannedIndices
+  explanations: string[];
+  substitutions: (Finger | undefined)[];
+}
+
+// One of the k cheapest fingerings of a passage
+export interface FingeringAlternative {
+  rank: number;
+  hand: Hand;
+  // Global note indices of the passage; fingering is aligned with them
+  indices: number[];
+  fingering: Finger[];
+  cost: number;
+  // Extra cost over the cheapest alternative
+  costDelta: number;
+  // Notes fingered differently from the cheapest alternative
+  changedIndices: number[];
+  // Rules that make it dearer or cheaper than the cheapest alternative
+  reasons: string[];
+  // Aligned with indices
+  explanations: string[];
+  substitutions: (Finger | undefined)[];
 }
 
 // Cost calculation result
@@ -132,31 +301,145 @@ export interface MeasureInfo {
   clefs: { staff: number; sign: string; line: number }[];
 }
 
+// Tempo marking from <sound tempo> or <metronome>
+export interface TempoChange {
+  measureNumber: number;
+  beat: number; // in quarter notes from the start of the measure
+  bpm: number; // quarter notes per minute
+}
+
+// What it takes to turn score positions into seconds
+export interface ScoreTiming {
+  measures: MeasureInfo[];
+  tempos: TempoChange[];
+}
+
+// Part from <part-list>
+export interface PartInfo {
+  id: string;
+  name: string;
+  instrument: string;
+  isPiano: boolean;
+  staves: number;
+  staffOffset: number; // staves of fingered parts before this one
+  fingered: boolean; // part of the piano grand staff being fingered
+}
+
 // Parsed score
 export interface ParsedScore {
   title: string;
   composer: string;
   notes: Note[];
   measures: MeasureInfo[];
+  tempos: TempoChange[];
   divisions: number;
   partCount: number;
+  parts: PartInfo[];
+}
+
+// Where a note was drawn in the engraved score, in SVG user units
+export interface EngravedNote {
+  noteIndex: number;
+  system: number;
+  staff: number;
+  // Notehead centre
+  x: number;
+  y: number;
+  stem?: 'up' | 'down';
+  // Centre of the chord's column; a head a second from its neighbour sits beside it
+  column: number;
+}
+
+export type ObstacleKind =
+  | 'staff' | 'notehead' | 'stem' | 'flag' | 'beam' | 'accidental' | 'ledger'
+  | 'tie' | 'slur' | 'articulation' | 'text';
+
+// Box around an engraved element that marks placed later must keep clear of
+export interface EngravedObstacle {
+  system: number;
+  kind: ObstacleKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One line of music: its staves and where its measures lie
+export interface EngravedSystem {
+  top: number;
+  bottom: number;
+  // Top line of each staff, from staff 1 down
+  staffTops: number[];
+  measures: { number: number; x: number; width: number }[];
+  // SVG elements of the system alone
+  svg: string;
+}
+
+// Engraved notation of a score
+export interface EngravedScore {
+  width: number;
+  height: number;
+  staffSpace: number;
+  systems: EngravedSystem[];
+  notes: EngravedNote[];
+  obstacles: EngravedObstacle[];
+  // SVG elements of the title and composer
+  header: string;
+  // SVG elements of the notation, without the outer <svg>
+  svg: string;
+}
+
+// Typeface of fingering numbers; grace notes get a smaller size
+export interface FingeringFont {
+  family: string;
+  size: number; // points
 }
 
 // Fingering placement for visualization
 export interface FingeringPlacement {
   noteIndex: number;
   finger: Finger;
+  // Drawn after the finger, as in "4-3"
+  substitution?: Finger;
   x: number;
   y: number;
   placement: 'above' | 'below';
   hand: Hand;
   style: {
+    fontFamily: string;
     fontSize: string;
     fontWeight: string;
     color: string;
   };
 }
 
+export type PageSize = 'a4' | 'letter';
+
+// Layout of the printed score, lengths in millimetres
+export interface PrintSettings {
+  pageSize: PageSize;
+  margins: { top: number; right: number; bottom: number; left: number };
+  // Height of a staff, bottom line to top line
+  staffSize: number;
+  fingeringFont: FingeringFont;
+}
+
+// One printed page, sized in CSS pixels
+export interface PrintedPage {
+  width: number;
+  height: number;
+  svg: string;
+}
+
+// Score playback; the tempo is a percentage of the marked tempo
+export interface PlaybackSettings {
+  tempo: number;
+  mute: Record<Hand, boolean>;
+  solo: Hand | null;
+  // First and last measure played over and over, null to play the whole score once
+  loop: [number, number] | null;
+}
+
 // Application state
 export interface AppState {
   originalXml: string | null;
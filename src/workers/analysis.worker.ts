@@ -0,0 +1,100 @@
+import type {
+  Note, Finger, ParsedScore, PatternSegment, FingeringSolution, AnalysisProgress, HandProfile,
+  CostProfile, ScoreTiming
+} from '@/types';
+import { musicXMLParser } from '@/core/MusicXMLParser';
+import { handAssigner } from '@/core/HandAssigner';
+import { patternRecognizer } from '@/core/PatternRecognizer';
+import { fingeringPlanner } from '@/core/FingeringPlanner';
+
+/**
+ * Background analysis: reading the uploaded file, parsing, pattern
+ * recognition and fingering planning run here so large scores do not
+ * block the page
+ */
+
+export type AnalysisRequest =
+  | { type: 'parse'; id: number; file: File }
+  | {
+      type: 'plan';
+      id: number;
+      notes: Note[];
+      timing: ScoreTiming;
+      difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
+      handProfile: HandProfile;
+      costProfile: CostProfile | null;
+      lockedFingerings: [string, Finger][];
+    };
+
+export type AnalysisResponse =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'parsed'; id: number; score: ParsedScore; xml: string; archive: ArrayBuffer | null }
+  | { type: 'result'; id: number; patterns: PatternSegment[]; solution: FingeringSolution }
+  | { type: 'error'; id: number; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'parse') {
+      const report = (fraction: number) =>
+        post({ type: 'progress', id: request.id, progress: { stage: 'parsing', fraction } });
+      
+      // Unzipped or converted from MIDI here too; the text is kept for export
+      report(0);
+      const { xml, archive } = await musicXMLParser.readFile(request.file);
+      
+      // Fix hands the staff mapping gets wrong before anything is analyzed
+      report(0.4);
+      const score = musicXMLParser.parseXML(xml);
+      report(0.8);
+      handAssigner.assignHands(score.notes);
+      post({ type: 'parsed', id: request.id, score, xml, archive });
+    } else {
+      const { patterns, solution } = plan(request);
+      post({ type: 'result', id: request.id, patterns, solution });
+    }
+  } catch (err) {
+    const fallback = request.type === 'parse' ? 'Failed to parse file' : 'Failed to generate fingering';
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : fallback });
+  }
+};
+
+function plan(request: Extract<AnalysisRequest, { type: 'plan' }>) {
+  const { id, notes, timing } = request;
+  const measureCount = timing.measures.length;
+
+  // Step 1: Pattern Recognition
+  post({ type: 'progress', id, progress: { stage: 'patterns', fraction: 0 } });
+  const patterns = patternRecognizer.recognizePatterns(notes);
+
+  // Step 2: Fingering Planning - RH fills the first half of the bar, LH the second
+  const report = (hand: 'RH' | 'LH', measure: number) => {
+    // Measures before the one just reached are done
+    const handShare = Math.min(Math.max(measure - 1, 0) / Math.max(measureCount, 1), 1);
+    const fraction = 0.1 + 0.45 * ((hand === 'RH' ? 0 : 1) + handShare);
+    post({
+      type: 'progress',
+      id,
+      progress: { stage: 'planning', hand, measure, totalMeasures: measureCount, fraction }
+    });
+  };
+
+  report('RH', 0);
+  fingeringPlanner.setDifficultyLevel(request.difficultyLevel);
+  fingeringPlanner.setHandProfile(request.handProfile);
+  fingeringPlanner.setCostProfile(request.costProfile);
+  const solution = fingeringPlanner.planFingering(notes, patterns, {
+    lockedFingerings: new Map(request.lockedFingerings),
+    timing,
+    onProgress: report
+  });
+
+  return { patterns, solution };
+}
+
+function post(message: AnalysisResponse) {
+  ctx.postMessage(message);
+}
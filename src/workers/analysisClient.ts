@@ -0,0 +1,148 @@
+import type {
+  Note, Finger, ParsedScore, PatternSegment, FingeringSolution, AnalysisProgress, HandProfile,
+  CostProfile, ScoreTiming
+} from '@/types';
+import type { AnalysisRequest, AnalysisResponse } from './analysis.worker';
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export interface PlanRequest {
+  notes: Note[];
+  timing: ScoreTiming;
+  difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
+  handProfile: HandProfile;
+  // null plans with the built-in cost rules
+  costProfile: CostProfile | null;
+  lockedFingerings: ReadonlyMap<string, Finger>;
+}
+
+export interface ParseResult {
+  score: ParsedScore;
+  reassigned: Note[];
+  // MusicXML text and uploaded .mxl archive, written back on export
+  xml: string;
+  archive: ArrayBuffer | null;
+}
+
+export interface PlanResult {
+  patterns: PatternSegment[];
+  solution: FingeringSolution;
+}
+
+/**
+ * Main-thread side of the analysis pipeline
+ * One run at a time; cancelling terminates the worker and the next run
+ * starts a fresh one
+ */
+export class AnalysisClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private pending: {
+    id: number;
+    resolve: (response: AnalysisResponse) => void;
+    reject: (err: Error) => void;
+    onProgress: (progress: AnalysisProgress) => void;
+  } | null = null;
+
+  /**
+   * Read an uploaded score file, parse it and assign hands in the worker
+   * Rejects with AnalysisCancelledError when cancel() is called
+   */
+  async parse(file: File, onProgress: (progress: AnalysisProgress) => void): Promise<ParseResult> {
+    const response = await this.run({ type: 'parse', id: this.nextId++, file }, onProgress);
+    if (response.type !== 'parsed') throw new Error('Unexpected response from analysis worker');
+    
+    const { score, xml, archive } = response;
+    return { score, reassigned: score.notes.filter(n => n.handReassigned), xml, archive };
+  }
+
+  /**
+   * Recognize patterns and plan fingering in the worker
+   * Rejects with AnalysisCancelledError when cancel() is called
+   */
+  async plan(request: PlanRequest, onProgress: (progress: AnalysisProgress) => void): Promise<PlanResult> {
+    const response = await this.run({
+      type: 'plan',
+      id: this.nextId++,
+      notes: request.notes,
+      timing: request.timing,
+      difficultyLevel: request.difficultyLevel,
+      handProfile: request.handProfile,
+      costProfile: request.costProfile,
+      lockedFingerings: [...request.lockedFingerings]
+    }, onProgress);
+    if (response.type !== 'result') throw new Error('Unexpected response from analysis worker');
+    
+    return { patterns: response.patterns, solution: response.solution };
+  }
+
+  private run(
+    message: AnalysisRequest,
+    onProgress: (progress: AnalysisProgress) => void = () => {}
+  ): Promise<AnalysisResponse> {
+    this.cancel();
+    
+    return new Promise<AnalysisResponse>((resolve, reject) => {
+      this.pending = { id: message.id, resolve, reject, onProgress };
+      this.getWorker().postMessage(message);
+    });
+  }
+
+  /**
+   * Stop the current run, if any
+   */
+  cancel() {
+    if (!this.pending) return;
+    
+    const { reject } = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new AnalysisCancelledError());
+  }
+
+  get isRunning(): boolean {
+    return this.pending !== null;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        const pending = this.pending;
+        this.pending = null;
+        this.worker?.terminate();
+        this.worker = null;
+        pending?.reject(new Error(event.message || 'Analysis worker failed'));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(response: AnalysisResponse) {
+    const pending = this.pending;
+    
+    // Messages from a cancelled run
+    if (!pending || pending.id !== response.id) return;
+    
+    if (response.type === 'progress') {
+      pending.onProgress(response.progress);
+      return;
+    }
+    
+    this.pending = null;
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+}
+
+export const analysisClient = new AnalysisClient();